@@ -0,0 +1,17 @@
+// Shows Web Push notifications for complaints followed with a tracking code.
+// The payload is { title, body, url } from the send-notifications function.
+self.addEventListener("push", (event) => {
+  const data = event.data ? event.data.json() : {};
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || "Corrupt Watch", {
+      body: data.body,
+      data: { url: data.url || "/verify" },
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  event.waitUntil(self.clients.openWindow(event.notification.data.url));
+});
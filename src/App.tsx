@@ -10,28 +10,54 @@ import Submit from "./pages/Submit";
 import Verify from "./pages/Verify";
 import GovPortal from "./pages/GovPortal";
 import Analytics from "./pages/Analytics";
+import Transparency from "./pages/Transparency";
+import Unsubscribe from "./pages/Unsubscribe";
+import ConfirmSubscription from "./pages/ConfirmSubscription";
 import NotFound from "./pages/NotFound";
+import { AuthProvider } from "./components/AuthProvider";
+import { RequireRole } from "./components/RequireRole";
 
 const queryClient = new QueryClient();
 
+const OFFICIAL_ONLY = "This area is restricted to government officials and administrators";
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
       <Toaster />
       <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Landing />} />
-          <Route path="/auth" element={<Auth />} />
-          <Route path="/dashboard" element={<Dashboard />} />
-          <Route path="/submit" element={<Submit />} />
-          <Route path="/verify" element={<Verify />} />
-          <Route path="/gov" element={<GovPortal />} />
-          <Route path="/analytics" element={<Analytics />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
+      <AuthProvider>
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Landing />} />
+            <Route path="/auth" element={<Auth />} />
+            <Route path="/dashboard" element={<Dashboard />} />
+            <Route path="/submit" element={<Submit />} />
+            <Route path="/verify" element={<Verify />} />
+            <Route path="/transparency" element={<Transparency />} />
+            <Route path="/unsubscribe" element={<Unsubscribe />} />
+            <Route path="/confirm-subscription" element={<ConfirmSubscription />} />
+            <Route
+              path="/gov"
+              element={
+                <RequireRole roles={["government", "admin"]} message={OFFICIAL_ONLY}>
+                  <GovPortal />
+                </RequireRole>
+              }
+            />
+            <Route
+              path="/analytics"
+              element={
+                <RequireRole roles={["government", "admin"]} message={OFFICIAL_ONLY}>
+                  <Analytics />
+                </RequireRole>
+              }
+            />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </AuthProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
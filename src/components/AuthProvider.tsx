@@ -0,0 +1,72 @@
+import { ReactNode, useEffect, useRef, useState } from "react";
+import { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { AppRole, AuthContext, OFFICIAL_ROLES } from "@/hooks/use-auth";
+
+// Every signed-in user is a citizen; official roles are checked with has_role
+const fetchRoles = async (userId: string): Promise<AppRole[]> => {
+  const results = await Promise.all(
+    OFFICIAL_ROLES.map((role) => supabase.rpc("has_role", { _user_id: userId, _role: role }))
+  );
+
+  const granted = OFFICIAL_ROLES.filter((_, idx) => results[idx].data === true);
+  return ["citizen", ...granted];
+};
+
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [roles, setRoles] = useState<AppRole[]>([]);
+  const [loading, setLoading] = useState(true);
+  const rolesFor = useRef<string | null>(null);
+
+  useEffect(() => {
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+
+      if (!newSession) {
+        rolesFor.current = null;
+        setRoles([]);
+        setLoading(false);
+        return;
+      }
+
+      // Token refreshes keep the same user; only look roles up again on sign-in
+      if (rolesFor.current === newSession.user.id) return;
+      rolesFor.current = newSession.user.id;
+      setLoading(true);
+
+      // Defer Supabase calls out of the auth callback to avoid deadlocking the client
+      setTimeout(async () => {
+        try {
+          setRoles(await fetchRoles(newSession.user.id));
+        } catch (error) {
+          console.error("Error fetching roles:", error);
+          setRoles(["citizen"]);
+        } finally {
+          setLoading(false);
+        }
+      }, 0);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const hasRole = (role: AppRole) => roles.includes(role);
+
+  return (
+    <AuthContext.Provider
+      value={{
+        session,
+        user: session?.user ?? null,
+        roles,
+        isOfficial: OFFICIAL_ROLES.some(hasRole),
+        loading,
+        hasRole,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
@@ -0,0 +1,391 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { FileIcon, Loader2, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { recordEvidenceViews } from "@/lib/audit";
+import { signEvidenceUrls } from "@/lib/evidence";
+import { statusLabels } from "@/lib/complaint-status";
+import {
+  CASE_STATUSES,
+  CaseStatus,
+  CaseStatusTransition,
+  caseStatusColors,
+  caseStatusLabels,
+  Official,
+  officialName,
+} from "@/lib/cases";
+
+type Case = Database["public"]["Tables"]["cases"]["Row"];
+type CaseNote = Database["public"]["Tables"]["case_notes"]["Row"];
+
+interface CaseComplaint {
+  complaint_id: string;
+  added_at: string;
+  complaints: {
+    title: string;
+    status: Database["public"]["Enums"]["complaint_status"] | null;
+    category: string;
+    urgency_score: number | null;
+    created_at: string | null;
+  } | null;
+}
+
+interface CaseEvidence {
+  id: string;
+  complaint_id: string;
+  file_name: string;
+  file_type: string;
+  storage_path: string;
+  created_at: string | null;
+  signed_url?: string;
+}
+
+interface CaseDetailsProps {
+  caseId: string;
+  officials: Official[];
+  onOpenComplaint?: (complaintId: string) => void;
+  // Called after the case or its complaints change
+  onChanged?: () => void;
+}
+
+const UNASSIGNED = "unassigned";
+
+// One case file: its complaints, their combined evidence, notes and status
+export const CaseDetails = ({ caseId, officials, onOpenComplaint, onChanged }: CaseDetailsProps) => {
+  const { user } = useAuth();
+  const [caseFile, setCaseFile] = useState<Case | null>(null);
+  const [members, setMembers] = useState<CaseComplaint[]>([]);
+  const [notes, setNotes] = useState<CaseNote[]>([]);
+  const [evidence, setEvidence] = useState<CaseEvidence[]>([]);
+  const [transitions, setTransitions] = useState<CaseStatusTransition[]>([]);
+  const [newNote, setNewNote] = useState("");
+  const [newStatus, setNewStatus] = useState<CaseStatus>("open");
+  const [closureSummary, setClosureSummary] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  // Bumped after every change to reload the case
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const fetchCase = async () => {
+      const [{ data: caseRow }, { data: memberRows }, { data: noteRows }, { data: transitionRows }] = await Promise.all([
+        supabase.from("cases").select("*").eq("id", caseId).maybeSingle(),
+        supabase
+          .from("case_complaints")
+          .select("complaint_id, added_at, complaints(title, status, category, urgency_score, created_at)")
+          .eq("case_id", caseId)
+          .order("added_at", { ascending: true }),
+        supabase.from("case_notes").select("*").eq("case_id", caseId).order("created_at", { ascending: false }),
+        supabase.from("case_status_transitions").select("*"),
+      ]);
+
+      setCaseFile(caseRow);
+      setNewStatus(caseRow?.status ?? "open");
+      setClosureSummary(caseRow?.closure_summary ?? "");
+      setMembers(memberRows || []);
+      setNotes(noteRows || []);
+      setTransitions(transitionRows || []);
+
+      const complaintIds = (memberRows || []).map((member) => member.complaint_id);
+      if (complaintIds.length > 0) {
+        const { data: files } = await supabase
+          .from("evidence_files")
+          .select("id, complaint_id, file_name, file_type, storage_path, created_at")
+          .in("complaint_id", complaintIds)
+          .order("created_at", { ascending: false });
+
+        const signedUrls = await signEvidenceUrls(files || []);
+        setEvidence((files || []).map((file) => ({ ...file, signed_url: signedUrls[file.id] })));
+      } else {
+        setEvidence([]);
+      }
+
+      setLoading(false);
+    };
+
+    fetchCase();
+  }, [caseId, version]);
+
+  const afterChange = (message: string) => {
+    toast.success(message);
+    setVersion((current) => current + 1);
+    onChanged?.();
+  };
+
+  const handleTabChange = (tab: string) => {
+    if (tab === "evidence") {
+      recordEvidenceViews(evidence.map((file) => file.id));
+    }
+  };
+
+  const handleRemoveComplaint = async (complaintId: string) => {
+    const { error } = await supabase
+      .from("case_complaints")
+      .delete()
+      .eq("case_id", caseId)
+      .eq("complaint_id", complaintId);
+
+    if (error) {
+      toast.error(error.message || "Failed to remove complaint");
+      return;
+    }
+    afterChange("Complaint removed from case");
+  };
+
+  const handleAddNote = async () => {
+    if (!newNote.trim() || !user) return;
+
+    const { error } = await supabase
+      .from("case_notes")
+      .insert({ case_id: caseId, official_id: user.id, note: newNote.trim() });
+
+    if (error) {
+      toast.error(error.message || "Failed to add note");
+      return;
+    }
+    setNewNote("");
+    afterChange("Note added");
+  };
+
+  const handleSetLead = async (value: string) => {
+    const { error } = await supabase
+      .from("cases")
+      .update({ lead_investigator: value === UNASSIGNED ? null : value })
+      .eq("id", caseId);
+
+    if (error) {
+      toast.error(error.message || "Failed to set lead investigator");
+      return;
+    }
+    afterChange("Lead investigator updated");
+  };
+
+  const handleUpdateStatus = async () => {
+    if (!caseFile || newStatus === caseFile.status) return;
+
+    setSaving(true);
+    const { error } = await supabase
+      .from("cases")
+      .update({
+        status: newStatus,
+        ...(newStatus === "closed" ? { closure_summary: closureSummary.trim() } : {}),
+      })
+      .eq("id", caseId);
+    setSaving(false);
+
+    if (error) {
+      toast.error(error.message || "Failed to update case status");
+      return;
+    }
+    afterChange(`Case marked ${caseStatusLabels[newStatus].toLowerCase()}`);
+  };
+
+  if (loading || !caseFile) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const reachable = new Set(transitions.filter((t) => t.from_status === caseFile.status).map((t) => t.to_status));
+  const needsSummary = transitions.some(
+    (t) => t.from_status === caseFile.status && t.to_status === newStatus && t.required_field === "closure_summary"
+  );
+  const complaintTitles = Object.fromEntries(members.map((m) => [m.complaint_id, m.complaints?.title ?? ""]));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 flex-wrap text-sm text-muted-foreground">
+        <Badge className={`${caseStatusColors[caseFile.status]} text-white`}>{caseStatusLabels[caseFile.status]}</Badge>
+        <span>Lead: {officialName(officials.find((o) => o.user_id === caseFile.lead_investigator))}</span>
+        <span>•</span>
+        <span>Opened {format(new Date(caseFile.created_at), "MMM d, yyyy")}</span>
+      </div>
+      {caseFile.description && (
+        <p className="text-sm text-muted-foreground whitespace-pre-wrap">{caseFile.description}</p>
+      )}
+
+      <Tabs defaultValue="complaints" onValueChange={handleTabChange}>
+        <TabsList className="grid w-full grid-cols-4">
+          <TabsTrigger value="complaints">Complaints ({members.length})</TabsTrigger>
+          <TabsTrigger value="evidence">Evidence ({evidence.length})</TabsTrigger>
+          <TabsTrigger value="notes">Notes ({notes.length})</TabsTrigger>
+          <TabsTrigger value="manage">Manage</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="complaints" className="space-y-2">
+          {members.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No complaints yet. Add complaints from their Actions tab.
+            </p>
+          ) : (
+            members.map((member) => (
+              <div key={member.complaint_id} className="flex items-center justify-between gap-3 rounded border p-2">
+                <div className="min-w-0 space-y-1">
+                  <p className="text-sm font-medium truncate">{member.complaints?.title}</p>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    {member.complaints?.status && (
+                      <Badge variant="outline" className="text-xs">
+                        {statusLabels[member.complaints.status]}
+                      </Badge>
+                    )}
+                    <span>Urgency {member.complaints?.urgency_score ?? "N/A"}</span>
+                    <span>Added {format(new Date(member.added_at), "MMM d, yyyy")}</span>
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  {onOpenComplaint && (
+                    <Button variant="outline" size="sm" onClick={() => onOpenComplaint(member.complaint_id)}>
+                      Open
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => handleRemoveComplaint(member.complaint_id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </TabsContent>
+
+        <TabsContent value="evidence" className="space-y-2">
+          {evidence.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No evidence in this case</p>
+          ) : (
+            evidence.map((file) => (
+              <div key={file.id} className="flex items-center justify-between gap-3 rounded border p-2">
+                <div className="flex items-center gap-3 min-w-0">
+                  <FileIcon className="h-5 w-5 text-muted-foreground shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{file.file_name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      From "{complaintTitles[file.complaint_id]}"
+                      {file.created_at && ` • ${format(new Date(file.created_at), "MMM d, yyyy")}`}
+                    </p>
+                  </div>
+                </div>
+                {file.signed_url ? (
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={file.signed_url} target="_blank" rel="noopener noreferrer">
+                      View File
+                    </a>
+                  </Button>
+                ) : (
+                  <span className="text-xs text-muted-foreground">Link unavailable</span>
+                )}
+              </div>
+            ))
+          )}
+        </TabsContent>
+
+        <TabsContent value="notes" className="space-y-3">
+          {notes.map((note) => (
+            <Card key={note.id}>
+              <CardContent className="p-4">
+                <p className="text-sm mb-2 whitespace-pre-wrap">{note.note}</p>
+                <p className="text-xs text-muted-foreground">
+                  {officialName(officials.find((o) => o.user_id === note.official_id))} •{" "}
+                  {format(new Date(note.created_at), "MMM d, yyyy 'at' h:mm a")}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+          <div className="space-y-2">
+            <Label htmlFor="case-note">Add Case Note</Label>
+            <Textarea
+              id="case-note"
+              placeholder="Findings, next steps, contacts made..."
+              value={newNote}
+              onChange={(e) => setNewNote(e.target.value)}
+              rows={3}
+            />
+            <Button onClick={handleAddNote} disabled={!newNote.trim()} size="sm">
+              Add Note
+            </Button>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="manage" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Lead Investigator</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Select value={caseFile.lead_investigator ?? UNASSIGNED} onValueChange={handleSetLead}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                  {officials.map((official) => (
+                    <SelectItem key={official.user_id} value={official.user_id}>
+                      {officialName(official)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Case Status</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Select value={newStatus} onValueChange={(value) => setNewStatus(value as CaseStatus)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CASE_STATUSES.map((status) => (
+                    <SelectItem
+                      key={status}
+                      value={status}
+                      disabled={status !== caseFile.status && !reachable.has(status)}
+                    >
+                      {caseStatusLabels[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {needsSummary && (
+                <div className="space-y-2">
+                  <Label htmlFor="closure-summary">Closure summary</Label>
+                  <Textarea
+                    id="closure-summary"
+                    placeholder="Outcome of the investigation"
+                    value={closureSummary}
+                    onChange={(e) => setClosureSummary(e.target.value)}
+                    rows={3}
+                  />
+                </div>
+              )}
+              <Button
+                onClick={handleUpdateStatus}
+                disabled={saving || newStatus === caseFile.status || (needsSummary && !closureSummary.trim())}
+                className="w-full"
+              >
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Update Status
+              </Button>
+              {caseFile.status === "closed" && caseFile.closure_summary && (
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap">{caseFile.closure_summary}</p>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { Briefcase, X } from "lucide-react";
+import { CaseStatus, caseStatusLabels } from "@/lib/cases";
+
+interface CaseOption {
+  id: string;
+  title: string;
+  status: CaseStatus;
+}
+
+interface CaseMembershipProps {
+  complaintId: string;
+  complaintTitle: string;
+}
+
+const NEW_CASE = "new";
+
+// Cases a complaint belongs to, with controls to add it to another one
+export const CaseMembership = ({ complaintId, complaintTitle }: CaseMembershipProps) => {
+  const { user } = useAuth();
+  const [cases, setCases] = useState<CaseOption[]>([]);
+  const [memberOf, setMemberOf] = useState<Set<string>>(new Set());
+  const [selectedCase, setSelectedCase] = useState("");
+  // Bumped after every change to reload membership
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const fetchCases = async () => {
+      const [{ data: caseRows }, { data: memberships }] = await Promise.all([
+        supabase.from("cases").select("id, title, status").order("updated_at", { ascending: false }),
+        supabase.from("case_complaints").select("case_id").eq("complaint_id", complaintId),
+      ]);
+
+      setCases(caseRows || []);
+      setMemberOf(new Set((memberships || []).map((m) => m.case_id)));
+      setSelectedCase("");
+    };
+
+    fetchCases();
+  }, [complaintId, version]);
+
+  const addToCase = async (caseId: string) => {
+    if (!user) return false;
+
+    const { error } = await supabase
+      .from("case_complaints")
+      .insert({ case_id: caseId, complaint_id: complaintId, added_by: user.id });
+
+    if (error) {
+      toast.error(error.message || "Failed to add complaint to case");
+      return false;
+    }
+    return true;
+  };
+
+  const handleAdd = async () => {
+    if (!selectedCase || !user) return;
+
+    let caseId = selectedCase;
+    if (selectedCase === NEW_CASE) {
+      const { data, error } = await supabase
+        .from("cases")
+        .insert({ title: complaintTitle, created_by: user.id })
+        .select("id")
+        .single();
+
+      if (error) {
+        toast.error(error.message || "Failed to create case");
+        return;
+      }
+      caseId = data.id;
+    }
+
+    if (await addToCase(caseId)) {
+      toast.success(selectedCase === NEW_CASE ? "New case opened with this complaint" : "Complaint added to case");
+      setVersion((current) => current + 1);
+    }
+  };
+
+  const handleRemove = async (caseId: string) => {
+    const { error } = await supabase
+      .from("case_complaints")
+      .delete()
+      .eq("case_id", caseId)
+      .eq("complaint_id", complaintId);
+
+    if (error) {
+      toast.error(error.message || "Failed to remove complaint from case");
+      return;
+    }
+    toast.success("Complaint removed from case");
+    setVersion((current) => current + 1);
+  };
+
+  const joined = cases.filter((c) => memberOf.has(c.id));
+  const available = cases.filter((c) => !memberOf.has(c.id) && c.status !== "closed");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Briefcase className="h-4 w-4" />
+          Cases
+        </CardTitle>
+        <CardDescription>Group this complaint with others in an investigation</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {joined.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {joined.map((c) => (
+              <Badge key={c.id} variant="secondary" className="flex items-center gap-1">
+                {c.title} ({caseStatusLabels[c.status]})
+                <button onClick={() => handleRemove(c.id)} aria-label={`Remove from ${c.title}`}>
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-2">
+          <Select value={selectedCase} onValueChange={setSelectedCase}>
+            <SelectTrigger>
+              <SelectValue placeholder="Add to case..." />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NEW_CASE}>New case from this complaint</SelectItem>
+              {available.map((c) => (
+                <SelectItem key={c.id} value={c.id}>
+                  {c.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleAdd} disabled={!selectedCase}>
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,213 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { Briefcase, Eye, Loader2, Plus } from "lucide-react";
+import { format } from "date-fns";
+import { CaseDetails } from "@/components/CaseDetails";
+import { CASE_STATUSES, CaseStatus, caseStatusColors, caseStatusLabels, Official, officialName } from "@/lib/cases";
+
+interface CaseSummary {
+  id: string;
+  title: string;
+  status: CaseStatus;
+  lead_investigator: string | null;
+  created_at: string;
+  updated_at: string;
+  case_complaints: { count: number }[];
+}
+
+interface CasesPanelProps {
+  officials: Official[];
+  onOpenComplaint?: (complaintId: string) => void;
+}
+
+// Cases tab of the Gov Portal: every case file, and a form to open a new one
+export const CasesPanel = ({ officials, onOpenComplaint }: CasesPanelProps) => {
+  const { user } = useAuth();
+  const [cases, setCases] = useState<CaseSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filterStatus, setFilterStatus] = useState<string>("active");
+  const [selectedCaseId, setSelectedCaseId] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [newTitle, setNewTitle] = useState("");
+  const [newDescription, setNewDescription] = useState("");
+
+  const fetchCases = async () => {
+    const { data, error } = await supabase
+      .from("cases")
+      .select("id, title, status, lead_investigator, created_at, updated_at, case_complaints(count)")
+      .order("updated_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching cases:", error);
+      toast.error("Failed to load cases");
+    }
+    setCases(data || []);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchCases();
+  }, []);
+
+  const handleCreate = async () => {
+    if (!newTitle.trim() || !user) return;
+
+    const { data, error } = await supabase
+      .from("cases")
+      .insert({ title: newTitle.trim(), description: newDescription.trim() || null, created_by: user.id })
+      .select("id")
+      .single();
+
+    if (error) {
+      toast.error(error.message || "Failed to create case");
+      return;
+    }
+
+    toast.success("Case opened");
+    setCreating(false);
+    setNewTitle("");
+    setNewDescription("");
+    await fetchCases();
+    setSelectedCaseId(data.id);
+  };
+
+  const handleOpenComplaint = (complaintId: string) => {
+    setSelectedCaseId(null);
+    onOpenComplaint?.(complaintId);
+  };
+
+  const visibleCases = cases.filter((c) =>
+    filterStatus === "all" ? true : filterStatus === "active" ? c.status !== "closed" : c.status === filterStatus
+  );
+  const selectedCase = cases.find((c) => c.id === selectedCaseId);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="pt-6 flex items-center justify-between gap-4">
+          <Select value={filterStatus} onValueChange={setFilterStatus}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Filter by status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">Active Cases</SelectItem>
+              <SelectItem value="all">All Cases</SelectItem>
+              {CASE_STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {caseStatusLabels[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" onClick={() => setCreating(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Case
+          </Button>
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : visibleCases.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Briefcase className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-lg text-muted-foreground">No cases found</p>
+          </CardContent>
+        </Card>
+      ) : (
+        visibleCases.map((caseFile) => (
+          <Card key={caseFile.id} className="hover:shadow-md transition-shadow">
+            <CardHeader>
+              <div className="flex items-start justify-between">
+                <div className="space-y-1">
+                  <CardTitle className="text-xl">{caseFile.title}</CardTitle>
+                  <CardDescription className="flex items-center gap-4 flex-wrap">
+                    <span>{caseFile.case_complaints[0]?.count ?? 0} complaints</span>
+                    <span>•</span>
+                    <span>Lead: {officialName(officials.find((o) => o.user_id === caseFile.lead_investigator))}</span>
+                    <span>•</span>
+                    <span>Updated {format(new Date(caseFile.updated_at), "MMM d, yyyy")}</span>
+                  </CardDescription>
+                </div>
+                <Badge className={`${caseStatusColors[caseFile.status]} text-white`}>
+                  {caseStatusLabels[caseFile.status]}
+                </Badge>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="flex justify-end">
+                <Button size="sm" onClick={() => setSelectedCaseId(caseFile.id)}>
+                  <Eye className="h-4 w-4 mr-2" />
+                  Open Case
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Case</DialogTitle>
+            <DialogDescription>Group related complaints into one investigation</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="case-title">Title</Label>
+              <Input
+                id="case-title"
+                placeholder="e.g. Licensing office bribery reports"
+                value={newTitle}
+                onChange={(e) => setNewTitle(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="case-description">Description</Label>
+              <Textarea
+                id="case-description"
+                placeholder="Scope of the investigation"
+                value={newDescription}
+                onChange={(e) => setNewDescription(e.target.value)}
+                rows={3}
+              />
+            </div>
+            <Button onClick={handleCreate} disabled={!newTitle.trim()} className="w-full">
+              Open Case
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!selectedCaseId} onOpenChange={(open) => !open && setSelectedCaseId(null)}>
+        <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedCase?.title}</DialogTitle>
+            <DialogDescription>Case file</DialogDescription>
+          </DialogHeader>
+          {selectedCaseId && (
+            <CaseDetails
+              caseId={selectedCaseId}
+              officials={officials}
+              onOpenComplaint={handleOpenComplaint}
+              onChanged={fetchCases}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { UserCheck } from "lucide-react";
+import { format } from "date-fns";
+import { Official, officialName } from "@/lib/cases";
+import { AssignmentChange, Department, DepartmentMember, departmentName } from "@/lib/departments";
+
+interface ComplaintAssignmentProps {
+  complaintId: string;
+  assignedTo: string | null;
+  departmentId: string | null;
+  officials: Official[];
+  departments: Department[];
+  members: DepartmentMember[];
+  // Called after a reassignment so the caller can reload complaints
+  onChanged?: () => void;
+}
+
+// Radix selects cannot hold an empty value
+const NONE = "none";
+
+// Department and assignee of a complaint, with the controls to claim or
+// reassign it and the audit trail of earlier assignments
+export const ComplaintAssignment = ({
+  complaintId,
+  assignedTo,
+  departmentId,
+  officials,
+  departments,
+  members,
+  onChanged,
+}: ComplaintAssignmentProps) => {
+  const { user } = useAuth();
+  const [department, setDepartment] = useState(departmentId ?? NONE);
+  const [assignee, setAssignee] = useState(assignedTo ?? NONE);
+  const [reason, setReason] = useState("");
+  const [history, setHistory] = useState<AssignmentChange[]>([]);
+
+  useEffect(() => {
+    setDepartment(departmentId ?? NONE);
+    setAssignee(assignedTo ?? NONE);
+    setReason("");
+
+    const fetchHistory = async () => {
+      const { data, error } = await supabase
+        .from("complaint_assignments")
+        .select("*")
+        .eq("complaint_id", complaintId)
+        .order("changed_at", { ascending: false });
+
+      if (error) {
+        console.error("Error fetching assignment history:", error);
+      }
+      setHistory(data || []);
+    };
+
+    fetchHistory();
+  }, [complaintId, assignedTo, departmentId]);
+
+  const nameOf = (userId: string | null) => officialName(officials.find((o) => o.user_id === userId));
+
+  // Only members of the chosen department can take the complaint
+  const candidates =
+    department === NONE
+      ? officials
+      : officials.filter((o) => members.some((m) => m.department_id === department && m.user_id === o.user_id));
+
+  const assign = async (nextAssignee: string | null, nextDepartment: string | null, note: string) => {
+    const { error } = await supabase.rpc("assign_complaint", {
+      _complaint_id: complaintId,
+      _assignee: nextAssignee,
+      _department_id: nextDepartment,
+      _reason: note,
+    });
+
+    if (error) {
+      toast.error(error.message || "Failed to reassign complaint");
+      return;
+    }
+    toast.success(nextAssignee === user?.id ? "Complaint added to your queue" : "Complaint reassigned");
+    onChanged?.();
+  };
+
+  const handleClaim = () => {
+    if (!user) return;
+    assign(user.id, departmentId, "Claimed");
+  };
+
+  const handleSave = () => {
+    assign(assignee === NONE ? null : assignee, department === NONE ? null : department, reason.trim());
+  };
+
+  const handleDepartmentChange = (value: string) => {
+    setDepartment(value);
+    if (value !== NONE && !members.some((m) => m.department_id === value && m.user_id === assignee)) {
+      setAssignee(NONE);
+    }
+  };
+
+  const unchanged = department === (departmentId ?? NONE) && assignee === (assignedTo ?? NONE);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <UserCheck className="h-4 w-4" />
+          Assignment
+        </CardTitle>
+        <CardDescription>
+          {departmentName(departments, departmentId)} • {nameOf(assignedTo)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!assignedTo && (
+          <Button variant="outline" onClick={handleClaim} className="w-full">
+            Assign to me
+          </Button>
+        )}
+
+        <div className="grid md:grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label>Department</Label>
+            <Select value={department} onValueChange={handleDepartmentChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No department</SelectItem>
+                {departments.map((d) => (
+                  <SelectItem key={d.id} value={d.id}>
+                    {d.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Assignee</Label>
+            <Select value={assignee} onValueChange={setAssignee}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Unassigned</SelectItem>
+                {candidates.map((o) => (
+                  <SelectItem key={o.user_id} value={o.user_id}>
+                    {officialName(o)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="assignment-reason">Reason</Label>
+          <Input
+            id="assignment-reason"
+            placeholder="Why this complaint is moving"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+        <Button onClick={handleSave} disabled={unchanged} className="w-full">
+          Reassign
+        </Button>
+
+        {history.length > 0 && (
+          <div className="space-y-2 border-t pt-3">
+            <p className="text-sm font-medium">History</p>
+            {history.map((change) => (
+              <div key={change.id} className="text-xs text-muted-foreground">
+                <span className="text-foreground">
+                  {change.from_department !== change.to_department &&
+                    `${departmentName(departments, change.from_department)} → ${departmentName(departments, change.to_department)}; `}
+                  {nameOf(change.from_user)} → {nameOf(change.to_user)}
+                </span>
+                {change.reason && <span> — {change.reason}</span>}
+                <span>
+                  {" "}
+                  by {change.changed_by ? nameOf(change.changed_by) : "routing"} on{" "}
+                  {format(new Date(change.changed_at), "MMM d, yyyy 'at' h:mm a")}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { CheckCircle2, XCircle, Fingerprint, Loader2 } from "lucide-react";
+import { computeComplaintHash, ComplaintHashInput } from "@/lib/complaint-hash";
+
+interface ComplaintHashCheckProps {
+  // Stored fields of the complaint except the text the reporter re-enters
+  complaint: Omit<ComplaintHashInput, "title" | "description">;
+  expectedHash: string;
+}
+
+export const ComplaintHashCheck = ({ complaint, expectedHash }: ComplaintHashCheckProps) => {
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [computedHash, setComputedHash] = useState<string | null>(null);
+  const [computing, setComputing] = useState(false);
+
+  const handleCompute = async () => {
+    setComputing(true);
+    try {
+      setComputedHash(await computeComplaintHash({ ...complaint, title, description }));
+    } finally {
+      setComputing(false);
+    }
+  };
+
+  const matches = computedHash === expectedHash;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Fingerprint className="h-4 w-4 text-primary" />
+        <span className="font-semibold text-sm">Prove Your Submission</span>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Paste the exact title and description you submitted. The hash is recomputed in your browser and
+        compared with the published verification hash — nothing you type here is sent anywhere.
+      </p>
+      <div className="space-y-2">
+        <Label htmlFor="original-title" className="text-xs">Original Title</Label>
+        <Input
+          id="original-title"
+          value={title}
+          onChange={(e) => {
+            setTitle(e.target.value);
+            setComputedHash(null);
+          }}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="original-description" className="text-xs">Original Description</Label>
+        <Textarea
+          id="original-description"
+          rows={4}
+          value={description}
+          onChange={(e) => {
+            setDescription(e.target.value);
+            setComputedHash(null);
+          }}
+        />
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleCompute}
+        disabled={computing || !title || !description}
+      >
+        {computing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Recompute Hash
+      </Button>
+      {computedHash && (
+        <div className={`flex items-start gap-2 p-2 rounded ${matches ? "bg-secondary/10" : "bg-destructive/10"}`}>
+          {matches ? (
+            <CheckCircle2 className="h-4 w-4 text-secondary flex-shrink-0 mt-0.5" />
+          ) : (
+            <XCircle className="h-4 w-4 text-destructive flex-shrink-0 mt-0.5" />
+          )}
+          <div className="min-w-0">
+            <p className="text-sm font-medium">
+              {matches ? "Matches the stored record" : "Does not match the stored record"}
+            </p>
+            <p className="text-xs font-mono text-muted-foreground break-all">{computedHash}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import {
+  FileText,
+  RefreshCw,
+  MessageSquare,
+  Paperclip,
+  Eye,
+  AlertTriangle,
+  UserCheck,
+  Sparkles,
+  Link2,
+  Copy,
+  Briefcase,
+  Building2,
+  Clock,
+  HelpCircle,
+  Reply,
+  Circle,
+  XCircle,
+  Loader2,
+  LucideIcon,
+} from "lucide-react";
+import { format } from "date-fns";
+import { verifyLedger, LedgerVerification, ledgerActionLabels } from "@/lib/ledger";
+
+interface ComplaintTimelineProps {
+  complaintId: string;
+  // Evidence views are access events rather than history; officials can opt in
+  showAccessEvents?: boolean;
+}
+
+interface TimelineNote {
+  id: string;
+  note: string;
+}
+
+const actionIcons: Record<string, LucideIcon> = {
+  complaint_created: FileText,
+  status_changed: RefreshCw,
+  note_added: MessageSquare,
+  official_messaged: MessageSquare,
+  information_requested: HelpCircle,
+  reporter_replied: Reply,
+  evidence_added: Paperclip,
+  evidence_viewed: Eye,
+  urgency_changed: AlertTriangle,
+  complaint_assigned: UserCheck,
+  department_changed: Building2,
+  sla_escalated: Clock,
+  ai_analyzed: Sparkles,
+  complaint_linked: Link2,
+  complaint_unlinked: Link2,
+  duplicate_merged: Copy,
+  duplicate_unmerged: Copy,
+  added_to_case: Briefcase,
+  removed_from_case: Briefcase,
+};
+
+const humanize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1).replace(/_/g, " ");
+
+export const ComplaintTimeline = ({ complaintId, showAccessEvents = false }: ComplaintTimelineProps) => {
+  const [ledger, setLedger] = useState<LedgerVerification | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchTimeline = async () => {
+      setLoading(true);
+
+      // The ledger is only listed per complaint, so it does not reveal every complaint id
+      const { data: entries, error } = await supabase.rpc("complaint_ledger", { _complaint_id: complaintId });
+
+      if (error) {
+        console.error("Error fetching timeline:", error);
+        setLedger(null);
+        setLoading(false);
+        return;
+      }
+
+      // Note text is only returned to viewers allowed to read it
+      const { data: noteRows } = await supabase
+        .from("gov_notes")
+        .select("id, note")
+        .eq("complaint_id", complaintId);
+
+      setNotes(
+        (noteRows || []).reduce((acc, note: TimelineNote) => {
+          acc[note.id] = note.note;
+          return acc;
+        }, {} as Record<string, string>)
+      );
+      setLedger(await verifyLedger(entries || []));
+      setLoading(false);
+    };
+
+    fetchTimeline();
+  }, [complaintId]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!ledger || ledger.entries.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">No history recorded yet</p>;
+  }
+
+  const visibleEntries = ledger.entries.filter(
+    (entry) => showAccessEvents || entry.action !== "evidence_viewed"
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          {ledger.entries.length} ledger {ledger.entries.length === 1 ? "entry" : "entries"}, verified in your browser
+        </p>
+        <Badge className={ledger.valid ? "bg-status-verified text-white" : "bg-destructive text-white"}>
+          {ledger.valid ? "Chain intact" : "Chain broken"}
+        </Badge>
+      </div>
+
+      <ol className="relative border-l border-border ml-3 space-y-6">
+        {visibleEntries.map((entry) => {
+          const Icon = actionIcons[entry.action] || Circle;
+          const ok = entry.linked && entry.hashValid;
+          const noteText = entry.action === "note_added" && entry.new_value ? notes[entry.new_value] : null;
+
+          return (
+            <li key={entry.id} className="ml-6">
+              <span
+                className={`absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full ring-4 ring-background ${
+                  ok ? "bg-primary/10" : "bg-destructive/10"
+                }`}
+              >
+                {ok ? (
+                  <Icon className="h-3 w-3 text-primary" />
+                ) : (
+                  <XCircle className="h-3 w-3 text-destructive" />
+                )}
+              </span>
+              <div className="flex items-center justify-between gap-2">
+                <h4 className="text-sm font-semibold">
+                  {ledgerActionLabels[entry.action] || humanize(entry.action)}
+                </h4>
+                <time className="text-xs text-muted-foreground">
+                  {format(new Date(entry.timestamp), "MMM d, yyyy 'at' h:mm a")}
+                </time>
+              </div>
+              {(entry.action === "status_changed" || entry.action === "urgency_changed") &&
+                entry.old_value &&
+                entry.new_value && (
+                  <p className="text-sm text-muted-foreground">
+                    {humanize(entry.old_value)} → {humanize(entry.new_value)}
+                  </p>
+                )}
+              {noteText && <p className="text-sm text-muted-foreground whitespace-pre-wrap mt-1">{noteText}</p>}
+              {entry.actor_role && (
+                <p className="text-xs text-muted-foreground">By: {humanize(entry.actor_role)}</p>
+              )}
+              <p className="text-xs font-mono text-muted-foreground break-all mt-1">{entry.entry_hash}</p>
+              {!entry.linked && <p className="text-xs text-destructive">Does not link to the previous entry</p>}
+              {!entry.hashValid && <p className="text-xs text-destructive">Content does not match its hash</p>}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
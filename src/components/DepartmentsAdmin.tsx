@@ -0,0 +1,405 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { Building2, MapPin, Route, Trash2, X } from "lucide-react";
+import { Official, officialName } from "@/lib/cases";
+import { Department, DepartmentMember, Jurisdiction, RoutingRule, departmentName } from "@/lib/departments";
+import { Database } from "@/integrations/supabase/types";
+
+type ComplaintCategory = Database["public"]["Enums"]["complaint_category"];
+
+const categoryLabels: Record<ComplaintCategory, string> = {
+  bribery: "Bribery",
+  misconduct: "Misconduct",
+  misuse_of_funds: "Misuse of Funds",
+  negligence: "Negligence",
+  infrastructure: "Infrastructure",
+  other: "Other",
+};
+
+interface DepartmentsAdminProps {
+  officials: Official[];
+  departments: Department[];
+  members: DepartmentMember[];
+  jurisdictions: Jurisdiction[];
+  rules: RoutingRule[];
+  // Called after every change so the caller can reload the lists
+  onChanged: () => void;
+}
+
+const ANY = "any";
+
+const parseCoordinate = (value: string) => (value.trim() === "" ? null : Number(value));
+
+// Admin tab of the Gov Portal: departments and their members, jurisdictions,
+// and the rules that route new complaints
+export const DepartmentsAdmin = ({
+  officials,
+  departments,
+  members,
+  jurisdictions,
+  rules,
+  onChanged,
+}: DepartmentsAdminProps) => {
+  const [newDepartment, setNewDepartment] = useState("");
+  const [newDescription, setNewDescription] = useState("");
+  const [newMembers, setNewMembers] = useState<Record<string, string>>({});
+
+  const [jurisdictionName, setJurisdictionName] = useState("");
+  const [locationPattern, setLocationPattern] = useState("");
+  const [bounds, setBounds] = useState({ minLat: "", maxLat: "", minLng: "", maxLng: "" });
+
+  const [ruleDepartment, setRuleDepartment] = useState("");
+  const [ruleCategory, setRuleCategory] = useState(ANY);
+  const [ruleJurisdiction, setRuleJurisdiction] = useState(ANY);
+  const [rulePriority, setRulePriority] = useState("100");
+  const [ruleAutoAssign, setRuleAutoAssign] = useState(false);
+
+  const afterChange = (message: string, error: { message?: string } | null) => {
+    if (error) {
+      toast.error(error.message || "Failed to save changes");
+      return false;
+    }
+    toast.success(message);
+    onChanged();
+    return true;
+  };
+
+  const handleCreateDepartment = async () => {
+    const { error } = await supabase
+      .from("departments")
+      .insert({ name: newDepartment.trim(), description: newDescription.trim() || null });
+
+    if (afterChange("Department created", error)) {
+      setNewDepartment("");
+      setNewDescription("");
+    }
+  };
+
+  const handleDeleteDepartment = async (id: string) => {
+    const { error } = await supabase.from("departments").delete().eq("id", id);
+    afterChange("Department deleted", error);
+  };
+
+  const handleAddMember = async (departmentId: string) => {
+    const userId = newMembers[departmentId];
+    if (!userId) return;
+
+    const { error } = await supabase.from("department_members").insert({ department_id: departmentId, user_id: userId });
+    if (afterChange("Member added", error)) {
+      setNewMembers((current) => ({ ...current, [departmentId]: "" }));
+    }
+  };
+
+  const handleToggleSupervisor = async (member: DepartmentMember) => {
+    const { error } = await supabase
+      .from("department_members")
+      .update({ is_supervisor: !member.is_supervisor })
+      .eq("department_id", member.department_id)
+      .eq("user_id", member.user_id);
+    afterChange(member.is_supervisor ? "Supervisor role removed" : "Supervisor role granted", error);
+  };
+
+  const handleRemoveMember = async (member: DepartmentMember) => {
+    const { error } = await supabase
+      .from("department_members")
+      .delete()
+      .eq("department_id", member.department_id)
+      .eq("user_id", member.user_id);
+    afterChange("Member removed", error);
+  };
+
+  const handleCreateJurisdiction = async () => {
+    const { error } = await supabase.from("jurisdictions").insert({
+      name: jurisdictionName.trim(),
+      location_pattern: locationPattern.trim() || null,
+      min_latitude: parseCoordinate(bounds.minLat),
+      max_latitude: parseCoordinate(bounds.maxLat),
+      min_longitude: parseCoordinate(bounds.minLng),
+      max_longitude: parseCoordinate(bounds.maxLng),
+    });
+
+    if (afterChange("Jurisdiction created", error)) {
+      setJurisdictionName("");
+      setLocationPattern("");
+      setBounds({ minLat: "", maxLat: "", minLng: "", maxLng: "" });
+    }
+  };
+
+  const handleDeleteJurisdiction = async (id: string) => {
+    const { error } = await supabase.from("jurisdictions").delete().eq("id", id);
+    afterChange("Jurisdiction deleted", error);
+  };
+
+  const handleCreateRule = async () => {
+    const { error } = await supabase.from("routing_rules").insert({
+      department_id: ruleDepartment,
+      category: ruleCategory === ANY ? null : (ruleCategory as ComplaintCategory),
+      jurisdiction_id: ruleJurisdiction === ANY ? null : ruleJurisdiction,
+      priority: Number(rulePriority) || 100,
+      auto_assign: ruleAutoAssign,
+    });
+
+    if (afterChange("Routing rule created", error)) {
+      setRuleCategory(ANY);
+      setRuleJurisdiction(ANY);
+      setRulePriority("100");
+      setRuleAutoAssign(false);
+    }
+  };
+
+  const handleDeleteRule = async (id: string) => {
+    const { error } = await supabase.from("routing_rules").delete().eq("id", id);
+    afterChange("Routing rule deleted", error);
+  };
+
+  const sortedRules = [...rules].sort((a, b) => a.priority - b.priority);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <Building2 className="h-4 w-4" />
+            Departments
+          </CardTitle>
+          <CardDescription>Officials handle the complaints routed to their departments</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {departments.map((department) => {
+            const departmentMembers = members.filter((m) => m.department_id === department.id);
+            const available = officials.filter((o) => !departmentMembers.some((m) => m.user_id === o.user_id));
+
+            return (
+              <div key={department.id} className="rounded border p-3 space-y-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <p className="font-medium">{department.name}</p>
+                    {department.description && (
+                      <p className="text-sm text-muted-foreground">{department.description}</p>
+                    )}
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleDeleteDepartment(department.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {departmentMembers.length === 0 && <p className="text-sm text-muted-foreground">No members yet</p>}
+                  {departmentMembers.map((member) => (
+                    <Badge key={member.user_id} variant={member.is_supervisor ? "default" : "secondary"} className="flex items-center gap-1">
+                      <button onClick={() => handleToggleSupervisor(member)} title="Toggle supervisor">
+                        {officialName(officials.find((o) => o.user_id === member.user_id))}
+                        {member.is_supervisor && " (supervisor)"}
+                      </button>
+                      <button onClick={() => handleRemoveMember(member)} aria-label="Remove member">
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <Select
+                    value={newMembers[department.id] ?? ""}
+                    onValueChange={(value) => setNewMembers((current) => ({ ...current, [department.id]: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Add official..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {available.map((o) => (
+                        <SelectItem key={o.user_id} value={o.user_id}>
+                          {officialName(o)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button onClick={() => handleAddMember(department.id)} disabled={!newMembers[department.id]}>
+                    Add
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+
+          <div className="grid md:grid-cols-3 gap-2">
+            <Input
+              placeholder="Department name"
+              value={newDepartment}
+              onChange={(e) => setNewDepartment(e.target.value)}
+            />
+            <Input
+              placeholder="Description"
+              value={newDescription}
+              onChange={(e) => setNewDescription(e.target.value)}
+            />
+            <Button onClick={handleCreateDepartment} disabled={!newDepartment.trim()}>
+              Create Department
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <MapPin className="h-4 w-4" />
+            Jurisdictions
+          </CardTitle>
+          <CardDescription>
+            Areas matched by a bounding box on the complaint's coordinates or by text in its location
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {jurisdictions.map((jurisdiction) => (
+            <div key={jurisdiction.id} className="flex items-center justify-between gap-3 rounded border p-2">
+              <div className="text-sm">
+                <p className="font-medium">{jurisdiction.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {jurisdiction.location_pattern && `Location contains "${jurisdiction.location_pattern}"`}
+                  {jurisdiction.location_pattern && jurisdiction.min_latitude !== null && " or "}
+                  {jurisdiction.min_latitude !== null &&
+                    `lat ${jurisdiction.min_latitude}–${jurisdiction.max_latitude}, lng ${jurisdiction.min_longitude}–${jurisdiction.max_longitude}`}
+                </p>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => handleDeleteJurisdiction(jurisdiction.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <div className="grid md:grid-cols-2 gap-2">
+            <Input placeholder="Name" value={jurisdictionName} onChange={(e) => setJurisdictionName(e.target.value)} />
+            <Input
+              placeholder="Location contains (e.g. Westside)"
+              value={locationPattern}
+              onChange={(e) => setLocationPattern(e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <Input
+              type="number"
+              placeholder="Min latitude"
+              value={bounds.minLat}
+              onChange={(e) => setBounds({ ...bounds, minLat: e.target.value })}
+            />
+            <Input
+              type="number"
+              placeholder="Max latitude"
+              value={bounds.maxLat}
+              onChange={(e) => setBounds({ ...bounds, maxLat: e.target.value })}
+            />
+            <Input
+              type="number"
+              placeholder="Min longitude"
+              value={bounds.minLng}
+              onChange={(e) => setBounds({ ...bounds, minLng: e.target.value })}
+            />
+            <Input
+              type="number"
+              placeholder="Max longitude"
+              value={bounds.maxLng}
+              onChange={(e) => setBounds({ ...bounds, maxLng: e.target.value })}
+            />
+          </div>
+          <Button onClick={handleCreateJurisdiction} disabled={!jurisdictionName.trim()}>
+            Create Jurisdiction
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <Route className="h-4 w-4" />
+            Routing Rules
+          </CardTitle>
+          <CardDescription>
+            Each submitted complaint goes to the first matching rule, lowest priority number first
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {sortedRules.map((rule) => (
+            <div key={rule.id} className="flex items-center justify-between gap-3 rounded border p-2 text-sm">
+              <div className="flex items-center gap-2 flex-wrap">
+                <Badge variant="outline">{rule.priority}</Badge>
+                <span>{rule.category ? categoryLabels[rule.category] : "Any category"}</span>
+                <span>in</span>
+                <span>{jurisdictions.find((j) => j.id === rule.jurisdiction_id)?.name ?? "any area"}</span>
+                <span>→</span>
+                <span className="font-medium">{departmentName(departments, rule.department_id)}</span>
+                {rule.auto_assign && <Badge variant="secondary">Auto-assign</Badge>}
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => handleDeleteRule(rule.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <div className="grid md:grid-cols-4 gap-2">
+            <Select value={ruleCategory} onValueChange={setRuleCategory}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any category</SelectItem>
+                {Object.entries(categoryLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={ruleJurisdiction} onValueChange={setRuleJurisdiction}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any area</SelectItem>
+                {jurisdictions.map((j) => (
+                  <SelectItem key={j.id} value={j.id}>
+                    {j.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={ruleDepartment} onValueChange={setRuleDepartment}>
+              <SelectTrigger>
+                <SelectValue placeholder="Department" />
+              </SelectTrigger>
+              <SelectContent>
+                {departments.map((d) => (
+                  <SelectItem key={d.id} value={d.id}>
+                    {d.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              aria-label="Priority"
+              placeholder="Priority"
+              value={rulePriority}
+              onChange={(e) => setRulePriority(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <Switch id="rule-auto-assign" checked={ruleAutoAssign} onCheckedChange={setRuleAutoAssign} />
+              <Label htmlFor="rule-auto-assign">Assign to the least busy member</Label>
+            </div>
+            <Button onClick={handleCreateRule} disabled={!ruleDepartment}>
+              Add Rule
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
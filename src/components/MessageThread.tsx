@@ -0,0 +1,336 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { FileIcon, HelpCircle, Loader2, Send } from "lucide-react";
+import { format } from "date-fns";
+import { signEvidenceUrls } from "@/lib/evidence";
+import { validateEvidenceFile } from "@/lib/upload";
+import { MessageSender, openInfoRequest, ThreadMessage, uploadMessageAttachments } from "@/lib/messages";
+import { trackingBody, type TrackingCredentials } from "@/lib/tracking";
+
+const MAX_ATTACHMENTS = 5;
+
+interface SendOptions {
+  infoRequest: boolean;
+  files: File[];
+}
+
+interface MessageThreadProps {
+  messages: ThreadMessage[];
+  // Side of the conversation the viewer is on
+  viewer: MessageSender;
+  // Resolves to true once the message is stored
+  onSend: (body: string, options: SendOptions) => Promise<boolean>;
+}
+
+// Conversation between officials and the reporter of a complaint. Officials
+// can flag a message as a request for information; reporters can attach
+// further evidence to their replies.
+export const MessageThread = ({ messages, viewer, onSend }: MessageThreadProps) => {
+  const [body, setBody] = useState("");
+  const [infoRequest, setInfoRequest] = useState(false);
+  const [files, setFiles] = useState<File[]>([]);
+  const [sending, setSending] = useState(false);
+
+  const pending = openInfoRequest(messages);
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files || []);
+    e.target.value = "";
+
+    const invalid = picked.map(validateEvidenceFile).find(Boolean);
+    if (invalid) {
+      toast.error(invalid);
+      return;
+    }
+    if (files.length + picked.length > MAX_ATTACHMENTS) {
+      toast.error(`At most ${MAX_ATTACHMENTS} files can be attached to a message`);
+      return;
+    }
+    setFiles((prev) => [...prev, ...picked]);
+  };
+
+  const handleSend = async () => {
+    setSending(true);
+    const sent = await onSend(body.trim(), { infoRequest, files });
+    setSending(false);
+
+    if (sent) {
+      setBody("");
+      setInfoRequest(false);
+      setFiles([]);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {pending && (
+        <Alert>
+          <HelpCircle className="h-4 w-4" />
+          <AlertDescription>
+            {viewer === "reporter"
+              ? "Officials have asked for more information. Please reply below."
+              : "Waiting for the reporter to answer the latest information request."}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {messages.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          No messages yet.{" "}
+          {viewer === "reporter"
+            ? "Officials will write here if they need anything from you."
+            : "Messages sent here are visible to the reporter."}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {messages.map((message) => {
+            const own = message.sender_role === viewer;
+            return (
+              <Card key={message.id} className={own ? "ml-8 bg-muted/40" : "mr-8"}>
+                <CardContent className="p-4 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-medium">
+                      {message.sender_role === "official" ? "Official" : "Reporter"}
+                    </span>
+                    {message.is_info_request && (
+                      <Badge variant="outline" className="text-xs">
+                        Information requested
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap">{message.body}</p>
+                  {message.attachments.map((attachment) => (
+                    <div key={attachment.id} className="flex items-center gap-2 text-xs">
+                      <FileIcon className="h-3 w-3 text-muted-foreground" />
+                      {attachment.signed_url ? (
+                        <a href={attachment.signed_url} target="_blank" rel="noopener noreferrer" className="underline">
+                          {attachment.file_name}
+                        </a>
+                      ) : (
+                        <span>{attachment.file_name}</span>
+                      )}
+                    </div>
+                  ))}
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(message.created_at), "MMM d, yyyy 'at' h:mm a")}
+                  </p>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="space-y-2 border-t pt-4">
+        <Label htmlFor="thread-message">{viewer === "reporter" ? "Reply to officials" : "Message to the reporter"}</Label>
+        <Textarea
+          id="thread-message"
+          placeholder={viewer === "reporter" ? "Write your reply..." : "Visible to the reporter..."}
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={3}
+        />
+
+        {viewer === "official" ? (
+          <div className="flex items-center gap-2">
+            <Switch id="thread-info-request" checked={infoRequest} onCheckedChange={setInfoRequest} />
+            <Label htmlFor="thread-info-request" className="text-sm font-normal">
+              Request more information
+            </Label>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Input type="file" multiple accept="image/*,video/*,audio/*,application/pdf" onChange={handleFiles} />
+            {files.map((file, idx) => (
+              <div key={idx} className="flex items-center justify-between text-xs">
+                <span>{file.name}</span>
+                <Button variant="ghost" size="sm" onClick={() => setFiles((prev) => prev.filter((_, i) => i !== idx))}>
+                  Remove
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button onClick={handleSend} disabled={sending || !body.trim()}>
+          {sending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+          Send
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+interface ComplaintMessagesProps {
+  complaintId: string;
+  viewer: MessageSender;
+}
+
+// Thread for signed-in viewers: officials, and reporters on their dashboard.
+// Anonymous reporters use the tracking code through verify-tracking instead.
+export const ComplaintMessages = ({ complaintId, viewer }: ComplaintMessagesProps) => {
+  const { user } = useAuth();
+  const [messages, setMessages] = useState<ThreadMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Bumped after sending to reload the thread
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const fetchMessages = async () => {
+      const { data, error } = await supabase
+        .from("complaint_messages")
+        .select("*")
+        .eq("complaint_id", complaintId)
+        .order("created_at");
+
+      if (error) {
+        console.error("Error fetching messages:", error);
+        toast.error("Failed to load messages");
+      }
+
+      const { data: files } = await supabase
+        .from("evidence_files")
+        .select("id, file_name, storage_path, message_id")
+        .eq("complaint_id", complaintId)
+        .not("message_id", "is", null);
+
+      const signedUrls = await signEvidenceUrls(files || []);
+      const thread = (data || []).map((message) => ({
+        ...message,
+        sender_role: message.sender_role as MessageSender,
+        attachments: (files || [])
+          .filter((file) => file.message_id === message.id)
+          .map((file) => ({ id: file.id, file_name: file.file_name, signed_url: signedUrls[file.id] })),
+      }));
+
+      setMessages(thread);
+      setLoading(false);
+    };
+
+    fetchMessages();
+  }, [complaintId, version]);
+
+  const handleSend = async (body: string, { infoRequest, files }: SendOptions) => {
+    if (!user) return false;
+
+    try {
+      if (viewer === "official") {
+        const { error } = await supabase.from("complaint_messages").insert({
+          complaint_id: complaintId,
+          sender_role: "official",
+          sender_id: user.id,
+          body,
+          is_info_request: infoRequest,
+        });
+        if (error) throw error;
+      } else {
+        const { attachments, uploadId } = await uploadMessageAttachments(files, async (fileHashes) => {
+          const { data, error } = await supabase
+            .rpc("start_reply_upload", { _complaint_id: complaintId, _file_hashes: fileHashes })
+            .single();
+          if (error) throw error;
+          return data;
+        });
+        const { error } = await supabase.rpc("post_reporter_message", {
+          _complaint_id: complaintId,
+          _body: body,
+          _attachments: attachments,
+          _upload_id: uploadId,
+        });
+        if (error) throw error;
+      }
+    } catch (error) {
+      console.error("Error sending message:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to send message");
+      return false;
+    }
+
+    toast.success(infoRequest ? "Information request sent to the reporter" : "Message sent");
+    setVersion((current) => current + 1);
+    return true;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return <MessageThread messages={messages} viewer={viewer} onSend={handleSend} />;
+};
+
+interface TrackingMessagesProps {
+  credentials: TrackingCredentials;
+}
+
+// Thread for anonymous reporters, who prove the tracking code and secret to
+// verify-tracking for every read and reply
+export const TrackingMessages = ({ credentials }: TrackingMessagesProps) => {
+  const [messages, setMessages] = useState<ThreadMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchMessages = async () => {
+      setLoading(true);
+      const { data, error } = await supabase.functions.invoke("verify-tracking", { body: trackingBody(credentials) });
+
+      if (error || !data?.success) {
+        console.error("Error fetching messages:", error || data?.error);
+        toast.error("Failed to load messages");
+      }
+      setMessages(data?.complaint?.messages || []);
+      setLoading(false);
+    };
+
+    fetchMessages();
+  }, [credentials]);
+
+  const handleSend = async (body: string, { files }: SendOptions) => {
+    try {
+      const { attachments, uploadId } = await uploadMessageAttachments(files, async (fileHashes) => {
+        const { data, error } = await supabase.functions.invoke("verify-tracking", {
+          body: { ...trackingBody(credentials), replyUpload: { fileHashes } },
+        });
+        if (error) throw error;
+        if (!data.success) throw new Error(data.error);
+        return data.upload;
+      });
+      const { data, error } = await supabase.functions.invoke("verify-tracking", {
+        body: { ...trackingBody(credentials), reply: { message: body, attachments, uploadId } },
+      });
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error);
+
+      setMessages(data.complaint.messages);
+    } catch (error) {
+      console.error("Error sending reply:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to send reply");
+      return false;
+    }
+
+    toast.success("Reply sent");
+    return true;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return <MessageThread messages={messages} viewer="reporter" onSend={handleSend} />;
+};
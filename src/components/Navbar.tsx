@@ -2,30 +2,13 @@ import { Link, useNavigate, useLocation } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Shield, LogOut, User } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
-import { useEffect, useState } from "react";
-import { User as SupabaseUser } from "@supabase/supabase-js";
 import { toast } from "sonner";
+import { useAuth } from "@/hooks/use-auth";
 
 export const Navbar = () => {
   const navigate = useNavigate();
   const location = useLocation();
-  const [user, setUser] = useState<SupabaseUser | null>(null);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setUser(session?.user ?? null);
-      setLoading(false);
-    });
-
-    const {
-      data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
-      setUser(session?.user ?? null);
-    });
-
-    return () => subscription.unsubscribe();
-  }, []);
+  const { user, isOfficial, loading } = useAuth();
 
   const handleSignOut = async () => {
     await supabase.auth.signOut();
@@ -59,8 +42,8 @@ export const Navbar = () => {
         <div className="flex items-center gap-4">
           {!user ? (
             <>
-              <Link to="/analytics">
-                <Button variant="ghost">Analytics</Button>
+              <Link to="/transparency">
+                <Button variant="ghost">Transparency</Button>
               </Link>
               <Link to="/submit?anonymous=true">
                 <Button variant="ghost">Report Anonymously</Button>
@@ -76,8 +59,18 @@ export const Navbar = () => {
             <>
               {!isGovPortal && (
                 <>
-                  <Link to="/analytics">
-                    <Button variant="ghost">Analytics</Button>
+                  {isOfficial && (
+                    <>
+                      <Link to="/gov">
+                        <Button variant="ghost">Gov Portal</Button>
+                      </Link>
+                      <Link to="/analytics">
+                        <Button variant="ghost">Analytics</Button>
+                      </Link>
+                    </>
+                  )}
+                  <Link to="/transparency">
+                    <Button variant="ghost">Transparency</Button>
                   </Link>
                   <Link to="/dashboard">
                     <Button variant="ghost">My Complaints</Button>
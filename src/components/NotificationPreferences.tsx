@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { Bell, Loader2 } from "lucide-react";
+
+interface Preferences {
+  email_enabled: boolean;
+  sms_enabled: boolean;
+  status_changes: boolean;
+  citizen_notes: boolean;
+  information_requests: boolean;
+}
+
+// Matches the defaults enqueue_notification() applies before anything is saved
+const DEFAULT_PREFERENCES: Preferences = {
+  email_enabled: true,
+  sms_enabled: false,
+  status_changes: true,
+  citizen_notes: true,
+  information_requests: true,
+};
+
+const eventLabels: { key: keyof Preferences; label: string }[] = [
+  { key: "status_changes", label: "Status changes" },
+  { key: "citizen_notes", label: "Notes shared by officials" },
+  { key: "information_requests", label: "Messages and requests for more information" },
+];
+
+// Where and about what the reporter is notified. Contact details live on the
+// profile; channels without one are skipped when notifications are queued.
+export const NotificationPreferences = () => {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+  const [email, setEmail] = useState("");
+  const [phone, setPhone] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchPreferences = async () => {
+      const [{ data: saved, error: preferencesError }, { data: profile, error: profileError }] = await Promise.all([
+        supabase.from("notification_preferences").select("*").eq("user_id", user.id).maybeSingle(),
+        supabase.from("profiles").select("email, phone").eq("id", user.id).maybeSingle(),
+      ]);
+
+      if (preferencesError || profileError) {
+        console.error("Error fetching notification preferences:", preferencesError || profileError);
+        toast.error("Failed to load notification preferences");
+      }
+      if (saved) {
+        setPreferences({
+          email_enabled: saved.email_enabled,
+          sms_enabled: saved.sms_enabled,
+          status_changes: saved.status_changes,
+          citizen_notes: saved.citizen_notes,
+          information_requests: saved.information_requests,
+        });
+      }
+      setEmail(profile?.email ?? "");
+      setPhone(profile?.phone ?? "");
+      setLoading(false);
+    };
+
+    fetchPreferences();
+  }, [user]);
+
+  const toggle = (key: keyof Preferences) => (checked: boolean) =>
+    setPreferences((current) => ({ ...current, [key]: checked }));
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    if (preferences.sms_enabled && !phone.trim()) {
+      toast.error("Add a phone number to receive SMS");
+      return;
+    }
+
+    setSaving(true);
+    const [{ error: preferencesError }, { error: profileError }] = await Promise.all([
+      supabase.from("notification_preferences").upsert({ user_id: user.id, ...preferences }),
+      supabase
+        .from("profiles")
+        .update({ email: email.trim() || null, phone: phone.trim() || null })
+        .eq("id", user.id),
+    ]);
+    setSaving(false);
+
+    if (preferencesError || profileError) {
+      toast.error((preferencesError || profileError).message || "Failed to save notification preferences");
+      return;
+    }
+    toast.success("Notification preferences saved");
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Bell className="h-4 w-4" />
+          Notifications
+        </CardTitle>
+        <CardDescription>
+          Get an email or SMS when your complaints change. Anonymous complaints are not linked to you; follow them with
+          their tracking code on the Verify page instead.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="notify-email">Email</Label>
+              <Switch checked={preferences.email_enabled} onCheckedChange={toggle("email_enabled")} />
+            </div>
+            <Input id="notify-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="notify-phone">SMS</Label>
+              <Switch checked={preferences.sms_enabled} onCheckedChange={toggle("sms_enabled")} />
+            </div>
+            <Input
+              id="notify-phone"
+              type="tel"
+              placeholder="+1 555 123 4567"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Notify me about</Label>
+          {eventLabels.map(({ key, label }) => (
+            <div key={key} className="flex items-center gap-2">
+              <Switch id={`notify-${key}`} checked={preferences[key]} onCheckedChange={toggle(key)} />
+              <Label htmlFor={`notify-${key}`} className="text-sm font-normal">
+                {label}
+              </Label>
+            </div>
+          ))}
+        </div>
+
+        <Button onClick={handleSave} disabled={saving}>
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Preferences
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
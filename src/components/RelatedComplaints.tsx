@@ -0,0 +1,262 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { Copy, Link2, Loader2, Unlink } from "lucide-react";
+import { format } from "date-fns";
+import { statusLabels } from "@/lib/complaint-status";
+
+type RelatedComplaint = Database["public"]["Functions"]["related_complaints"]["Returns"][number];
+
+interface MergedDuplicate {
+  id: string;
+  title: string;
+  created_at: string;
+}
+
+interface RelatedComplaintsProps {
+  complaintId: string;
+  duplicateOf: string | null;
+  onOpenComplaint?: (complaintId: string) => void;
+  // Called after a link or merge so the caller can reload complaints
+  onChanged?: () => void;
+}
+
+// Similarity at which a related complaint is flagged as a likely duplicate
+const LIKELY_DUPLICATE = 0.6;
+
+const methodLabels: Record<string, string> = {
+  embedding: "Embedding match",
+  tfidf: "Text match",
+};
+
+// Nearest complaints by text similarity, with actions to link them or merge duplicates
+export const RelatedComplaints = ({ complaintId, duplicateOf, onOpenComplaint, onChanged }: RelatedComplaintsProps) => {
+  const [related, setRelated] = useState<RelatedComplaint[]>([]);
+  const [duplicates, setDuplicates] = useState<MergedDuplicate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [mergeCandidate, setMergeCandidate] = useState<RelatedComplaint | null>(null);
+
+  // Bumped after every change to reload the lists
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const fetchRelated = async () => {
+      setLoading(true);
+
+      const [{ data, error }, { data: merged }] = await Promise.all([
+        supabase.rpc("related_complaints", { _complaint_id: complaintId, _limit: 8 }),
+        supabase
+          .from("complaints")
+          .select("id, title, created_at")
+          .eq("duplicate_of", complaintId)
+          .order("created_at", { ascending: true }),
+      ]);
+
+      if (error) {
+        console.error("Error fetching related complaints:", error);
+        toast.error("Failed to load related complaints");
+      }
+      setRelated(data || []);
+      setDuplicates(merged || []);
+      setLoading(false);
+    };
+
+    fetchRelated();
+  }, [complaintId, version]);
+
+  const afterChange = (message: string) => {
+    toast.success(message);
+    setVersion((current) => current + 1);
+    onChanged?.();
+  };
+
+  const handleToggleLink = async (other: RelatedComplaint) => {
+    const { error } = await supabase.rpc(other.linked ? "unlink_complaints" : "link_complaints", {
+      _complaint_id: complaintId,
+      _other_id: other.related_complaint_id,
+    });
+
+    if (error) {
+      toast.error(error.message || "Failed to update link");
+      return;
+    }
+    afterChange(other.linked ? "Complaints unlinked" : "Complaints linked");
+  };
+
+  const handleMerge = async () => {
+    if (!mergeCandidate) return;
+
+    const { error } = await supabase.rpc("merge_duplicate_complaint", {
+      _duplicate_id: mergeCandidate.related_complaint_id,
+      _primary_id: complaintId,
+    });
+    setMergeCandidate(null);
+
+    if (error) {
+      toast.error(error.message || "Failed to merge complaints");
+      return;
+    }
+    afterChange("Duplicate merged into this complaint");
+  };
+
+  const handleUnmerge = async (duplicateId: string) => {
+    const { error } = await supabase.rpc("unmerge_duplicate_complaint", { _duplicate_id: duplicateId });
+
+    if (error) {
+      toast.error(error.message || "Failed to unmerge complaint");
+      return;
+    }
+    afterChange("Complaint unmerged");
+  };
+
+  return (
+    <div className="space-y-4">
+      {duplicateOf && (
+        <Alert>
+          <Copy className="h-4 w-4" />
+          <AlertTitle>Merged as a duplicate</AlertTitle>
+          <AlertDescription className="flex items-center justify-between gap-3">
+            <span>This complaint repeats another report and is tracked there.</span>
+            <div className="flex gap-2 shrink-0">
+              {onOpenComplaint && (
+                <Button variant="outline" size="sm" onClick={() => onOpenComplaint(duplicateOf)}>
+                  Open original
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" onClick={() => handleUnmerge(complaintId)}>
+                Unmerge
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {duplicates.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Merged Duplicate Reports ({duplicates.length})</CardTitle>
+            <CardDescription>Other reports of the same incident, merged into this complaint</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {duplicates.map((duplicate) => (
+              <div key={duplicate.id} className="flex items-center justify-between gap-3 rounded border p-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{duplicate.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(duplicate.created_at), "MMM d, yyyy")}
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  {onOpenComplaint && (
+                    <Button variant="outline" size="sm" onClick={() => onOpenComplaint(duplicate.id)}>
+                      Open
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => handleUnmerge(duplicate.id)}>
+                    Unmerge
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Related Complaints</CardTitle>
+          <CardDescription>Submitted complaints with the most similar text</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : related.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No related complaints found</p>
+          ) : (
+            related.map((other) => (
+              <div key={other.related_complaint_id} className="flex items-start justify-between gap-3 rounded border p-2">
+                <div className="space-y-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{other.related_title}</p>
+                  <div className="flex items-center gap-2 flex-wrap text-xs text-muted-foreground">
+                    <Badge variant="outline" className="text-xs">
+                      {statusLabels[other.related_status]}
+                    </Badge>
+                    <span>{format(new Date(other.related_created_at), "MMM d, yyyy")}</span>
+                    {other.related_location && <span>{other.related_location}</span>}
+                    <span title={methodLabels[other.method] ?? other.method}>
+                      {Math.round(other.similarity * 100)}% similar
+                    </span>
+                    {other.similarity >= LIKELY_DUPLICATE && !other.related_duplicate_of && (
+                      <Badge variant="secondary" className="text-xs">Likely duplicate</Badge>
+                    )}
+                    {other.related_duplicate_of && (
+                      <Badge variant="secondary" className="text-xs">
+                        {other.related_duplicate_of === complaintId ? "Merged here" : "Merged elsewhere"}
+                      </Badge>
+                    )}
+                    {other.linked && (
+                      <Badge variant="outline" className="text-xs flex items-center gap-1">
+                        <Link2 className="h-3 w-3" />
+                        Linked
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  {onOpenComplaint && (
+                    <Button variant="outline" size="sm" onClick={() => onOpenComplaint(other.related_complaint_id)}>
+                      Open
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => handleToggleLink(other)}>
+                    {other.linked ? <Unlink className="h-4 w-4 mr-1" /> : <Link2 className="h-4 w-4 mr-1" />}
+                    {other.linked ? "Unlink" : "Link"}
+                  </Button>
+                  {!duplicateOf && !other.related_duplicate_of && (
+                    <Button variant="ghost" size="sm" onClick={() => setMergeCandidate(other)}>
+                      <Copy className="h-4 w-4 mr-1" />
+                      Merge
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!mergeCandidate} onOpenChange={(open) => !open && setMergeCandidate(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge duplicate complaint?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{mergeCandidate?.related_title}" will be marked as a duplicate of this complaint. This complaint keeps
+              the higher urgency of the two, and the merge is recorded in both ledgers.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleMerge}>Merge</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
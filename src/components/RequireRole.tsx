@@ -0,0 +1,41 @@
+import { ReactNode, useEffect } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { AppRole, useAuth } from "@/hooks/use-auth";
+
+interface RequireRoleProps {
+  roles: AppRole[];
+  // Shown to signed-in users who lack the role
+  message: string;
+  children: ReactNode;
+}
+
+export const RequireRole = ({ roles, message, children }: RequireRoleProps) => {
+  const { user, hasRole, loading } = useAuth();
+  const location = useLocation();
+  const allowed = roles.some(hasRole);
+
+  useEffect(() => {
+    if (loading || allowed) return;
+    toast.error(user ? message : "Please sign in with an official account to continue");
+  }, [loading, allowed, user, message]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace state={{ from: location.pathname }} />;
+  }
+
+  if (!allowed) {
+    return <Navigate to="/" replace />;
+  }
+
+  return <>{children}</>;
+};
@@ -0,0 +1,95 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Link2 } from "lucide-react";
+import { format } from "date-fns";
+import { ComplaintStatus, statusLabels } from "@/lib/complaint-status";
+
+interface SharedEvidenceProps {
+  complaintId: string;
+  onOpenComplaint?: (complaintId: string) => void;
+}
+
+interface RelatedComplaint {
+  id: string;
+  title: string;
+  status: ComplaintStatus;
+  createdAt: string;
+  files: string[];
+}
+
+// Other complaints that include identical evidence, as a prompt to link them
+export const SharedEvidence = ({ complaintId, onOpenComplaint }: SharedEvidenceProps) => {
+  const [related, setRelated] = useState<RelatedComplaint[]>([]);
+
+  useEffect(() => {
+    const fetchMatches = async () => {
+      const { data, error } = await supabase.rpc("shared_evidence", { _complaint_id: complaintId });
+
+      if (error) {
+        console.error("Error fetching shared evidence:", error);
+        setRelated([]);
+        return;
+      }
+
+      const byComplaint = new Map<string, RelatedComplaint>();
+      for (const match of data || []) {
+        const entry = byComplaint.get(match.related_complaint_id) ?? {
+          id: match.related_complaint_id,
+          title: match.related_title,
+          status: match.related_status,
+          createdAt: match.related_created_at,
+          files: [],
+        };
+        entry.files.push(
+          match.file_name === match.related_file_name
+            ? match.file_name
+            : `${match.file_name} ↔ ${match.related_file_name}`
+        );
+        byComplaint.set(entry.id, entry);
+      }
+      setRelated(Array.from(byComplaint.values()));
+    };
+
+    fetchMatches();
+  }, [complaintId]);
+
+  if (related.length === 0) return null;
+
+  return (
+    <Alert>
+      <Link2 className="h-4 w-4" />
+      <AlertTitle>
+        Identical evidence found in {related.length} other complaint{related.length === 1 ? "" : "s"}
+      </AlertTitle>
+      <AlertDescription>
+        <p className="text-xs text-muted-foreground mb-3">
+          The same file was submitted more than once. These complaints may describe the same incident.
+        </p>
+        <div className="space-y-2">
+          {related.map((complaint) => (
+            <div key={complaint.id} className="flex items-start justify-between gap-3 rounded border p-2">
+              <div className="space-y-1 min-w-0">
+                <p className="text-sm font-medium truncate">{complaint.title}</p>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Badge variant="outline" className="text-xs">
+                    {statusLabels[complaint.status]}
+                  </Badge>
+                  <span>{format(new Date(complaint.createdAt), "MMM d, yyyy")}</span>
+                </div>
+                <p className="text-xs text-muted-foreground break-all">{complaint.files.join(", ")}</p>
+              </div>
+              {onOpenComplaint && (
+                <Button variant="outline" size="sm" onClick={() => onOpenComplaint(complaint.id)}>
+                  Open
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+};
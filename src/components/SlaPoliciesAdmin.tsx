@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Clock, Trash2 } from "lucide-react";
+
+type SlaPolicy = Database["public"]["Tables"]["sla_policies"]["Row"];
+type ComplaintCategory = Database["public"]["Enums"]["complaint_category"];
+
+const categoryLabels: Record<ComplaintCategory, string> = {
+  bribery: "Bribery",
+  misconduct: "Misconduct",
+  misuse_of_funds: "Misuse of Funds",
+  negligence: "Negligence",
+  infrastructure: "Infrastructure",
+  other: "Other",
+};
+
+const ANY = "any";
+
+const formatHours = (hours: number) =>
+  hours % 24 === 0 ? `${hours / 24} day${hours === 24 ? "" : "s"}` : `${hours} hours`;
+
+// Admin tab of the Gov Portal: how long complaints may stay open. A complaint
+// gets the shortest deadline among the policies it matches.
+export const SlaPoliciesAdmin = () => {
+  const [policies, setPolicies] = useState<SlaPolicy[]>([]);
+  const [category, setCategory] = useState(ANY);
+  const [minUrgency, setMinUrgency] = useState("0");
+  const [days, setDays] = useState("");
+  // Bumped after every change to reload policies
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const fetchPolicies = async () => {
+      const { data, error } = await supabase
+        .from("sla_policies")
+        .select("*")
+        .order("category", { nullsFirst: true })
+        .order("min_urgency");
+
+      if (error) {
+        console.error("Error fetching SLA policies:", error);
+        toast.error("Failed to load SLA policies");
+      }
+      setPolicies(data || []);
+    };
+
+    fetchPolicies();
+  }, [version]);
+
+  const handleCreate = async () => {
+    const { error } = await supabase.from("sla_policies").insert({
+      category: category === ANY ? null : (category as ComplaintCategory),
+      min_urgency: Number(minUrgency) || 0,
+      resolution_hours: Math.round(Number(days) * 24),
+    });
+
+    if (error) {
+      toast.error(error.message || "Failed to create SLA policy");
+      return;
+    }
+    toast.success("SLA policy created. It applies to complaints submitted or re-triaged from now on.");
+    setDays("");
+    setVersion((current) => current + 1);
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from("sla_policies").delete().eq("id", id);
+
+    if (error) {
+      toast.error(error.message || "Failed to delete SLA policy");
+      return;
+    }
+    toast.success("SLA policy deleted");
+    setVersion((current) => current + 1);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Clock className="h-4 w-4" />
+          SLA Policies
+        </CardTitle>
+        <CardDescription>
+          Time allowed to resolve a complaint by category and urgency. The strictest matching policy sets the due
+          date; overdue complaints are escalated to a department supervisor.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {policies.map((policy) => (
+          <div key={policy.id} className="flex items-center justify-between gap-3 rounded border p-2 text-sm">
+            <span>
+              {policy.category ? categoryLabels[policy.category] : "Any category"}, urgency {policy.min_urgency}+ →{" "}
+              <span className="font-medium">{formatHours(policy.resolution_hours)}</span>
+            </span>
+            <Button variant="ghost" size="sm" onClick={() => handleDelete(policy.id)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <div className="grid md:grid-cols-4 gap-2 items-end">
+          <div className="space-y-2">
+            <Label>Category</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any category</SelectItem>
+                {Object.entries(categoryLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sla-min-urgency">Minimum urgency</Label>
+            <Input
+              id="sla-min-urgency"
+              type="number"
+              min={0}
+              max={10}
+              value={minUrgency}
+              onChange={(e) => setMinUrgency(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sla-days">Days to resolve</Label>
+            <Input
+              id="sla-days"
+              type="number"
+              min={0.5}
+              step={0.5}
+              value={days}
+              onChange={(e) => setDays(e.target.value)}
+            />
+          </div>
+          <Button onClick={handleCreate} disabled={!(Number(days) > 0)}>
+            Add Policy
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -9,20 +9,23 @@ import { Button } from "@/components/ui/button";
 import { Copy, CheckCircle2, AlertCircle } from "lucide-react";
 import { useState } from "react";
 import { toast } from "sonner";
+import { TrackingSubscription } from "@/components/TrackingSubscription";
+import type { TrackingCredentials } from "@/lib/tracking";
 
 interface TrackingCodeDialogProps {
   open: boolean;
-  trackingCode: string;
+  credentials: TrackingCredentials;
   onClose: () => void;
 }
 
-export const TrackingCodeDialog = ({ open, trackingCode, onClose }: TrackingCodeDialogProps) => {
+// The secret is only hashed server-side, so this is the one time it is shown
+export const TrackingCodeDialog = ({ open, credentials, onClose }: TrackingCodeDialogProps) => {
   const [copied, setCopied] = useState(false);
 
   const handleCopy = () => {
-    navigator.clipboard.writeText(trackingCode);
+    navigator.clipboard.writeText(`Tracking code: ${credentials.code}\nSecret: ${credentials.secret}`);
     setCopied(true);
-    toast.success("Tracking code copied!");
+    toast.success("Tracking code and secret copied!");
     setTimeout(() => setCopied(false), 2000);
   };
 
@@ -35,25 +38,38 @@ export const TrackingCodeDialog = ({ open, trackingCode, onClose }: TrackingCode
           </div>
           <DialogTitle className="text-center text-2xl">Complaint Submitted Successfully!</DialogTitle>
           <DialogDescription className="text-center">
-            Your anonymous complaint has been recorded. Save this tracking code to check your complaint status.
+            Your anonymous complaint has been recorded. Save the tracking code and secret below to check your complaint
+            status.
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-4">
-          <div className="bg-muted p-6 rounded-lg text-center space-y-2">
-            <p className="text-sm text-muted-foreground font-medium">Your Tracking Code</p>
-            <p className="text-3xl font-bold font-mono tracking-wider text-primary">
-              {trackingCode}
-            </p>
+          <div className="bg-muted p-6 rounded-lg text-center space-y-4">
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground font-medium">Your Tracking Code</p>
+              <p className="text-2xl font-bold font-mono tracking-wider text-primary break-all">
+                {credentials.code}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground font-medium">Your Secret</p>
+              <p className="text-lg font-bold font-mono tracking-wider break-all">
+                {credentials.secret}
+              </p>
+            </div>
           </div>
 
           <div className="flex items-start gap-2 p-3 bg-amber-50 dark:bg-amber-950/20 border border-amber-200 dark:border-amber-900 rounded-lg">
             <AlertCircle className="h-5 w-5 text-amber-600 dark:text-amber-500 flex-shrink-0 mt-0.5" />
             <p className="text-sm text-amber-900 dark:text-amber-200">
-              <strong>Important:</strong> Save this code! You'll need it to track your complaint. We cannot recover this code if lost.
+              <strong>Important:</strong> Save both now! You'll need the code and the secret to track your complaint.
+              The secret is shown only once and cannot be recovered if lost. Keep it private: anyone with both can read
+              your complaint and its messages.
             </p>
           </div>
 
+          <TrackingSubscription credentials={credentials} />
+
           <div className="flex gap-2">
             <Button onClick={handleCopy} className="flex-1" variant={copied ? "secondary" : "default"}>
               {copied ? (
@@ -64,7 +80,7 @@ export const TrackingCodeDialog = ({ open, trackingCode, onClose }: TrackingCode
               ) : (
                 <>
                   <Copy className="h-4 w-4 mr-2" />
-                  Copy Code
+                  Copy Both
                 </>
               )}
             </Button>
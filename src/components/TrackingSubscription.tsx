@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Bell, BellOff, Loader2, Mail } from "lucide-react";
+import { pushSupported, subscribeByEmail, subscribeToPush, unsubscribeAll } from "@/lib/subscriptions";
+import type { TrackingCredentials } from "@/lib/tracking";
+
+interface TrackingSubscriptionProps {
+  credentials: TrackingCredentials;
+}
+
+// Optional alerts for an anonymous complaint, sent to a throwaway email
+// address or this browser instead of polling /verify
+export const TrackingSubscription = ({ credentials }: TrackingSubscriptionProps) => {
+  const [email, setEmail] = useState("");
+  const [busy, setBusy] = useState<"email" | "push" | "unsubscribe" | null>(null);
+
+  const run = async (kind: "email" | "push" | "unsubscribe", action: () => Promise<string>) => {
+    setBusy(kind);
+    try {
+      toast.success(await action());
+    } catch (error) {
+      console.error("Subscription error:", error);
+      toast.error(error instanceof Error ? error.message : "Could not update notifications");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleEmail = () =>
+    run("email", async () => {
+      const pending = await subscribeByEmail(credentials, email.trim());
+      setEmail("");
+      return pending
+        ? "Check your inbox and confirm the address to start getting updates"
+        : "You'll get an email when this complaint changes";
+    });
+
+  const handlePush = () =>
+    run("push", async () => {
+      await subscribeToPush(credentials);
+      return "This browser will notify you when this complaint changes";
+    });
+
+  const handleUnsubscribe = () =>
+    run("unsubscribe", async () => {
+      const removed = await unsubscribeAll(credentials);
+      return removed > 0 ? "Notifications stopped and contacts deleted" : "No notifications were set up";
+    });
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor="subscription-email">Get notified of updates (optional)</Label>
+        <div className="flex gap-2">
+          <Input
+            id="subscription-email"
+            type="email"
+            placeholder="Throwaway email address"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+          <Button variant="outline" onClick={handleEmail} disabled={!email.trim() || busy !== null}>
+            {busy === "email" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Mail className="h-4 w-4" />}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Stored encrypted and never shown to officials. Notifications only say that something changed; details stay
+          behind your tracking code and secret.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {pushSupported() && (
+          <Button variant="outline" size="sm" onClick={handlePush} disabled={busy !== null}>
+            {busy === "push" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Bell className="h-4 w-4 mr-2" />}
+            Notify this browser
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" onClick={handleUnsubscribe} disabled={busy !== null}>
+          {busy === "unsubscribe" ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <BellOff className="h-4 w-4 mr-2" />
+          )}
+          Stop all notifications
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { Loader2, RefreshCw, RotateCcw } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+interface TriageJob {
+  id: string;
+  complaint_id: string;
+  status: string;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  last_status_code: number | null;
+  complaints: { title: string } | null;
+}
+
+const statusColors: Record<string, string> = {
+  pending: "bg-status-pending",
+  processing: "bg-status-in-review",
+  done: "bg-status-resolved",
+  failed: "bg-destructive",
+};
+
+// Automatic AI triage jobs that have not completed, for admins to monitor and retry
+export const TriageQueue = () => {
+  const [jobs, setJobs] = useState<TriageJob[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchJobs = async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("ai_triage_jobs")
+      .select("id, complaint_id, status, attempts, max_attempts, next_attempt_at, last_error, last_status_code, complaints(title)")
+      .neq("status", "done")
+      .order("next_attempt_at", { ascending: true })
+      .limit(50);
+
+    if (error) {
+      console.error("Error fetching triage queue:", error);
+      toast.error("Failed to load AI triage queue");
+    }
+    setJobs(data || []);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchJobs();
+  }, []);
+
+  const handleRetry = async (jobId: string) => {
+    const { error } = await supabase.rpc("retry_ai_triage_job", { _job_id: jobId });
+
+    if (error) {
+      toast.error(error.message || "Failed to retry job");
+      return;
+    }
+
+    toast.success("Job queued for another attempt");
+    fetchJobs();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-base">AI Triage Queue</CardTitle>
+          <CardDescription>Submitted complaints waiting for automatic analysis</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchJobs} disabled={loading}>
+          {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {jobs.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            {loading ? "Loading..." : "All complaints have been triaged"}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Complaint</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Next Attempt</TableHead>
+                <TableHead>Last Error</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobs.map((job) => (
+                <TableRow key={job.id}>
+                  <TableCell className="max-w-[200px] truncate">
+                    {job.complaints?.title ?? job.complaint_id.substring(0, 8)}
+                  </TableCell>
+                  <TableCell>
+                    <Badge className={`${statusColors[job.status] || "bg-muted"} text-white`}>{job.status}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    {job.attempts} / {job.max_attempts}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {job.status === "pending"
+                      ? formatDistanceToNow(new Date(job.next_attempt_at), { addSuffix: true })
+                      : "—"}
+                  </TableCell>
+                  <TableCell className="max-w-[240px] text-xs text-muted-foreground">
+                    {job.last_error
+                      ? `${job.last_status_code ? `${job.last_status_code}: ` : ""}${job.last_error}`
+                      : "—"}
+                  </TableCell>
+                  <TableCell>
+                    {job.status === "failed" && (
+                      <Button variant="ghost" size="sm" onClick={() => handleRetry(job.id)}>
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Retry
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
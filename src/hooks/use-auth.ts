@@ -0,0 +1,26 @@
+import { createContext, useContext } from "react";
+import { Session, User } from "@supabase/supabase-js";
+import { Database } from "@/integrations/supabase/types";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+
+export const OFFICIAL_ROLES: AppRole[] = ["government", "admin"];
+
+export interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  roles: AppRole[];
+  isOfficial: boolean;
+  loading: boolean;
+  hasRole: (role: AppRole) => boolean;
+}
+
+export const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
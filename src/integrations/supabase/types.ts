@@ -14,64 +14,573 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_triage_jobs: {
+        Row: {
+          attempts: number
+          complaint_id: string
+          created_at: string
+          id: string
+          last_error: string | null
+          last_status_code: number | null
+          locked_at: string | null
+          max_attempts: number
+          next_attempt_at: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          complaint_id: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          last_status_code?: number | null
+          locked_at?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          complaint_id?: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          last_status_code?: number | null
+          locked_at?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_triage_jobs_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: true
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      case_complaints: {
+        Row: {
+          added_at: string
+          added_by: string | null
+          case_id: string
+          complaint_id: string
+        }
+        Insert: {
+          added_at?: string
+          added_by?: string | null
+          case_id: string
+          complaint_id: string
+        }
+        Update: {
+          added_at?: string
+          added_by?: string | null
+          case_id?: string
+          complaint_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "case_complaints_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "case_complaints_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      case_notes: {
+        Row: {
+          case_id: string
+          created_at: string
+          id: string
+          note: string
+          official_id: string | null
+        }
+        Insert: {
+          case_id: string
+          created_at?: string
+          id?: string
+          note: string
+          official_id?: string | null
+        }
+        Update: {
+          case_id?: string
+          created_at?: string
+          id?: string
+          note?: string
+          official_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "case_notes_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      case_status_transitions: {
+        Row: {
+          from_status: Database["public"]["Enums"]["case_status"]
+          required_field: string | null
+          to_status: Database["public"]["Enums"]["case_status"]
+        }
+        Insert: {
+          from_status: Database["public"]["Enums"]["case_status"]
+          required_field?: string | null
+          to_status: Database["public"]["Enums"]["case_status"]
+        }
+        Update: {
+          from_status?: Database["public"]["Enums"]["case_status"]
+          required_field?: string | null
+          to_status?: Database["public"]["Enums"]["case_status"]
+        }
+        Relationships: []
+      }
+      cases: {
+        Row: {
+          closure_summary: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          lead_investigator: string | null
+          status: Database["public"]["Enums"]["case_status"]
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          closure_summary?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          lead_investigator?: string | null
+          status?: Database["public"]["Enums"]["case_status"]
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          closure_summary?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          lead_investigator?: string | null
+          status?: Database["public"]["Enums"]["case_status"]
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      complaint_assignments: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          complaint_id: string
+          from_department: string | null
+          from_user: string | null
+          id: string
+          reason: string | null
+          to_department: string | null
+          to_user: string | null
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          complaint_id: string
+          from_department?: string | null
+          from_user?: string | null
+          id?: string
+          reason?: string | null
+          to_department?: string | null
+          to_user?: string | null
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          complaint_id?: string
+          from_department?: string | null
+          from_user?: string | null
+          id?: string
+          reason?: string | null
+          to_department?: string | null
+          to_user?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_assignments_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaint_assignments_from_department_fkey"
+            columns: ["from_department"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaint_assignments_to_department_fkey"
+            columns: ["to_department"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      complaint_embeddings: {
+        Row: {
+          complaint_id: string
+          embedding: string | null
+          embedding_input_hash: string | null
+          embedding_model: string | null
+          terms: unknown
+          updated_at: string
+        }
+        Insert: {
+          complaint_id: string
+          embedding?: string | null
+          embedding_input_hash?: string | null
+          embedding_model?: string | null
+          terms: unknown
+          updated_at?: string
+        }
+        Update: {
+          complaint_id?: string
+          embedding?: string | null
+          embedding_input_hash?: string | null
+          embedding_model?: string | null
+          terms?: unknown
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_embeddings_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: true
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      complaint_escalations: {
+        Row: {
+          complaint_id: string
+          department_id: string | null
+          due_at: string
+          escalated_at: string
+          escalated_to: string | null
+          id: string
+          previous_assignee: string | null
+        }
+        Insert: {
+          complaint_id: string
+          department_id?: string | null
+          due_at: string
+          escalated_at?: string
+          escalated_to?: string | null
+          id?: string
+          previous_assignee?: string | null
+        }
+        Update: {
+          complaint_id?: string
+          department_id?: string | null
+          due_at?: string
+          escalated_at?: string
+          escalated_to?: string | null
+          id?: string
+          previous_assignee?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_escalations_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaint_escalations_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      complaint_links: {
+        Row: {
+          complaint_id: string
+          created_at: string
+          created_by: string | null
+          linked_complaint_id: string
+        }
+        Insert: {
+          complaint_id: string
+          created_at?: string
+          created_by?: string | null
+          linked_complaint_id: string
+        }
+        Update: {
+          complaint_id?: string
+          created_at?: string
+          created_by?: string | null
+          linked_complaint_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_links_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaint_links_linked_complaint_id_fkey"
+            columns: ["linked_complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      complaint_messages: {
+        Row: {
+          body: string
+          complaint_id: string
+          created_at: string
+          id: string
+          is_info_request: boolean
+          sender_id: string | null
+          sender_role: string
+        }
+        Insert: {
+          body: string
+          complaint_id: string
+          created_at?: string
+          id?: string
+          is_info_request?: boolean
+          sender_id?: string | null
+          sender_role: string
+        }
+        Update: {
+          body?: string
+          complaint_id?: string
+          created_at?: string
+          id?: string
+          is_info_request?: boolean
+          sender_id?: string | null
+          sender_role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_messages_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      complaint_status_transitions: {
+        Row: {
+          from_status: Database["public"]["Enums"]["complaint_status"]
+          required_field: string | null
+          to_status: Database["public"]["Enums"]["complaint_status"]
+        }
+        Insert: {
+          from_status: Database["public"]["Enums"]["complaint_status"]
+          required_field?: string | null
+          to_status: Database["public"]["Enums"]["complaint_status"]
+        }
+        Update: {
+          from_status?: Database["public"]["Enums"]["complaint_status"]
+          required_field?: string | null
+          to_status?: Database["public"]["Enums"]["complaint_status"]
+        }
+        Relationships: []
+      }
       complaints: {
         Row: {
           ai_metadata: Json | null
+          assigned_to: string | null
           category: Database["public"]["Enums"]["complaint_category"]
+          closed_at: string | null
           complaint_hash: string | null
           created_at: string | null
+          department_id: string | null
           description: string
+          due_at: string | null
+          duplicate_of: string | null
+          escalated_at: string | null
           evidence_hashes: string[] | null
           id: string
           is_anonymous: boolean | null
+          is_critical: boolean
           latitude: number | null
           location: string | null
           longitude: number | null
+          public_ref: string
+          rejection_reason: string | null
+          resolution_summary: string | null
+          risk_level: string | null
           status: Database["public"]["Enums"]["complaint_status"] | null
+          submitted_at: string | null
           title: string
           tracking_code: string | null
+          tracking_secret_hash: string | null
           updated_at: string | null
+          upload_prefix: string
           urgency_score: number | null
           user_id: string | null
         }
         Insert: {
           ai_metadata?: Json | null
+          assigned_to?: string | null
           category: Database["public"]["Enums"]["complaint_category"]
+          closed_at?: string | null
           complaint_hash?: string | null
           created_at?: string | null
+          department_id?: string | null
           description: string
+          due_at?: string | null
+          duplicate_of?: string | null
+          escalated_at?: string | null
           evidence_hashes?: string[] | null
           id?: string
           is_anonymous?: boolean | null
+          is_critical?: boolean
           latitude?: number | null
           location?: string | null
           longitude?: number | null
+          public_ref?: string
+          rejection_reason?: string | null
+          resolution_summary?: string | null
+          risk_level?: string | null
           status?: Database["public"]["Enums"]["complaint_status"] | null
+          submitted_at?: string | null
           title: string
           tracking_code?: string | null
+          tracking_secret_hash?: string | null
           updated_at?: string | null
+          upload_prefix?: string
           urgency_score?: number | null
           user_id?: string | null
         }
         Update: {
           ai_metadata?: Json | null
+          assigned_to?: string | null
           category?: Database["public"]["Enums"]["complaint_category"]
+          closed_at?: string | null
           complaint_hash?: string | null
           created_at?: string | null
+          department_id?: string | null
           description?: string
+          due_at?: string | null
+          duplicate_of?: string | null
+          escalated_at?: string | null
           evidence_hashes?: string[] | null
           id?: string
           is_anonymous?: boolean | null
+          is_critical?: boolean
           latitude?: number | null
           location?: string | null
           longitude?: number | null
+          public_ref?: string
+          rejection_reason?: string | null
+          resolution_summary?: string | null
+          risk_level?: string | null
           status?: Database["public"]["Enums"]["complaint_status"] | null
+          submitted_at?: string | null
           title?: string
           tracking_code?: string | null
+          tracking_secret_hash?: string | null
           updated_at?: string | null
+          upload_prefix?: string
           urgency_score?: number | null
           user_id?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "complaints_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaints_duplicate_of_fkey"
+            columns: ["duplicate_of"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      department_members: {
+        Row: {
+          added_at: string
+          department_id: string
+          is_supervisor: boolean
+          user_id: string
+        }
+        Insert: {
+          added_at?: string
+          department_id: string
+          is_supervisor?: boolean
+          user_id: string
+        }
+        Update: {
+          added_at?: string
+          department_id?: string
+          is_supervisor?: boolean
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "department_members_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      departments: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+        }
         Relationships: []
       }
       evidence_files: {
@@ -82,8 +591,10 @@ export type Database = {
           file_name: string
           file_size: number | null
           file_type: string
-          file_url: string
           id: string
+          message_id: string | null
+          original_file_hash: string | null
+          storage_path: string
         }
         Insert: {
           complaint_id: string
@@ -92,8 +603,10 @@ export type Database = {
           file_name: string
           file_size?: number | null
           file_type: string
-          file_url: string
           id?: string
+          message_id?: string | null
+          original_file_hash?: string | null
+          storage_path: string
         }
         Update: {
           complaint_id?: string
@@ -102,8 +615,10 @@ export type Database = {
           file_name?: string
           file_size?: number | null
           file_type?: string
-          file_url?: string
           id?: string
+          message_id?: string | null
+          original_file_hash?: string | null
+          storage_path?: string
         }
         Relationships: [
           {
@@ -113,6 +628,13 @@ export type Database = {
             referencedRelation: "complaints"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "evidence_files_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "complaint_messages"
+            referencedColumns: ["id"]
+          },
         ]
       }
       gov_notes: {
@@ -122,6 +644,7 @@ export type Database = {
           id: string
           note: string
           official_id: string | null
+          visibility: string
         }
         Insert: {
           complaint_id: string
@@ -129,6 +652,7 @@ export type Database = {
           id?: string
           note: string
           official_id?: string | null
+          visibility?: string
         }
         Update: {
           complaint_id?: string
@@ -136,6 +660,7 @@ export type Database = {
           id?: string
           note?: string
           official_id?: string | null
+          visibility?: string
         }
         Relationships: [
           {
@@ -147,6 +672,170 @@ export type Database = {
           },
         ]
       }
+      jurisdictions: {
+        Row: {
+          created_at: string
+          id: string
+          location_pattern: string | null
+          max_latitude: number | null
+          max_longitude: number | null
+          min_latitude: number | null
+          min_longitude: number | null
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          location_pattern?: string | null
+          max_latitude?: number | null
+          max_longitude?: number | null
+          min_latitude?: number | null
+          min_longitude?: number | null
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          location_pattern?: string | null
+          max_latitude?: number | null
+          max_longitude?: number | null
+          min_latitude?: number | null
+          min_longitude?: number | null
+          name?: string
+        }
+        Relationships: []
+      }
+      ledger_actors: {
+        Row: {
+          actor_id: string
+          log_id: string
+          recorded_at: string
+        }
+        Insert: {
+          actor_id: string
+          log_id: string
+          recorded_at?: string
+        }
+        Update: {
+          actor_id?: string
+          log_id?: string
+          recorded_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_actors_log_id_fkey"
+            columns: ["log_id"]
+            isOneToOne: true
+            referencedRelation: "public_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_outbox: {
+        Row: {
+          attempts: number
+          channel: string
+          complaint_id: string
+          created_at: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          next_attempt_at: string
+          payload: Json
+          recipient: string | null
+          sent_at: string | null
+          status: string
+          subscription_id: string | null
+          template: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          channel: string
+          complaint_id: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          payload?: Json
+          recipient?: string | null
+          sent_at?: string | null
+          status?: string
+          subscription_id?: string | null
+          template: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          channel?: string
+          complaint_id?: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          payload?: Json
+          recipient?: string | null
+          sent_at?: string | null
+          status?: string
+          subscription_id?: string | null
+          template?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_outbox_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_outbox_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "tracking_subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          citizen_notes: boolean
+          email_enabled: boolean
+          information_requests: boolean
+          sms_enabled: boolean
+          status_changes: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          citizen_notes?: boolean
+          email_enabled?: boolean
+          information_requests?: boolean
+          sms_enabled?: boolean
+          status_changes?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          citizen_notes?: boolean
+          email_enabled?: boolean
+          information_requests?: boolean
+          sms_enabled?: boolean
+          status_changes?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string | null
@@ -177,24 +866,45 @@ export type Database = {
       public_logs: {
         Row: {
           action: string
+          actor_id: string | null
+          actor_role: string | null
           complaint_id: string
+          entry_hash: string
           id: string
           metadata_hash: string
-          timestamp: string | null
+          new_value: string | null
+          old_value: string | null
+          prev_hash: string
+          seq: number
+          timestamp: string
         }
         Insert: {
           action: string
+          actor_id?: string | null
+          actor_role?: string | null
           complaint_id: string
+          entry_hash?: string
           id?: string
           metadata_hash: string
-          timestamp?: string | null
+          new_value?: string | null
+          old_value?: string | null
+          prev_hash?: string
+          seq?: number
+          timestamp?: string
         }
         Update: {
           action?: string
+          actor_id?: string | null
+          actor_role?: string | null
           complaint_id?: string
+          entry_hash?: string
           id?: string
           metadata_hash?: string
-          timestamp?: string | null
+          new_value?: string | null
+          old_value?: string | null
+          prev_hash?: string
+          seq?: number
+          timestamp?: string
         }
         Relationships: [
           {
@@ -206,6 +916,182 @@ export type Database = {
           },
         ]
       }
+      reply_uploads: {
+        Row: {
+          complaint_id: string
+          created_at: string
+          file_hashes: string[]
+          folder: string
+          id: string
+          message_id: string | null
+        }
+        Insert: {
+          complaint_id: string
+          created_at?: string
+          file_hashes: string[]
+          folder?: string
+          id?: string
+          message_id?: string | null
+        }
+        Update: {
+          complaint_id?: string
+          created_at?: string
+          file_hashes?: string[]
+          folder?: string
+          id?: string
+          message_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reply_uploads_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reply_uploads_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "complaint_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      routing_rules: {
+        Row: {
+          auto_assign: boolean
+          category: Database["public"]["Enums"]["complaint_category"] | null
+          created_at: string
+          department_id: string
+          id: string
+          jurisdiction_id: string | null
+          priority: number
+        }
+        Insert: {
+          auto_assign?: boolean
+          category?: Database["public"]["Enums"]["complaint_category"] | null
+          created_at?: string
+          department_id: string
+          id?: string
+          jurisdiction_id?: string | null
+          priority?: number
+        }
+        Update: {
+          auto_assign?: boolean
+          category?: Database["public"]["Enums"]["complaint_category"] | null
+          created_at?: string
+          department_id?: string
+          id?: string
+          jurisdiction_id?: string | null
+          priority?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "routing_rules_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "routing_rules_jurisdiction_id_fkey"
+            columns: ["jurisdiction_id"]
+            isOneToOne: false
+            referencedRelation: "jurisdictions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sla_policies: {
+        Row: {
+          category: Database["public"]["Enums"]["complaint_category"] | null
+          created_at: string
+          id: string
+          min_urgency: number
+          resolution_hours: number
+        }
+        Insert: {
+          category?: Database["public"]["Enums"]["complaint_category"] | null
+          created_at?: string
+          id?: string
+          min_urgency?: number
+          resolution_hours: number
+        }
+        Update: {
+          category?: Database["public"]["Enums"]["complaint_category"] | null
+          created_at?: string
+          id?: string
+          min_urgency?: number
+          resolution_hours?: number
+        }
+        Relationships: []
+      }
+      tracking_lookup_failures: {
+        Row: {
+          client_hash: string | null
+          failed_at: string
+          id: string
+          tracking_code: string
+        }
+        Insert: {
+          client_hash?: string | null
+          failed_at?: string
+          id?: string
+          tracking_code: string
+        }
+        Update: {
+          client_hash?: string | null
+          failed_at?: string
+          id?: string
+          tracking_code?: string
+        }
+        Relationships: []
+      }
+      tracking_subscriptions: {
+        Row: {
+          channel: string
+          complaint_id: string
+          confirm_token_hash: string | null
+          confirmed_at: string | null
+          contact_ciphertext: string
+          contact_hash: string | null
+          created_at: string
+          id: string
+          unsubscribe_token_hash: string
+        }
+        Insert: {
+          channel: string
+          complaint_id: string
+          confirm_token_hash?: string | null
+          confirmed_at?: string | null
+          contact_ciphertext: string
+          contact_hash?: string | null
+          created_at?: string
+          id?: string
+          unsubscribe_token_hash: string
+        }
+        Update: {
+          channel?: string
+          complaint_id?: string
+          confirm_token_hash?: string | null
+          confirmed_at?: string | null
+          contact_ciphertext?: string
+          contact_hash?: string | null
+          created_at?: string
+          id?: string
+          unsubscribe_token_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tracking_subscriptions_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string | null
@@ -229,10 +1115,89 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      transparency_complaints: {
+        Row: {
+          approx_latitude: number | null
+          approx_longitude: number | null
+          category: Database["public"]["Enums"]["complaint_category"] | null
+          ref: string | null
+          reported_on: string | null
+          status: Database["public"]["Enums"]["complaint_status"] | null
+          updated_on: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      accepts_evidence: {
+        Args: {
+          _complaint_id: string
+          _file_hash: string
+          _storage_path: string
+        }
+        Returns: boolean
+      }
+      accepts_evidence_upload: { Args: { _name: string }; Returns: boolean }
+      accepts_reply_upload: { Args: { _name: string }; Returns: boolean }
+      assign_complaint: {
+        Args: {
+          _assignee: string
+          _complaint_id: string
+          _department_id: string
+          _reason?: string
+        }
+        Returns: undefined
+      }
+      complaint_content_hash: {
+        Args: {
+          _category: Database["public"]["Enums"]["complaint_category"]
+          _created_at: string
+          _description: string
+          _evidence_hashes: string[]
+          _latitude: number
+          _location: string
+          _longitude: number
+          _title: string
+        }
+        Returns: string
+      }
+      change_hash: { Args: { _new: Json; _old: Json }; Returns: string }
+      complaint_ledger: {
+        Args: { _complaint_id: string }
+        Returns: {
+          action: string
+          actor_id: string | null
+          actor_role: string | null
+          complaint_id: string
+          entry_hash: string
+          id: string
+          metadata_hash: string
+          new_value: string | null
+          old_value: string | null
+          prev_hash: string
+          seq: number
+          timestamp: string
+        }[]
+      }
+      complaint_terms: {
+        Args: { _description: string; _location: string; _title: string }
+        Returns: unknown
+      }
+      current_actor_role: { Args: never; Returns: string }
+      escalate_overdue_complaints: {
+        Args: { _limit?: number }
+        Returns: {
+          escalated_complaint_id: string
+          overdue_since: string
+          supervisor_id: string
+        }[]
+      }
+      finalize_complaint: {
+        Args: { _complaint_id: string }
+        Returns: string
+      }
       generate_tracking_code: { Args: never; Returns: string }
+      generate_tracking_secret: { Args: never; Returns: string }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -240,9 +1205,193 @@ export type Database = {
         }
         Returns: boolean
       }
+      hash_tracking_secret: { Args: { _secret: string }; Returns: string }
+      in_jurisdiction: {
+        Args: {
+          _jurisdiction_id: string
+          _latitude: number
+          _location: string
+          _longitude: number
+        }
+        Returns: boolean
+      }
+      is_department_supervisor: {
+        Args: { _department_id: string; _user_id: string }
+        Returns: boolean
+      }
+      least_loaded_member: {
+        Args: { _department_id: string }
+        Returns: string
+      }
+      ledger_entry_hash: {
+        Args: {
+          _action: string
+          _actor_id: string
+          _actor_role: string
+          _complaint_id: string
+          _metadata_hash: string
+          _new_value: string
+          _old_value: string
+          _prev_hash: string
+          _timestamp: string
+        }
+        Returns: string
+      }
+      link_complaints: {
+        Args: { _complaint_id: string; _other_id: string }
+        Returns: undefined
+      }
+      list_officials: {
+        Args: never
+        Returns: {
+          email: string
+          name: string
+          user_id: string
+        }[]
+      }
+      merge_duplicate_complaint: {
+        Args: { _duplicate_id: string; _primary_id: string }
+        Returns: undefined
+      }
+      post_reporter_message: {
+        Args: {
+          _attachments?: Json
+          _body: string
+          _complaint_id: string
+          _upload_id?: string
+        }
+        Returns: string
+      }
+      random_base32: { Args: { _length: number }; Returns: string }
+      record_ai_analysis: {
+        Args: {
+          _analysis: Json
+          _complaint_id: string
+          _input_hash: string
+          _model: string
+          _prompt_version: string
+        }
+        Returns: Json
+      }
+      record_ai_analysis_failure: {
+        Args: {
+          _complaint_id: string
+          _error: string
+          _model: string
+          _prompt_version: string
+        }
+        Returns: Json
+      }
+      record_evidence_views: {
+        Args: { _evidence_ids: string[] }
+        Returns: undefined
+      }
+      related_complaints: {
+        Args: { _complaint_id: string; _limit?: number }
+        Returns: {
+          linked: boolean
+          method: string
+          related_category: Database["public"]["Enums"]["complaint_category"]
+          related_complaint_id: string
+          related_created_at: string
+          related_duplicate_of: string
+          related_location: string
+          related_status: Database["public"]["Enums"]["complaint_status"]
+          related_title: string
+          similarity: number
+        }[]
+      }
+      request_client_hash: { Args: never; Returns: string }
+      retry_ai_triage_job: { Args: { _job_id: string }; Returns: undefined }
+      set_urgency_override: {
+        Args: { _complaint_id: string; _score?: number }
+        Returns: Json
+      }
+      shared_evidence: {
+        Args: { _complaint_id?: string }
+        Returns: {
+          complaint_id: string
+          file_hash: string
+          file_name: string
+          related_complaint_id: string
+          related_created_at: string
+          related_file_name: string
+          related_status: Database["public"]["Enums"]["complaint_status"]
+          related_title: string
+        }[]
+      }
+      sla_due_at: {
+        Args: {
+          _category: Database["public"]["Enums"]["complaint_category"]
+          _submitted_at: string
+          _urgency: number
+        }
+        Returns: string
+      }
+      start_reply_upload: {
+        Args: { _complaint_id: string; _file_hashes: string[] }
+        Returns: {
+          folder: string
+          id: string
+        }[]
+      }
+      store_complaint_embedding: {
+        Args: {
+          _complaint_id: string
+          _embedding: string
+          _input_hash: string
+          _model: string
+        }
+        Returns: undefined
+      }
+      submit_anonymous_complaint: {
+        Args: {
+          _category: Database["public"]["Enums"]["complaint_category"]
+          _description: string
+          _evidence_hashes: string[]
+          _latitude: number
+          _location: string
+          _longitude: number
+          _title: string
+        }
+        Returns: {
+          id: string
+          tracking_code: string
+          tracking_secret: string
+          upload_prefix: string
+        }[]
+      }
+      unlink_complaints: {
+        Args: { _complaint_id: string; _other_id: string }
+        Returns: undefined
+      }
+      unmerge_duplicate_complaint: {
+        Args: { _duplicate_id: string }
+        Returns: undefined
+      }
+      verify_complaint: {
+        Args: {
+          _complaint_id?: string
+          _tracking_code?: string
+          _tracking_secret?: string
+        }
+        Returns: {
+          category: Database["public"]["Enums"]["complaint_category"]
+          complaint_hash: string
+          created_at: string
+          evidence_hashes: string[]
+          id: string
+          latitude: number
+          location: string
+          longitude: number
+          status: Database["public"]["Enums"]["complaint_status"]
+          title: string
+        }[]
+      }
     }
     Enums: {
       app_role: "citizen" | "government" | "admin"
+      case_status: "open" | "investigating" | "referred" | "closed"
       complaint_category:
         | "bribery"
         | "misconduct"
@@ -384,6 +1533,7 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["citizen", "government", "admin"],
+      case_status: ["open", "investigating", "referred", "closed"],
       complaint_category: [
         "bribery",
         "misconduct",
@@ -0,0 +1,61 @@
+import { Json } from "@/integrations/supabase/types";
+import type { ComplaintAnalysis } from "../../supabase/functions/_shared/ai-schemas.ts";
+
+export type { ComplaintAnalysis, StatusSuggestion } from "../../supabase/functions/_shared/ai-schemas.ts";
+export { complaintAnalysisSchema, statusSuggestionSchema } from "../../supabase/functions/_shared/ai-schemas.ts";
+
+// Shapes stored in complaints.ai_metadata by record_ai_analysis(),
+// record_ai_analysis_failure() and set_urgency_override()
+export interface StoredAnalysis {
+  analysis: ComplaintAnalysis;
+  model: string;
+  prompt_version: string;
+  input_hash: string;
+  analyzed_at: string;
+  analyzed_by: string | null;
+}
+
+export interface UrgencyOverride {
+  score: number;
+  set_by: string | null;
+  set_at: string;
+}
+
+// Set when the model's output failed validation even after repair
+export interface AnalysisFailure {
+  error: string;
+  model: string;
+  prompt_version: string;
+  failed_at: string;
+}
+
+export interface AiMetadata {
+  latest?: StoredAnalysis;
+  // Earlier analyses, newest first
+  history?: StoredAnalysis[];
+  urgency_override?: UrgencyOverride;
+  last_failure?: AnalysisFailure;
+}
+
+// Whether the most recent analysis attempt failed
+export const analysisFailed = (metadata: AiMetadata) =>
+  !!metadata.last_failure &&
+  (!metadata.latest || new Date(metadata.last_failure.failed_at) > new Date(metadata.latest.analyzed_at));
+
+export const readAiMetadata = (value: Json | null | undefined): AiMetadata =>
+  value && typeof value === "object" && !Array.isArray(value) ? (value as unknown as AiMetadata) : {};
+
+// Readable names for the injection_flags set by detectInjection()
+const injectionFlagLabels: Record<string, string> = {
+  override_instructions: "asks to ignore instructions",
+  role_change: "tries to change the assistant's role",
+  prompt_disclosure: "asks for the system prompt",
+  score_manipulation: "dictates an urgency or risk score",
+  output_fields: "contains fake output fields",
+  chat_markup: "contains chat markup",
+  delimiter_spoofing: "imitates the data delimiters",
+  jailbreak: "uses jailbreak phrasing",
+};
+
+export const describeInjectionFlags = (flags: string[]) =>
+  flags.map((flag) => injectionFlagLabels[flag] ?? flag).join(", ");
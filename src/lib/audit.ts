@@ -0,0 +1,11 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Evidence reads are invisible to database triggers, so officials record them in the ledger
+export const recordEvidenceViews = async (evidenceIds: string[]) => {
+  if (evidenceIds.length === 0) return;
+
+  const { error } = await supabase.rpc("record_evidence_views", { _evidence_ids: evidenceIds });
+  if (error) {
+    console.error("Error recording evidence access:", error);
+  }
+};
@@ -0,0 +1,36 @@
+import { Constants, Database } from "@/integrations/supabase/types";
+
+// Allowed case status changes live in case_status_transitions and are enforced
+// by a database trigger, as for complaints
+export type CaseStatus = Database["public"]["Enums"]["case_status"];
+
+export interface CaseStatusTransition {
+  from_status: CaseStatus;
+  to_status: CaseStatus;
+  required_field: string | null;
+}
+
+export const CASE_STATUSES = Constants.public.Enums.case_status;
+
+export const caseStatusLabels: Record<CaseStatus, string> = {
+  open: "Open",
+  investigating: "Investigating",
+  referred: "Referred",
+  closed: "Closed",
+};
+
+export const caseStatusColors: Record<CaseStatus, string> = {
+  open: "bg-status-pending",
+  investigating: "bg-status-in-review",
+  referred: "bg-status-verified",
+  closed: "bg-status-resolved",
+};
+
+export interface Official {
+  user_id: string;
+  name: string | null;
+  email: string | null;
+}
+
+export const officialName = (official: Official | undefined) =>
+  official ? official.name || official.email || "Unnamed official" : "Unassigned";
@@ -0,0 +1,35 @@
+import { sha256Hex } from "@/lib/hash";
+
+// Mirrors public.complaint_content_hash() in the database. Each field is hashed
+// on its own and the digests are joined, so no escaping rules are involved.
+const COMPLAINT_HASH_VERSION = "cw-complaint-v1";
+
+export interface ComplaintHashInput {
+  title: string;
+  description: string;
+  category: string;
+  location: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  evidence_hashes: string[] | null;
+  created_at: string;
+}
+
+const formatCoordinate = (value: number | null) =>
+  value === null || value === undefined ? "" : Number(value).toFixed(8);
+
+export async function computeComplaintHash(input: ComplaintHashInput): Promise<string> {
+  const fields = [
+    input.title,
+    input.description,
+    input.category,
+    input.location ?? "",
+    formatCoordinate(input.latitude),
+    formatCoordinate(input.longitude),
+    (input.evidence_hashes ?? []).join(","),
+    new Date(input.created_at).getTime().toString(),
+  ];
+
+  const fieldHashes = await Promise.all(fields.map((field) => sha256Hex(field)));
+  return sha256Hex([COMPLAINT_HASH_VERSION, ...fieldHashes].join("|"));
+}
@@ -0,0 +1,66 @@
+import { Constants, Database } from "@/integrations/supabase/types";
+
+// Allowed transitions live in the complaint_status_transitions table, which the
+// database trigger enforces. These helpers only interpret rows fetched from it.
+export type ComplaintStatus = Database["public"]["Enums"]["complaint_status"];
+
+export type TransitionField = "rejection_reason" | "resolution_summary";
+
+export interface StatusTransition {
+  from_status: ComplaintStatus;
+  to_status: ComplaintStatus;
+  required_field: string | null;
+}
+
+export interface StatusOption {
+  status: ComplaintStatus;
+  allowed: boolean;
+  reason?: string;
+  requiredField?: TransitionField;
+}
+
+export const COMPLAINT_STATUSES = Constants.public.Enums.complaint_status;
+
+export const statusLabels: Record<ComplaintStatus, string> = {
+  pending: "Pending",
+  in_review: "In Review",
+  verified: "Verified",
+  resolved: "Resolved",
+  rejected: "Rejected",
+};
+
+export const transitionFieldLabels: Record<TransitionField, string> = {
+  rejection_reason: "Rejection reason",
+  resolution_summary: "Resolution summary",
+};
+
+// Every status with whether it can be reached from `current`, and why not
+export function getStatusOptions(transitions: StatusTransition[], current: ComplaintStatus): StatusOption[] {
+  const outgoing = transitions.filter((t) => t.from_status === current);
+
+  return COMPLAINT_STATUSES.map((status) => {
+    if (status === current) {
+      return { status, allowed: true };
+    }
+
+    const transition = outgoing.find((t) => t.to_status === status);
+    if (transition) {
+      return {
+        status,
+        allowed: true,
+        requiredField: (transition.required_field as TransitionField) || undefined,
+      };
+    }
+
+    if (outgoing.length === 0) {
+      return { status, allowed: false, reason: `${statusLabels[current]} is a final status` };
+    }
+
+    const sources = transitions.filter((t) => t.to_status === status).map((t) => statusLabels[t.from_status]);
+    return {
+      status,
+      allowed: false,
+      reason: sources.length > 0 ? `Only from ${sources.join(" or ")}` : "Cannot be set manually",
+    };
+  });
+}
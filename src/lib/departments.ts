@@ -0,0 +1,20 @@
+import { Database } from "@/integrations/supabase/types";
+
+export type Department = Database["public"]["Tables"]["departments"]["Row"];
+export type DepartmentMember = Database["public"]["Tables"]["department_members"]["Row"];
+export type Jurisdiction = Database["public"]["Tables"]["jurisdictions"]["Row"];
+export type RoutingRule = Database["public"]["Tables"]["routing_rules"]["Row"];
+export type AssignmentChange = Database["public"]["Tables"]["complaint_assignments"]["Row"];
+
+// Which complaints the Gov Portal list shows
+export type QueueView = "all" | "mine" | "my_departments" | "unassigned";
+
+export const queueViewLabels: Record<QueueView, string> = {
+  all: "All Complaints",
+  mine: "My Queue",
+  my_departments: "My Departments",
+  unassigned: "Unassigned",
+};
+
+export const departmentName = (departments: Department[], id: string | null) =>
+  departments.find((d) => d.id === id)?.name ?? "No department";
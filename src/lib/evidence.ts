@@ -0,0 +1,32 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const EVIDENCE_BUCKET = "evidence";
+
+// Signed URLs are created each time evidence is shown and expire soon after
+export const EVIDENCE_URL_TTL_SECONDS = 300;
+
+export interface StoredEvidence {
+  id: string;
+  storage_path: string;
+}
+
+// Signed URLs keyed by evidence id. Storage policies decide who may sign:
+// the uploader for their own folder and officials for everything.
+export const signEvidenceUrls = async (files: StoredEvidence[]): Promise<Record<string, string>> => {
+  if (files.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(EVIDENCE_BUCKET)
+    .createSignedUrls(files.map((file) => file.storage_path), EVIDENCE_URL_TTL_SECONDS);
+
+  if (error) {
+    console.error("Error signing evidence URLs:", error);
+    return {};
+  }
+
+  return files.reduce((acc, file, idx) => {
+    const signedUrl = data[idx]?.signedUrl;
+    if (signedUrl) acc[file.id] = signedUrl;
+    return acc;
+  }, {} as Record<string, string>);
+};
@@ -0,0 +1,93 @@
+import { sha256Hex } from "@/lib/hash";
+
+// Mirrors public.ledger_entry_hash() in the database. Any change here must be
+// made there too, or every existing entry will fail verification.
+export const GENESIS_HASH = "0".repeat(64);
+
+export interface LedgerEntry {
+  id: string;
+  seq: number;
+  complaint_id: string;
+  action: string;
+  metadata_hash: string;
+  prev_hash: string;
+  entry_hash: string;
+  timestamp: string;
+  actor_role: string | null;
+  // Only on entries written before officials were kept out of the ledger
+  actor_id: string | null;
+  old_value: string | null;
+  new_value: string | null;
+}
+
+export const ledgerActionLabels: Record<string, string> = {
+  complaint_created: "Complaint submitted",
+  evidence_added: "Evidence added",
+  evidence_viewed: "Evidence viewed",
+  status_changed: "Status changed",
+  urgency_changed: "Urgency changed",
+  complaint_assigned: "Assignment changed",
+  department_changed: "Routed to a department",
+  sla_escalated: "Escalated after missing its deadline",
+  note_added: "Official note added",
+  official_messaged: "Officials messaged the reporter",
+  information_requested: "Officials requested more information",
+  reporter_replied: "Reporter replied",
+  ai_analyzed: "AI analysis recorded",
+  complaint_linked: "Linked to a related complaint",
+  complaint_unlinked: "Unlinked from a related complaint",
+  duplicate_merged: "Duplicate report merged",
+  duplicate_unmerged: "Duplicate report unmerged",
+  added_to_case: "Added to an investigation case",
+  removed_from_case: "Removed from an investigation case",
+};
+
+export interface VerifiedLedgerEntry extends LedgerEntry {
+  linked: boolean;
+  hashValid: boolean;
+}
+
+export interface LedgerVerification {
+  valid: boolean;
+  entries: VerifiedLedgerEntry[];
+}
+
+export const computeEntryHash = (entry: Omit<LedgerEntry, "id" | "seq" | "entry_hash">) => {
+  const fields = [
+    entry.prev_hash,
+    entry.complaint_id,
+    entry.action,
+    entry.metadata_hash,
+    new Date(entry.timestamp).getTime().toString(),
+  ];
+
+  // Entries written before actor tracking use the original five-field form
+  if (entry.actor_role) {
+    fields.push(entry.actor_role, entry.actor_id ?? "", entry.old_value ?? "", entry.new_value ?? "");
+  }
+
+  return sha256Hex(fields.join("|"));
+};
+
+// Walk a complaint's ledger in order, checking that every entry points at the
+// previous one and that its stored hash matches its content
+export async function verifyLedger(entries: LedgerEntry[]): Promise<LedgerVerification> {
+  const ordered = [...entries].sort((a, b) => a.seq - b.seq);
+  const verified: VerifiedLedgerEntry[] = [];
+  let expectedPrev = GENESIS_HASH;
+
+  for (const entry of ordered) {
+    const recomputed = await computeEntryHash(entry);
+    verified.push({
+      ...entry,
+      linked: entry.prev_hash === expectedPrev,
+      hashValid: recomputed === entry.entry_hash,
+    });
+    expectedPrev = entry.entry_hash;
+  }
+
+  return {
+    valid: verified.every((e) => e.linked && e.hashValid),
+    entries: verified,
+  };
+}
@@ -0,0 +1,85 @@
+import { sha256Hex } from "@/lib/hash";
+import { sanitizeFile } from "@/lib/sanitize";
+import { uploadResumable } from "@/lib/upload";
+
+export type MessageSender = "official" | "reporter";
+
+export interface MessageAttachment {
+  id: string;
+  file_name: string;
+  signed_url?: string | null;
+}
+
+// One entry of a complaint's conversation, as shown to either side
+export interface ThreadMessage {
+  id: string;
+  sender_role: MessageSender;
+  body: string;
+  is_info_request: boolean;
+  created_at: string;
+  attachments: MessageAttachment[];
+}
+
+// Shape post_reporter_message() expects for each attachment; a type alias so
+// it can be passed as Json
+export type AttachmentRecord = {
+  file_hash: string;
+  file_name: string;
+  file_type: string;
+  file_size: number;
+  original_file_hash: string | null;
+};
+
+// Folder opened by start_reply_upload() for the attachments of one reply
+export interface ReplyUpload {
+  id: string;
+  folder: string;
+}
+
+// Reply attachments, like submission evidence, are cleaned of metadata and
+// stored content-addressed under <folder>/<hash>. The folder is opened for
+// this reply only, once the hashes are known, so a reply can carry nothing
+// its sender did not upload.
+export async function uploadMessageAttachments(
+  files: File[],
+  openUpload: (fileHashes: string[]) => Promise<ReplyUpload>,
+): Promise<{ attachments: AttachmentRecord[]; uploadId?: string }> {
+  const prepared: { file: File; record: AttachmentRecord }[] = [];
+
+  for (const picked of files) {
+    const { file, original } = await sanitizeFile(picked);
+    const hash = await sha256Hex(await file.arrayBuffer());
+    const originalHash = file === original ? null : await sha256Hex(await original.arrayBuffer());
+
+    prepared.push({
+      file,
+      record: {
+        file_hash: hash,
+        file_name: file.name,
+        file_type: file.type,
+        file_size: file.size,
+        original_file_hash: originalHash,
+      },
+    });
+  }
+
+  if (prepared.length === 0) return { attachments: [] };
+
+  const upload = await openUpload(prepared.map(({ record }) => record.file_hash));
+  for (const { file, record } of prepared) {
+    await uploadResumable({ path: `${upload.folder}/${record.file_hash}`, file, uploaded: 0 }, () => {});
+  }
+
+  return { attachments: prepared.map(({ record }) => record), uploadId: upload.id };
+}
+
+// The newest information request the reporter has not answered yet
+export const openInfoRequest = (messages: ThreadMessage[]) => {
+  const sorted = [...messages].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  let open: ThreadMessage | null = null;
+  for (const message of sorted) {
+    if (message.is_info_request) open = message;
+    else if (message.sender_role === "reporter") open = null;
+  }
+  return open;
+};
@@ -0,0 +1,356 @@
+// Client-side removal of identifying metadata from evidence files.
+// Files are cleaned before they are hashed or uploaded, so the stored copy and
+// its recorded hash never contain GPS positions, device serials or author names.
+
+export interface SanitizedFile {
+  // Copy with metadata removed; the original when nothing was found or supported
+  file: File;
+  original: File;
+  // Human-readable description of each removed item
+  removed: string[];
+  // False when metadata may remain: types we cannot inspect (HEIC, TIFF,
+  // video, audio, ...) and PDFs with compressed sections
+  supported: boolean;
+}
+
+// Decoded in one call; spreading a large segment into String.fromCharCode
+// overflows the stack
+const latin1 = new TextDecoder("latin1");
+const ascii = (bytes: Uint8Array) => latin1.decode(bytes);
+
+const startsWith = (data: Uint8Array, prefix: string, offset = 0) => {
+  if (offset + prefix.length > data.length) return false;
+  for (let i = 0; i < prefix.length; i++) {
+    if (data[offset + i] !== prefix.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+const indexOf = (data: Uint8Array, needle: string, from = 0) => {
+  const first = needle.charCodeAt(0);
+  for (let i = from; i <= data.length - needle.length; i++) {
+    if (data[i] === first && startsWith(data, needle, i)) return i;
+  }
+  return -1;
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// --- EXIF ------------------------------------------------------------------
+
+const EXIF_TEXT_TAGS: Record<number, string> = {
+  0x010f: "Camera make",
+  0x0110: "Camera model",
+  0x0131: "Software",
+  0x0132: "Modified date",
+  0x013b: "Artist",
+  0x8298: "Copyright",
+  0x9003: "Date taken",
+  0xa430: "Camera owner",
+  0xa431: "Camera serial number",
+  0xa435: "Lens serial number",
+};
+
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+
+// Describes what a TIFF-structured EXIF block reveals, for the removal preview
+function describeExif(tiff: Uint8Array): string[] {
+  try {
+    const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+    const little = startsWith(tiff, "II");
+    const u16 = (at: number) => view.getUint16(at, little);
+    const u32 = (at: number) => view.getUint32(at, little);
+
+    const readEntries = (ifd: number) => {
+      const count = u16(ifd);
+      return Array.from({ length: count }, (_, i) => {
+        const entry = ifd + 2 + i * 12;
+        const size = u32(entry + 4);
+        return {
+          tag: u16(entry),
+          type: u16(entry + 2),
+          count: size,
+          valueOffset: entry + 8,
+          pointer: u32(entry + 8),
+        };
+      });
+    };
+
+    const readAscii = (entry: ReturnType<typeof readEntries>[number]) => {
+      const start = entry.count <= 4 ? entry.valueOffset : entry.pointer;
+      return ascii(tiff.subarray(start, start + entry.count)).replace(/\0+$/, "").trim();
+    };
+
+    const readRationals = (entry: ReturnType<typeof readEntries>[number]) =>
+      Array.from({ length: entry.count }, (_, i) => {
+        const at = entry.pointer + i * 8;
+        return u32(at) / (u32(at + 4) || 1);
+      });
+
+    const found: string[] = [];
+    const visit = (ifd: number) => {
+      for (const entry of readEntries(ifd)) {
+        if (entry.tag === EXIF_IFD_POINTER) {
+          visit(entry.pointer);
+        } else if (entry.tag === GPS_IFD_POINTER) {
+          found.push(describeGps(readEntries(entry.pointer), readAscii, readRationals));
+        } else if (EXIF_TEXT_TAGS[entry.tag] && entry.type === 2) {
+          const value = readAscii(entry);
+          if (value) found.push(`${EXIF_TEXT_TAGS[entry.tag]}: ${value}`);
+        }
+      }
+    };
+    visit(u32(4));
+
+    return found.length > 0 ? found : ["EXIF metadata"];
+  } catch {
+    return ["EXIF metadata"];
+  }
+}
+
+function describeGps<E extends { tag: number }>(
+  entries: E[],
+  readAscii: (entry: E) => string,
+  readRationals: (entry: E) => number[]
+): string {
+  const byTag = (tag: number) => entries.find((entry) => entry.tag === tag);
+  const coordinate = (refTag: number, valueTag: number) => {
+    const ref = byTag(refTag);
+    const value = byTag(valueTag);
+    if (!ref || !value) return null;
+    const [degrees, minutes, seconds] = readRationals(value);
+    const decimal = degrees + (minutes || 0) / 60 + (seconds || 0) / 3600;
+    return (["S", "W"].includes(readAscii(ref)) ? -decimal : decimal).toFixed(5);
+  };
+
+  const latitude = coordinate(1, 2);
+  const longitude = coordinate(3, 4);
+  return latitude && longitude ? `GPS location: ${latitude}, ${longitude}` : "GPS location";
+}
+
+// --- Images ----------------------------------------------------------------
+
+const XMP_NAMESPACE = "http://ns.adobe.com/xap/1.0/";
+
+function sanitizeJpeg(data: Uint8Array, removed: string[]): Uint8Array {
+  const parts: Uint8Array[] = [data.subarray(0, 2)];
+  let pos = 2;
+
+  while (pos + 4 <= data.length && data[pos] === 0xff) {
+    const marker = data[pos + 1];
+
+    // Start of scan: everything after it is compressed image data
+    if (marker === 0xda) break;
+    // Padding and markers without a length
+    if (marker === 0xff) {
+      pos += 1;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      parts.push(data.subarray(pos, pos + 2));
+      pos += 2;
+      continue;
+    }
+
+    const end = pos + 2 + ((data[pos + 2] << 8) | data[pos + 3]);
+    const payload = data.subarray(pos + 4, end);
+
+    if (marker === 0xe1 && startsWith(payload, "Exif\0\0")) {
+      removed.push(...describeExif(payload.subarray(6)));
+    } else if (marker === 0xe1 && startsWith(payload, XMP_NAMESPACE)) {
+      removed.push("XMP metadata");
+    } else if (marker === 0xe1) {
+      removed.push("Extended metadata");
+    } else if (marker === 0xed) {
+      removed.push("IPTC / Photoshop metadata");
+    } else if (marker === 0xfe) {
+      removed.push(`Comment: ${ascii(payload).trim()}`);
+    } else {
+      parts.push(data.subarray(pos, end));
+    }
+    pos = end;
+  }
+
+  parts.push(data.subarray(pos));
+  return concat(parts);
+}
+
+const PNG_METADATA_CHUNKS = ["tEXt", "zTXt", "iTXt", "eXIf", "tIME"];
+
+function sanitizePng(data: Uint8Array, removed: string[]): Uint8Array {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const parts: Uint8Array[] = [data.subarray(0, 8)];
+  let pos = 8;
+
+  while (pos + 12 <= data.length) {
+    const length = view.getUint32(pos);
+    const type = ascii(data.subarray(pos + 4, pos + 8));
+    const end = pos + 12 + length;
+    const chunk = data.subarray(pos + 8, pos + 8 + length);
+
+    if (!PNG_METADATA_CHUNKS.includes(type)) {
+      parts.push(data.subarray(pos, end));
+    } else if (type === "eXIf") {
+      removed.push(...describeExif(chunk));
+    } else if (type === "tIME") {
+      removed.push("Modification time");
+    } else {
+      const keyword = ascii(chunk.subarray(0, Math.max(chunk.indexOf(0), 0)));
+      removed.push(keyword === "XML:com.adobe.xmp" ? "XMP metadata" : `Text: ${keyword || type}`);
+    }
+    pos = end;
+  }
+
+  return concat(parts);
+}
+
+// VP8X feature flags announcing EXIF and XMP chunks
+const WEBP_EXIF_FLAG = 0x08;
+const WEBP_XMP_FLAG = 0x04;
+
+function sanitizeWebp(data: Uint8Array, removed: string[]): Uint8Array {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const parts: Uint8Array[] = [];
+  let pos = 12;
+
+  while (pos + 8 <= data.length) {
+    const type = ascii(data.subarray(pos, pos + 4));
+    const size = view.getUint32(pos + 4, true);
+    const end = Math.min(pos + 8 + size + (size % 2), data.length);
+    const chunk = data.subarray(pos + 8, pos + 8 + size);
+
+    if (type === "EXIF") {
+      removed.push(...describeExif(startsWith(chunk, "Exif\0\0") ? chunk.subarray(6) : chunk));
+    } else if (type === "XMP ") {
+      removed.push("XMP metadata");
+    } else if (type === "VP8X") {
+      const copy = data.slice(pos, end);
+      copy[8] &= ~(WEBP_EXIF_FLAG | WEBP_XMP_FLAG);
+      parts.push(copy);
+    } else {
+      parts.push(data.subarray(pos, end));
+    }
+    pos = end;
+  }
+
+  const body = concat(parts);
+  const header = data.slice(0, 12);
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  return concat([header, body]);
+}
+
+// --- PDF -------------------------------------------------------------------
+
+const PDF_INFO_KEYS = ["Author", "Creator", "Producer", "Title", "Subject", "Keywords"];
+
+const isPdfWhitespace = (byte: number) => [0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20].includes(byte);
+
+// End (exclusive) of a literal string starting at `start`, which holds "("
+function literalStringEnd(data: Uint8Array, start: number) {
+  let depth = 0;
+  for (let i = start; i < data.length; i++) {
+    if (data[i] === 0x5c) {
+      i++;
+    } else if (data[i] === 0x28) {
+      depth++;
+    } else if (data[i] === 0x29 && --depth === 0) {
+      return i + 1;
+    }
+  }
+  return -1;
+}
+
+function decodePdfString(raw: Uint8Array) {
+  const inner = raw.subarray(1, raw.length - 1);
+  if (raw[0] === 0x3c) {
+    const hex = ascii(inner).replace(/\s/g, "");
+    const bytes = (hex.match(/../g) || []).map((pair) => parseInt(pair, 16));
+    return decodePdfBytes(new Uint8Array(bytes));
+  }
+  return decodePdfBytes(inner).replace(/\\(.)/g, "$1");
+}
+
+const decodePdfBytes = (bytes: Uint8Array) =>
+  bytes[0] === 0xfe && bytes[1] === 0xff
+    ? new TextDecoder("utf-16be").decode(bytes.subarray(2))
+    : ascii(bytes);
+
+// Values are blanked in place rather than removed so the byte offsets in the
+// cross-reference table stay valid. Metadata inside compressed object streams
+// cannot be reached this way; such files are reported as not fully cleaned.
+function sanitizePdf(data: Uint8Array, removed: string[]): { cleaned: Uint8Array; complete: boolean } {
+  const out = data.slice();
+
+  for (const key of PDF_INFO_KEYS) {
+    let at = indexOf(out, `/${key}`);
+    while (at !== -1) {
+      let start = at + key.length + 1;
+      while (start < out.length && isPdfWhitespace(out[start])) start++;
+
+      let end = -1;
+      if (out[start] === 0x28) {
+        end = literalStringEnd(out, start);
+      } else if (out[start] === 0x3c && out[start + 1] !== 0x3c) {
+        end = out.indexOf(0x3e, start) + 1;
+      }
+
+      if (end > start + 2) {
+        const value = decodePdfString(out.subarray(start, end)).trim();
+        if (value) removed.push(`${key}: ${value}`);
+        out[start + 1] = out[start] === 0x28 ? 0x29 : 0x3e;
+        out.fill(0x20, start + 2, end);
+      }
+      at = indexOf(out, `/${key}`, Math.max(end, at + 1));
+    }
+  }
+
+  let xmp = indexOf(out, "<x:xmpmeta");
+  while (xmp !== -1) {
+    const close = indexOf(out, "</x:xmpmeta>", xmp);
+    if (close === -1) break;
+    out.fill(0x20, xmp, close + "</x:xmpmeta>".length);
+    removed.push("XMP metadata");
+    xmp = indexOf(out, "<x:xmpmeta", close);
+  }
+
+  return { cleaned: out, complete: indexOf(out, "/ObjStm") === -1 };
+}
+
+// --- Entry point -----------------------------------------------------------
+
+export async function sanitizeFile(original: File): Promise<SanitizedFile> {
+  const data = new Uint8Array(await original.arrayBuffer());
+  const removed: string[] = [];
+  let cleaned: Uint8Array | null = null;
+  let complete = true;
+
+  if (data[0] === 0xff && data[1] === 0xd8) {
+    cleaned = sanitizeJpeg(data, removed);
+  } else if (startsWith(data, "\x89PNG\r\n\x1a\n")) {
+    cleaned = sanitizePng(data, removed);
+  } else if (startsWith(data, "RIFF") && startsWith(data, "WEBP", 8)) {
+    cleaned = sanitizeWebp(data, removed);
+  } else if (startsWith(data, "%PDF-")) {
+    ({ cleaned, complete } = sanitizePdf(data, removed));
+  }
+
+  if (!cleaned) {
+    return { file: original, original, removed, supported: false };
+  }
+
+  return {
+    file: removed.length > 0 ? new File([cleaned], original.name, { type: original.type }) : original,
+    original,
+    removed,
+    supported: complete,
+  };
+}
@@ -0,0 +1,69 @@
+import { formatDistanceToNowStrict } from "date-fns";
+
+// Deadline fields set on complaints by the track_complaint_sla trigger
+export interface SlaFields {
+  due_at?: string | null;
+  closed_at?: string | null;
+}
+
+// Open complaints due within this many hours are flagged as due soon
+const DUE_SOON_HOURS = 24;
+
+export type SlaState = "none" | "on_track" | "due_soon" | "overdue" | "met" | "missed";
+
+export function getSlaState(complaint: SlaFields, now = new Date()): SlaState {
+  if (!complaint.due_at) return "none";
+  const due = new Date(complaint.due_at);
+
+  if (complaint.closed_at) {
+    return new Date(complaint.closed_at) <= due ? "met" : "missed";
+  }
+  if (due < now) return "overdue";
+  return due.getTime() - now.getTime() <= DUE_SOON_HOURS * 3600 * 1000 ? "due_soon" : "on_track";
+}
+
+export const slaLabel = (complaint: SlaFields) => {
+  if (!complaint.due_at) return null;
+  const distance = formatDistanceToNowStrict(new Date(complaint.due_at));
+
+  switch (getSlaState(complaint)) {
+    case "overdue":
+      return `Overdue by ${distance}`;
+    case "met":
+      return "Resolved within SLA";
+    case "missed":
+      return "Resolved after SLA";
+    default:
+      return `Due in ${distance}`;
+  }
+};
+
+// Open complaints by deadline, soonest (or most overdue) first; closed and
+// undated complaints after them
+export const compareByDueDate = (a: SlaFields, b: SlaFields) => {
+  const key = (c: SlaFields) => (c.closed_at || !c.due_at ? Infinity : new Date(c.due_at).getTime());
+  return key(a) - key(b);
+};
+
+export interface SlaCompliance {
+  // Closed complaints, and those closed by their deadline
+  closed: number;
+  met: number;
+  // Open complaints already past their deadline
+  overdue: number;
+  // Share of closed complaints that met their deadline, or null with none closed
+  rate: number | null;
+}
+
+export function slaCompliance(complaints: SlaFields[], now = new Date()): SlaCompliance {
+  const states = complaints.map((c) => getSlaState(c, now));
+  const met = states.filter((s) => s === "met").length;
+  const closed = met + states.filter((s) => s === "missed").length;
+
+  return {
+    closed,
+    met,
+    overdue: states.filter((s) => s === "overdue").length,
+    rate: closed > 0 ? met / closed : null,
+  };
+}
@@ -0,0 +1,73 @@
+import { supabase } from "@/integrations/supabase/client";
+import { trackingBody, type TrackingCredentials } from "@/lib/tracking";
+
+// Tracking-code subscriptions for anonymous reporters. Contacts are sent to
+// the tracking-subscriptions edge function, which stores them encrypted;
+// nothing about the subscription is kept in this browser.
+
+// Public half of the VAPID key pair the send-notifications function signs with
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+const PUSH_WORKER_URL = "/push-sw.js";
+
+export const pushSupported = () =>
+  !!VAPID_PUBLIC_KEY && "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+
+const fromBase64Url = (value: string) => {
+  const base64 = (value + "=".repeat((4 - (value.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+};
+
+const invoke = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke("tracking-subscriptions", { body });
+  if (error) throw error;
+  if (!data.success) throw new Error(data.error);
+  return data;
+};
+
+// Resolves to true while the address still has to be confirmed from the
+// email sent to it
+export async function subscribeByEmail(credentials: TrackingCredentials, email: string): Promise<boolean> {
+  const { pending } = await invoke({ action: "subscribe", ...trackingBody(credentials), email });
+  return pending;
+}
+
+export async function subscribeToPush(credentials: TrackingCredentials) {
+  if (!pushSupported()) {
+    throw new Error("Browser notifications are not available here");
+  }
+  if ((await Notification.requestPermission()) !== "granted") {
+    throw new Error("Notifications were not allowed in this browser");
+  }
+
+  const registration = await navigator.serviceWorker.register(PUSH_WORKER_URL);
+  await navigator.serviceWorker.ready;
+
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: fromBase64Url(VAPID_PUBLIC_KEY!),
+    }));
+
+  return invoke({ action: "subscribe", ...trackingBody(credentials), pushSubscription: subscription.toJSON() });
+}
+
+// Deletes every contact following the complaint. The browser's push
+// subscription is kept: it may also follow other complaints.
+export async function unsubscribeAll(credentials: TrackingCredentials): Promise<number> {
+  const { removed } = await invoke({ action: "unsubscribe", ...trackingBody(credentials) });
+  return removed;
+}
+
+// Activates the email address a confirmation link was sent to
+export async function confirmSubscription(token: string): Promise<number> {
+  const { confirmed } = await invoke({ action: "confirm", token });
+  return confirmed;
+}
+
+// Deletes the one contact an unsubscribe link was sent to
+export async function unsubscribeByToken(token: string): Promise<number> {
+  const { removed } = await invoke({ action: "unsubscribe", token });
+  return removed;
+}
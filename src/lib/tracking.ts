@@ -0,0 +1,18 @@
+// What an anonymous reporter holds: the public tracking code that names the
+// complaint and the secret, shown once at submission, that unlocks it
+export interface TrackingCredentials {
+  code: string;
+  secret: string;
+}
+
+export const TRACKING_CODE_PATTERN = /^CW-[A-Z0-9]{4}-[A-Z0-9]{4}-[A-Z0-9]{4}$/i;
+
+// Codes issued before tracking secrets. They open their complaint without a
+// secret, read-only.
+export const LEGACY_TRACKING_CODE_PATTERN = /^CW-[0-9A-F]{4}-[0-9A-F]{4}$/i;
+
+// Body fields the verify-tracking and tracking-subscriptions functions expect
+export const trackingBody = ({ code, secret }: TrackingCredentials) => ({
+  trackingCode: code,
+  trackingSecret: secret,
+});
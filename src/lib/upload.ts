@@ -0,0 +1,168 @@
+import { supabase } from "@/integrations/supabase/client";
+import { EVIDENCE_BUCKET } from "@/lib/evidence";
+
+// Resumable (TUS) uploads to Supabase Storage. Files are sent in chunks and a
+// failed chunk is retried from the offset the server last acknowledged, so a
+// dropped connection only costs the chunk in flight.
+
+// The TUS endpoint needs the project URL and key the shared client was created
+// with. The client only declares them protected, so they are read off it here
+// rather than from .env, which the client does not use.
+const { supabaseUrl: SUPABASE_URL, supabaseKey: SUPABASE_ANON_KEY } = supabase as unknown as {
+  supabaseUrl: string;
+  supabaseKey: string;
+};
+
+const RESUMABLE_ENDPOINT = `${SUPABASE_URL}/storage/v1/upload/resumable`;
+
+// Supabase requires 6 MB chunks for resumable uploads
+const CHUNK_SIZE = 6 * 1024 * 1024;
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+
+// Matches the evidence bucket's file_size_limit and allowed_mime_types
+export const MAX_EVIDENCE_SIZE_BYTES = 50 * 1024 * 1024;
+const ALLOWED_TYPE_PREFIXES = ["image/", "video/", "audio/"];
+const ALLOWED_TYPES = ["application/pdf"];
+
+export class UploadError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+export interface ResumableUpload {
+  path: string;
+  file: File;
+  // Set once the upload exists on the server; reused to resume it
+  uploadUrl?: string;
+  uploaded: number;
+}
+
+// Reason the file cannot be used as evidence, or null when it is acceptable
+export function validateEvidenceFile(file: File): string | null {
+  const allowed = ALLOWED_TYPES.includes(file.type) || ALLOWED_TYPE_PREFIXES.some((prefix) => file.type.startsWith(prefix));
+  if (!allowed) {
+    return `${file.name}: only images, videos, audio and PDF files are accepted`;
+  }
+  if (file.size > MAX_EVIDENCE_SIZE_BYTES) {
+    return `${file.name}: files must be smaller than ${MAX_EVIDENCE_SIZE_BYTES / (1024 * 1024)} MB`;
+  }
+  return null;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const toBase64 = (value: string) => btoa(String.fromCharCode(...new TextEncoder().encode(value)));
+
+const tusHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    authorization: `Bearer ${session?.access_token ?? SUPABASE_ANON_KEY}`,
+    apikey: SUPABASE_ANON_KEY,
+    "tus-resumable": "1.0.0",
+  };
+};
+
+const failed = async (response: Response) =>
+  new UploadError((await response.text()) || `Upload failed (${response.status})`, response.status);
+
+// Client errors other than conflicts and rate limits will not succeed on retry
+const isRetryable = (error: unknown) =>
+  !(error instanceof UploadError) ||
+  error.status === undefined ||
+  error.status >= 500 ||
+  [408, 409, 423, 429].includes(error.status);
+
+async function createUpload(upload: ResumableUpload) {
+  const metadata = {
+    bucketName: EVIDENCE_BUCKET,
+    objectName: upload.path,
+    contentType: upload.file.type || "application/octet-stream",
+    cacheControl: "3600",
+  };
+
+  const response = await fetch(RESUMABLE_ENDPOINT, {
+    method: "POST",
+    headers: {
+      ...(await tusHeaders()),
+      "upload-length": String(upload.file.size),
+      "upload-metadata": Object.entries(metadata)
+        .map(([key, value]) => `${key} ${toBase64(value)}`)
+        .join(","),
+    },
+  });
+
+  // Evidence paths are content-addressed inside a folder only this reporter can
+  // write to, so an existing object is one of their own earlier uploads
+  if (response.status === 409) {
+    upload.uploaded = upload.file.size;
+    return;
+  }
+  if (!response.ok) throw await failed(response);
+
+  const location = response.headers.get("location");
+  if (!location) throw new UploadError("Upload was not created");
+
+  upload.uploadUrl = new URL(location, RESUMABLE_ENDPOINT).toString();
+  upload.uploaded = 0;
+}
+
+// Ask the server how much of an existing upload it has stored
+async function syncOffset(upload: ResumableUpload) {
+  const response = await fetch(upload.uploadUrl!, { method: "HEAD", headers: await tusHeaders() });
+
+  // Expired or unknown uploads are started again
+  if (response.status === 404 || response.status === 410) {
+    upload.uploadUrl = undefined;
+    return;
+  }
+  if (!response.ok) throw new UploadError(`Could not resume upload (${response.status})`, response.status);
+
+  upload.uploaded = Number(response.headers.get("upload-offset") ?? 0);
+}
+
+async function sendChunk(upload: ResumableUpload) {
+  const response = await fetch(upload.uploadUrl!, {
+    method: "PATCH",
+    headers: {
+      ...(await tusHeaders()),
+      "upload-offset": String(upload.uploaded),
+      "content-type": "application/offset+octet-stream",
+    },
+    body: upload.file.slice(upload.uploaded, upload.uploaded + CHUNK_SIZE),
+  });
+
+  if (!response.ok) throw await failed(response);
+
+  upload.uploaded = Number(response.headers.get("upload-offset") ?? upload.uploaded);
+}
+
+// Uploads (or resumes) `upload`, reporting bytes stored after every chunk
+export async function uploadResumable(upload: ResumableUpload, onProgress: (uploaded: number) => void) {
+  let attempt = 0;
+
+  while (true) {
+    try {
+      if (upload.uploadUrl) {
+        await syncOffset(upload);
+      }
+      if (!upload.uploadUrl) {
+        await createUpload(upload);
+      }
+      onProgress(upload.uploaded);
+
+      while (upload.uploaded < upload.file.size) {
+        await sendChunk(upload);
+        onProgress(upload.uploaded);
+        attempt = 0;
+      }
+      return;
+    } catch (error) {
+      attempt++;
+      if (attempt >= MAX_ATTEMPTS || !isRetryable(error)) throw error;
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+    }
+  }
+}
@@ -5,14 +5,20 @@ import { ComplaintHeatmap } from "@/components/ComplaintHeatmap";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend, LineChart, Line } from "recharts";
-import { AlertCircle, TrendingUp, MapPin, FileText, Eye, CheckCircle2, Clock, XCircle, Download } from "lucide-react";
+import { AlertCircle, TrendingUp, MapPin, FileText, Eye, CheckCircle2, Clock, XCircle, Download, Briefcase } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { format } from "date-fns";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
+import { recordEvidenceViews } from "@/lib/audit";
+import { signEvidenceUrls } from "@/lib/evidence";
+import { CaseStatus } from "@/lib/cases";
+import { Department } from "@/lib/departments";
+import { slaCompliance } from "@/lib/sla";
 
 interface Complaint {
   id: string;
@@ -26,12 +32,25 @@ interface Complaint {
   description?: string;
   location?: string;
   tracking_code?: string | null;
+  submitted_at?: string | null;
+  department_id?: string | null;
+  due_at?: string | null;
+  closed_at?: string | null;
+}
+
+interface CaseFile {
+  id: string;
+  status: CaseStatus;
+  created_at: string;
+  case_complaints: { complaint_id: string }[];
 }
 
 interface EvidenceFile {
   id: string;
   file_name: string;
-  file_url: string;
+  storage_path: string;
+  // Short-lived URL signed when the evidence is loaded
+  signed_url?: string;
   file_type: string;
   created_at: string;
 }
@@ -59,9 +78,15 @@ export default function Analytics() {
   const [selectedComplaint, setSelectedComplaint] = useState<Complaint | null>(null);
   const [evidenceFiles, setEvidenceFiles] = useState<EvidenceFile[]>([]);
   const [loadingEvidence, setLoadingEvidence] = useState(false);
+  const [cases, setCases] = useState<CaseFile[]>([]);
+  // Charts count complaints, or cases so that many reports about one matter count once
+  const [countBy, setCountBy] = useState<"complaints" | "cases">("complaints");
+  const [departments, setDepartments] = useState<Department[]>([]);
 
   useEffect(() => {
     fetchComplaints();
+    fetchCases();
+    fetchDepartments();
 
     // Set up realtime subscription
     const channel = supabase
@@ -76,11 +101,15 @@ export default function Analytics() {
         (payload) => {
           console.log('Realtime update received in analytics:', payload);
           
-          if (payload.eventType === 'INSERT') {
-            setComplaints(prev => [payload.new as Complaint, ...prev]);
-          } else if (payload.eventType === 'UPDATE') {
-            setComplaints(prev => 
-              prev.map(c => c.id === payload.new.id ? payload.new as Complaint : c)
+          // Drafts are left out until finalized
+          const updated = payload.new as Complaint;
+          if (payload.eventType === 'INSERT' && updated.submitted_at) {
+            setComplaints(prev => [updated, ...prev]);
+          } else if (payload.eventType === 'UPDATE' && updated.submitted_at) {
+            setComplaints(prev =>
+              prev.some(c => c.id === updated.id)
+                ? prev.map(c => c.id === updated.id ? updated : c)
+                : [updated, ...prev]
             );
           } else if (payload.eventType === 'DELETE') {
             setComplaints(prev => prev.filter(c => c.id !== payload.old.id));
@@ -99,6 +128,7 @@ export default function Analytics() {
       const { data, error } = await supabase
         .from("complaints")
         .select("*")
+        .not("submitted_at", "is", null)
         .order("created_at", { ascending: false });
 
       if (error) throw error;
@@ -110,6 +140,29 @@ export default function Analytics() {
     }
   };
 
+  const fetchCases = async () => {
+    const { data, error } = await supabase
+      .from("cases")
+      .select("id, status, created_at, case_complaints(complaint_id)")
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching cases:", error);
+      return;
+    }
+    setCases(data || []);
+  };
+
+  const fetchDepartments = async () => {
+    const { data, error } = await supabase.from("departments").select("*").order("name");
+
+    if (error) {
+      console.error("Error fetching departments:", error);
+      return;
+    }
+    setDepartments(data || []);
+  };
+
   const handleViewComplaint = async (complaint: Complaint) => {
     setSelectedComplaint(complaint);
     setLoadingEvidence(true);
@@ -121,7 +174,10 @@ export default function Analytics() {
         .eq("complaint_id", complaint.id)
         .order("created_at", { ascending: false });
       
-      setEvidenceFiles(evidence || []);
+      const signedUrls = await signEvidenceUrls(evidence || []);
+      setEvidenceFiles((evidence || []).map((file) => ({ ...file, signed_url: signedUrls[file.id] })));
+      // Evidence is displayed as soon as the dialog opens
+      recordEvidenceViews((evidence || []).map((file) => file.id));
     } catch (error) {
       console.error("Error fetching evidence:", error);
     } finally {
@@ -186,19 +242,38 @@ export default function Analytics() {
     return acc;
   }, {} as Record<string, number>);
 
-  const chartCategoryData = Object.entries(categoryData).map(([name, value]) => ({
+  // A case counts once under each category its complaints fall in
+  const complaintCategories = Object.fromEntries(complaints.map((c) => [c.id, c.category.replace('_', ' ')]));
+  const caseCategoryData = cases.reduce((acc, caseFile) => {
+    const categories = new Set(caseFile.case_complaints.map((m) => complaintCategories[m.complaint_id]).filter(Boolean));
+    categories.forEach((category) => {
+      acc[category] = (acc[category] || 0) + 1;
+    });
+    return acc;
+  }, {} as Record<string, number>);
+
+  const caseStatusData = cases.reduce((acc, caseFile) => {
+    acc[caseFile.status] = (acc[caseFile.status] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+
+  const openCases = cases.filter((c) => c.status !== "closed").length;
+  const byCase = countBy === "cases";
+  const countedItems: { created_at: string }[] = byCase ? cases : complaints;
+
+  const chartCategoryData = Object.entries(byCase ? caseCategoryData : categoryData).map(([name, value]) => ({
     name: name.charAt(0).toUpperCase() + name.slice(1),
     count: value,
   }));
 
-  const chartStatusData = Object.entries(statusData).map(([name, value]) => ({
+  const chartStatusData = Object.entries(byCase ? caseStatusData : statusData).map(([name, value]) => ({
     name: name.charAt(0).toUpperCase() + name.slice(1).replace('_', ' '),
     value,
   }));
 
-  // Timeline data (complaints per month)
-  const timelineData = complaints.reduce((acc, complaint) => {
-    const month = new Date(complaint.created_at).toLocaleString('default', { month: 'short', year: 'numeric' });
+  // Timeline data (complaints or cases opened per month)
+  const timelineData = countedItems.reduce((acc, item) => {
+    const month = new Date(item.created_at).toLocaleString('default', { month: 'short', year: 'numeric' });
     acc[month] = (acc[month] || 0) + 1;
     return acc;
   }, {} as Record<string, number>);
@@ -221,17 +296,28 @@ export default function Analytics() {
 
   const complaintsWithLocation = complaints.filter(c => c.latitude && c.longitude);
 
+  // SLA compliance per department, with unrouted complaints last
+  const slaRows = [
+    ...departments.map((d) => ({ id: d.id, name: d.name })),
+    { id: null as string | null, name: "No department" },
+  ]
+    .map((row) => ({
+      ...row,
+      ...slaCompliance(complaints.filter((c) => (c.department_id ?? null) === row.id)),
+    }))
+    .filter((row) => row.closed > 0 || row.overdue > 0);
+
   return (
     <div className="min-h-screen bg-background">
       <Navbar />
       <div className="container mx-auto px-4 py-8">
         <div className="mb-8">
-          <h1 className="text-4xl font-bold text-foreground mb-2">Public Analytics Dashboard</h1>
+          <h1 className="text-4xl font-bold text-foreground mb-2">Analytics Dashboard</h1>
           <p className="text-muted-foreground">Real-time visualization of civic complaints and trends</p>
         </div>
 
         {/* Summary Cards */}
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4 mb-8">
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5 mb-8">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">Total Complaints</CardTitle>
@@ -275,6 +361,17 @@ export default function Analytics() {
               <p className="text-xs text-muted-foreground">Successfully closed</p>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Open Cases</CardTitle>
+              <Briefcase className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{openCases}</div>
+              <p className="text-xs text-muted-foreground">{cases.length} cases in total</p>
+            </CardContent>
+          </Card>
         </div>
 
         <Tabs defaultValue="overview" className="space-y-4">
@@ -286,11 +383,27 @@ export default function Analytics() {
           </TabsList>
 
           <TabsContent value="overview" className="space-y-4">
+            <div className="flex items-center justify-end gap-2">
+              <span className="text-sm text-muted-foreground">Count by</span>
+              <Select value={countBy} onValueChange={(value) => setCountBy(value as "complaints" | "cases")}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="complaints">Complaints</SelectItem>
+                  <SelectItem value="cases">Cases</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
             <div className="grid gap-4 md:grid-cols-2">
               <Card>
                 <CardHeader>
-                  <CardTitle>Complaints by Category</CardTitle>
-                  <CardDescription>Distribution across different issue types</CardDescription>
+                  <CardTitle>{byCase ? "Cases" : "Complaints"} by Category</CardTitle>
+                  <CardDescription>
+                    {byCase
+                      ? "Cases under each issue type of their complaints"
+                      : "Distribution across different issue types"}
+                  </CardDescription>
                 </CardHeader>
                 <CardContent>
                   <ResponsiveContainer width="100%" height={300}>
@@ -308,7 +421,7 @@ export default function Analytics() {
               <Card>
                 <CardHeader>
                   <CardTitle>Status Distribution</CardTitle>
-                  <CardDescription>Current state of all complaints</CardDescription>
+                  <CardDescription>Current state of all {byCase ? "cases" : "complaints"}</CardDescription>
                 </CardHeader>
                 <CardContent>
                   <ResponsiveContainer width="100%" height={300}>
@@ -336,8 +449,10 @@ export default function Analytics() {
 
             <Card>
               <CardHeader>
-                <CardTitle>Complaint Trends</CardTitle>
-                <CardDescription>Monthly submission patterns (last 6 months)</CardDescription>
+                <CardTitle>{byCase ? "Case" : "Complaint"} Trends</CardTitle>
+                <CardDescription>
+                  {byCase ? "Cases opened per month" : "Monthly submission patterns"} (last 6 months)
+                </CardDescription>
               </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={300}>
@@ -352,6 +467,47 @@ export default function Analytics() {
                 </ResponsiveContainer>
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>SLA Compliance by Department</CardTitle>
+                <CardDescription>
+                  Closed complaints resolved or rejected by their due date, and open complaints already overdue
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {slaRows.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-4">No complaints with an SLA yet</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Department</TableHead>
+                        <TableHead className="text-right">Closed</TableHead>
+                        <TableHead className="text-right">Within SLA</TableHead>
+                        <TableHead className="text-right">Compliance</TableHead>
+                        <TableHead className="text-right">Overdue Now</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {slaRows.map((row) => (
+                        <TableRow key={row.id ?? "none"}>
+                          <TableCell className="font-medium">{row.name}</TableCell>
+                          <TableCell className="text-right">{row.closed}</TableCell>
+                          <TableCell className="text-right">{row.met}</TableCell>
+                          <TableCell className="text-right">
+                            {row.rate === null ? "—" : `${Math.round(row.rate * 100)}%`}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {row.overdue > 0 ? <Badge variant="destructive">{row.overdue}</Badge> : 0}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
           </TabsContent>
 
           <TabsContent value="complaints" className="space-y-4">
@@ -576,19 +732,19 @@ export default function Analytics() {
                           <p className="text-xs text-muted-foreground">
                             Uploaded {format(new Date(file.created_at), "MMM d, yyyy")}
                           </p>
-                          {file.file_type.startsWith("image/") && (
+                          {file.signed_url && file.file_type.startsWith("image/") && (
                             <div className="mt-2">
                               <img 
-                                src={file.file_url} 
+                                src={file.signed_url} 
                                 alt={file.file_name}
                                 className="max-w-full h-auto rounded border"
                               />
                             </div>
                           )}
-                          {file.file_type.startsWith("video/") && (
+                          {file.signed_url && file.file_type.startsWith("video/") && (
                             <div className="mt-2">
                               <video 
-                                src={file.file_url} 
+                                src={file.signed_url} 
                                 controls
                                 className="max-w-full h-auto rounded border"
                               >
@@ -596,10 +752,10 @@ export default function Analytics() {
                               </video>
                             </div>
                           )}
-                          {file.file_type.startsWith("audio/") && (
+                          {file.signed_url && file.file_type.startsWith("audio/") && (
                             <div className="mt-2">
                               <audio 
-                                src={file.file_url} 
+                                src={file.signed_url} 
                                 controls
                                 className="w-full"
                               >
@@ -611,7 +767,8 @@ export default function Analytics() {
                             variant="outline" 
                             size="sm" 
                             className="w-full"
-                            onClick={() => window.open(file.file_url, '_blank')}
+                            disabled={!file.signed_url}
+                            onClick={() => window.open(file.signed_url, '_blank')}
                           >
                             View File
                           </Button>
@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Navbar } from "@/components/Navbar";
+import { Bell, CheckCircle2, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { confirmSubscription } from "@/lib/subscriptions";
+
+// Target of the link in subscription confirmation emails. Like unsubscribing,
+// confirming waits for a click so link scanners in mail clients cannot do it.
+export default function ConfirmSubscription() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<"confirmed" | "expired" | null>(null);
+
+  const handleConfirm = async () => {
+    if (!token) return;
+
+    setLoading(true);
+    try {
+      setResult((await confirmSubscription(token)) > 0 ? "confirmed" : "expired");
+    } catch (error) {
+      console.error("Confirmation error:", error);
+      toast.error("Could not confirm. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container py-8">
+        <Card className="max-w-md mx-auto">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Bell className="h-5 w-5" />
+              Confirm Notifications
+            </CardTitle>
+            <CardDescription>
+              Notifications only say that a complaint changed. If you did not ask for them, close this page and
+              nothing will be sent.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {result === "confirmed" ? (
+              <p className="flex items-center gap-2 text-sm">
+                <CheckCircle2 className="h-4 w-4 text-secondary" />
+                This address will now be notified when the complaint changes.
+              </p>
+            ) : result === "expired" ? (
+              <p className="text-sm text-muted-foreground">
+                This link was already used or the subscription was removed.
+              </p>
+            ) : token ? (
+              <Button onClick={handleConfirm} disabled={loading}>
+                {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Confirm
+              </Button>
+            ) : (
+              <p className="text-sm text-muted-foreground">This confirmation link is incomplete.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -7,9 +7,14 @@ import { Navbar } from "@/components/Navbar";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { FileText, Clock, CheckCircle2, XCircle, AlertCircle, Eye, MapPin, FileIcon, Calendar, Loader2 } from "lucide-react";
+import { FileText, Clock, CheckCircle2, XCircle, AlertCircle, Eye, MapPin, FileIcon, Calendar, Loader2, Bell } from "lucide-react";
 import { format } from "date-fns";
 import { toast } from "sonner";
+import { signEvidenceUrls } from "@/lib/evidence";
+import { ComplaintTimeline } from "@/components/ComplaintTimeline";
+import { ComplaintMessages } from "@/components/MessageThread";
+import { NotificationPreferences } from "@/components/NotificationPreferences";
+import { useAuth } from "@/hooks/use-auth";
 
 interface Complaint {
   id: string;
@@ -23,12 +28,17 @@ interface Complaint {
   longitude: number | null;
   tracking_code: string | null;
   urgency_score: number | null;
+  rejection_reason: string | null;
+  resolution_summary: string | null;
+  submitted_at: string | null;
 }
 
 interface EvidenceFile {
   id: string;
   file_name: string;
-  file_url: string;
+  storage_path: string;
+  // Short-lived URL signed when the evidence is loaded
+  signed_url?: string;
   file_type: string;
   created_at: string;
 }
@@ -64,22 +74,24 @@ export default function Dashboard() {
   const [evidenceFiles, setEvidenceFiles] = useState<EvidenceFile[]>([]);
   const [govNotes, setGovNotes] = useState<GovNote[]>([]);
   const [loadingDetails, setLoadingDetails] = useState(false);
+  const [showNotifications, setShowNotifications] = useState(false);
+  const { user, loading: authLoading } = useAuth();
 
   useEffect(() => {
     let channel: ReturnType<typeof supabase.channel> | null = null;
 
     const fetchComplaints = async () => {
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      if (!session) {
-        navigate("/auth");
+      if (authLoading) return;
+
+      if (!user) {
+        navigate("/auth", { state: { from: "/dashboard" } });
         return;
       }
 
       const { data, error } = await supabase
         .from("complaints")
         .select("*")
-        .eq("user_id", session.user.id)
+        .eq("user_id", user.id)
         .order("created_at", { ascending: false });
 
       if (error) {
@@ -98,7 +110,7 @@ export default function Dashboard() {
             event: '*',
             schema: 'public',
             table: 'complaints',
-            filter: `user_id=eq.${session.user.id}`
+            filter: `user_id=eq.${user.id}`
           },
           (payload) => {
             console.log('Realtime update received:', payload);
@@ -132,7 +144,7 @@ export default function Dashboard() {
         supabase.removeChannel(channel);
       }
     };
-  }, [navigate, selectedComplaint]);
+  }, [navigate, selectedComplaint, user, authLoading]);
 
   const fetchComplaintDetails = async (complaintId: string) => {
     setLoadingDetails(true);
@@ -143,7 +155,8 @@ export default function Dashboard() {
       .eq("complaint_id", complaintId)
       .order("created_at", { ascending: false });
     
-    setEvidenceFiles(files || []);
+    const signedUrls = await signEvidenceUrls(files || []);
+    setEvidenceFiles((files || []).map((file) => ({ ...file, signed_url: signedUrls[file.id] })));
 
     const { data: notes } = await supabase
       .from("gov_notes")
@@ -177,11 +190,27 @@ export default function Dashboard() {
     <div className="min-h-screen bg-background">
       <Navbar />
       <div className="container py-8">
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold mb-2">My Complaints</h1>
-          <p className="text-muted-foreground">Track the status of your submitted complaints</p>
+        <div className="mb-8 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">My Complaints</h1>
+            <p className="text-muted-foreground">Track the status of your submitted complaints</p>
+          </div>
+          <Button variant="outline" onClick={() => setShowNotifications(true)}>
+            <Bell className="h-4 w-4 mr-2" />
+            Notifications
+          </Button>
         </div>
 
+        <Dialog open={showNotifications} onOpenChange={setShowNotifications}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Notification Preferences</DialogTitle>
+              <DialogDescription>Choose how you hear about progress on your complaints</DialogDescription>
+            </DialogHeader>
+            <NotificationPreferences />
+          </DialogContent>
+        </Dialog>
+
         {complaints.length === 0 ? (
           <Card>
             <CardContent className="py-12 text-center">
@@ -233,9 +262,16 @@ export default function Dashboard() {
                   </CardHeader>
                   <CardContent>
                     <div className="flex items-center justify-between">
-                      <Badge variant="outline" className="text-xs">
-                        {categoryLabels[complaint.category] || complaint.category}
-                      </Badge>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="text-xs">
+                          {categoryLabels[complaint.category] || complaint.category}
+                        </Badge>
+                        {!complaint.submitted_at && (
+                          <Badge variant="destructive" className="text-xs">
+                            Evidence upload incomplete
+                          </Badge>
+                        )}
+                      </div>
                       <Button variant="ghost" size="sm" onClick={() => handleViewDetails(complaint)}>
                         <Eye className="h-4 w-4 mr-2" />
                         View Details
@@ -264,10 +300,12 @@ export default function Dashboard() {
             </div>
           ) : (
             <Tabs defaultValue="details" className="mt-4">
-              <TabsList className="grid w-full grid-cols-3">
+              <TabsList className="grid w-full grid-cols-5">
                 <TabsTrigger value="details">Details</TabsTrigger>
                 <TabsTrigger value="evidence">Evidence ({evidenceFiles.length})</TabsTrigger>
                 <TabsTrigger value="notes">Notes ({govNotes.length})</TabsTrigger>
+                <TabsTrigger value="messages">Messages</TabsTrigger>
+                <TabsTrigger value="timeline">Timeline</TabsTrigger>
               </TabsList>
 
               <TabsContent value="details" className="space-y-4">
@@ -307,6 +345,18 @@ export default function Dashboard() {
                     </div>
                   )}
                 </div>
+                {selectedComplaint?.rejection_reason && (
+                  <div>
+                    <h3 className="font-semibold mb-2">Rejection Reason</h3>
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">{selectedComplaint.rejection_reason}</p>
+                  </div>
+                )}
+                {selectedComplaint?.resolution_summary && (
+                  <div>
+                    <h3 className="font-semibold mb-2">Resolution Summary</h3>
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">{selectedComplaint.resolution_summary}</p>
+                  </div>
+                )}
               </TabsContent>
 
               <TabsContent value="evidence" className="space-y-4">
@@ -326,11 +376,15 @@ export default function Dashboard() {
                               </p>
                             </div>
                           </div>
-                          <Button variant="outline" size="sm" asChild>
-                            <a href={file.file_url} target="_blank" rel="noopener noreferrer">
-                              View
-                            </a>
-                          </Button>
+                          {file.signed_url ? (
+                            <Button variant="outline" size="sm" asChild>
+                              <a href={file.signed_url} target="_blank" rel="noopener noreferrer">
+                                View
+                              </a>
+                            </Button>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">Link unavailable</span>
+                          )}
                         </CardContent>
                       </Card>
                     ))}
@@ -358,6 +412,14 @@ export default function Dashboard() {
                   </div>
                 )}
               </TabsContent>
+
+              <TabsContent value="messages" className="space-y-4">
+                {selectedComplaint && <ComplaintMessages complaintId={selectedComplaint.id} viewer="reporter" />}
+              </TabsContent>
+
+              <TabsContent value="timeline" className="space-y-4">
+                {selectedComplaint && <ComplaintTimeline complaintId={selectedComplaint.id} />}
+              </TabsContent>
             </Tabs>
           )}
         </DialogContent>
@@ -6,13 +6,43 @@ import { Navbar } from "@/components/Navbar";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { toast } from "sonner";
-import { BarChart3, FileText, CheckCircle2, AlertTriangle, Loader2, Eye, MapPin, Calendar, FileIcon, MessageSquare, Sparkles, Brain, TrendingUp as TrendingUpIcon, Download } from "lucide-react";
+import { BarChart3, FileText, CheckCircle2, AlertTriangle, Loader2, Eye, MapPin, Calendar, FileIcon, MessageSquare, Sparkles, Brain, TrendingUp as TrendingUpIcon, Download, Link2, Copy, Clock } from "lucide-react";
 import { format } from "date-fns";
+import { recordEvidenceViews } from "@/lib/audit";
+import { signEvidenceUrls } from "@/lib/evidence";
+import { ComplaintTimeline } from "@/components/ComplaintTimeline";
+import { ComplaintMessages } from "@/components/MessageThread";
+import { SharedEvidence } from "@/components/SharedEvidence";
+import { RelatedComplaints } from "@/components/RelatedComplaints";
+import { CasesPanel } from "@/components/CasesPanel";
+import { CaseMembership } from "@/components/CaseMembership";
+import { ComplaintAssignment } from "@/components/ComplaintAssignment";
+import { DepartmentsAdmin } from "@/components/DepartmentsAdmin";
+import { SlaPoliciesAdmin } from "@/components/SlaPoliciesAdmin";
+import { Official, officialName } from "@/lib/cases";
+import {
+  Department,
+  DepartmentMember,
+  Jurisdiction,
+  QueueView,
+  RoutingRule,
+  departmentName,
+  queueViewLabels,
+} from "@/lib/departments";
+import { compareByDueDate, getSlaState, slaLabel } from "@/lib/sla";
+import { TriageQueue } from "@/components/TriageQueue";
+import { ComplaintStatus, StatusTransition, getStatusOptions, transitionFieldLabels } from "@/lib/complaint-status";
+import { useAuth } from "@/hooks/use-auth";
+import { AiMetadata, analysisFailed, describeInjectionFlags, readAiMetadata, statusSuggestionSchema } from "@/lib/ai-analysis";
+import { Json } from "@/integrations/supabase/types";
 
 interface Complaint {
   id: string;
@@ -27,12 +57,26 @@ interface Complaint {
   tracking_code: string | null;
   urgency_score: number | null;
   is_anonymous: boolean;
+  rejection_reason: string | null;
+  resolution_summary: string | null;
+  submitted_at: string | null;
+  ai_metadata: Json | null;
+  risk_level: string | null;
+  is_critical: boolean;
+  duplicate_of: string | null;
+  assigned_to: string | null;
+  department_id: string | null;
+  due_at: string | null;
+  closed_at: string | null;
+  escalated_at: string | null;
 }
 
 interface EvidenceFile {
   id: string;
   file_name: string;
-  file_url: string;
+  storage_path: string;
+  // Short-lived URL signed when the evidence is loaded
+  signed_url?: string;
   file_type: string;
   created_at: string;
 }
@@ -42,6 +86,8 @@ interface GovNote {
   note: string;
   created_at: string;
   official_id: string | null;
+  // "internal" notes are only readable by officials; "citizen" notes also by the complainant
+  visibility: string;
 }
 
 const statusConfig = {
@@ -63,6 +109,7 @@ const categoryLabels: Record<string, string> = {
 
 export default function GovPortal() {
   const navigate = useNavigate();
+  const { user, hasRole } = useAuth();
   const [stats, setStats] = useState({
     total: 0,
     pending: 0,
@@ -74,28 +121,38 @@ export default function GovPortal() {
   const [filteredComplaints, setFilteredComplaints] = useState<Complaint[]>([]);
   const [selectedComplaint, setSelectedComplaint] = useState<Complaint | null>(null);
   const [evidenceFiles, setEvidenceFiles] = useState<EvidenceFile[]>([]);
+  // Complaints whose evidence also appears in another complaint
+  const [sharedEvidenceIds, setSharedEvidenceIds] = useState<Set<string>>(new Set());
   const [govNotes, setGovNotes] = useState<GovNote[]>([]);
   const [newNote, setNewNote] = useState("");
+  const [noteVisibleToCitizen, setNoteVisibleToCitizen] = useState(false);
   const [newStatus, setNewStatus] = useState<string>("");
+  const [transitions, setTransitions] = useState<StatusTransition[]>([]);
+  const [transitionText, setTransitionText] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
   const [filterStatus, setFilterStatus] = useState("all");
   const [filterCategory, setFilterCategory] = useState("all");
-  const [userId, setUserId] = useState<string | null>(null);
-  const [aiAnalysis, setAiAnalysis] = useState<any>(null);
+  const [sortBy, setSortBy] = useState("newest");
+  const [criticalOnly, setCriticalOnly] = useState(false);
+  const [queueView, setQueueView] = useState<QueueView>("all");
+  // Stored analyses and urgency override of the open complaint
+  const [aiMetadata, setAiMetadata] = useState<AiMetadata>({});
+  const [urgencyOverride, setUrgencyOverride] = useState("");
   const [loadingAI, setLoadingAI] = useState(false);
   const [draftNote, setDraftNote] = useState("");
+  const [officials, setOfficials] = useState<Official[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [departmentMembers, setDepartmentMembers] = useState<DepartmentMember[]>([]);
+  const [jurisdictions, setJurisdictions] = useState<Jurisdiction[]>([]);
+  const [routingRules, setRoutingRules] = useState<RoutingRule[]>([]);
+  // Bumped after the Departments tab changes anything
+  const [organizationVersion, setOrganizationVersion] = useState(0);
 
   useEffect(() => {
     let channel: ReturnType<typeof supabase.channel> | null = null;
 
-    const checkAccess = async () => {
-      // Get session but don't require it - allow public access
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      if (session) {
-        setUserId(session.user.id);
-      }
-
+    // Access is checked by RequireRole before this page renders
+    const loadComplaints = async () => {
       await fetchComplaints();
 
       // Set up realtime subscription for all complaints
@@ -111,7 +168,14 @@ export default function GovPortal() {
           (payload) => {
             console.log('Realtime update received:', payload);
             
-            if (payload.eventType === 'INSERT') {
+            // Drafts stay hidden; a complaint arrives when finalized, as an update of its draft row
+            if (payload.eventType === 'INSERT' && !(payload.new as Complaint).submitted_at) return;
+            const isNewlySubmitted =
+              payload.eventType === 'UPDATE' &&
+              !!(payload.new as Complaint).submitted_at &&
+              !complaints.some(c => c.id === payload.new.id);
+
+            if (payload.eventType === 'INSERT' || isNewlySubmitted) {
               setComplaints(prev => [payload.new as Complaint, ...prev]);
               setStats(prev => ({
                 ...prev,
@@ -125,6 +189,10 @@ export default function GovPortal() {
               const oldComplaint = complaints.find(c => c.id === payload.old.id);
               const newComplaint = payload.new as Complaint;
               
+              if (newComplaint.is_critical && oldComplaint && !oldComplaint.is_critical) {
+                toast.warning(`Critical complaint flagged by AI triage: ${newComplaint.title}`);
+              }
+
               setComplaints(prev => 
                 prev.map(c => c.id === newComplaint.id ? newComplaint : c)
               );
@@ -167,7 +235,7 @@ export default function GovPortal() {
         .subscribe();
     };
 
-    checkAccess();
+    loadComplaints();
 
     return () => {
       if (channel) {
@@ -176,12 +244,66 @@ export default function GovPortal() {
     };
   }, [navigate, complaints, selectedComplaint]);
 
+  useEffect(() => {
+    const fetchTransitions = async () => {
+      const { data, error } = await supabase
+        .from("complaint_status_transitions")
+        .select("from_status, to_status, required_field");
+
+      if (error) {
+        console.error("Error fetching status transitions:", error);
+        return;
+      }
+      setTransitions(data || []);
+    };
+
+    fetchTransitions();
+  }, []);
+
+  useEffect(() => {
+    const fetchOfficials = async () => {
+      const { data, error } = await supabase.rpc("list_officials");
+
+      if (error) {
+        console.error("Error fetching officials:", error);
+        return;
+      }
+      setOfficials(data || []);
+    };
+
+    fetchOfficials();
+  }, []);
+
+  useEffect(() => {
+    const fetchOrganization = async () => {
+      const [{ data: departmentRows }, { data: memberRows }, { data: jurisdictionRows }, { data: ruleRows }] =
+        await Promise.all([
+          supabase.from("departments").select("*").order("name"),
+          supabase.from("department_members").select("*"),
+          supabase.from("jurisdictions").select("*").order("name"),
+          supabase.from("routing_rules").select("*"),
+        ]);
+
+      setDepartments(departmentRows || []);
+      setDepartmentMembers(memberRows || []);
+      setJurisdictions(jurisdictionRows || []);
+      setRoutingRules(ruleRows || []);
+    };
+
+    fetchOrganization();
+  }, [organizationVersion]);
+
   const fetchComplaints = async () => {
+    // Complaints still uploading evidence are not submitted yet
     const { data: complaintsData } = await supabase
       .from("complaints")
       .select("*")
+      .not("submitted_at", "is", null)
       .order("created_at", { ascending: false });
 
+    const { data: sharedEvidence } = await supabase.rpc("shared_evidence");
+    setSharedEvidenceIds(new Set((sharedEvidence || []).map((match) => match.complaint_id)));
+
     if (complaintsData) {
       setComplaints(complaintsData);
       setFilteredComplaints(complaintsData);
@@ -217,8 +339,30 @@ export default function GovPortal() {
       filtered = filtered.filter(c => c.category === filterCategory);
     }
 
+    if (criticalOnly) {
+      filtered = filtered.filter(c => c.is_critical);
+    }
+
+    if (queueView === "mine") {
+      filtered = filtered.filter(c => c.assigned_to === user?.id);
+    } else if (queueView === "my_departments") {
+      const mine = new Set(departmentMembers.filter(m => m.user_id === user?.id).map(m => m.department_id));
+      filtered = filtered.filter(c => c.department_id && mine.has(c.department_id));
+    } else if (queueView === "unassigned") {
+      filtered = filtered.filter(c => !c.assigned_to);
+    }
+
+    // Critical complaints first, then by urgency; fetched order is newest first
+    if (sortBy === "urgency") {
+      filtered = [...filtered].sort((a, b) =>
+        Number(b.is_critical) - Number(a.is_critical) || (b.urgency_score ?? 0) - (a.urgency_score ?? 0)
+      );
+    } else if (sortBy === "due") {
+      filtered = [...filtered].sort(compareByDueDate);
+    }
+
     setFilteredComplaints(filtered);
-  }, [searchQuery, filterStatus, filterCategory, complaints]);
+  }, [searchQuery, filterStatus, filterCategory, sortBy, criticalOnly, queueView, departmentMembers, user, complaints]);
 
   const fetchComplaintDetails = async (complaintId: string) => {
     const { data: files } = await supabase
@@ -227,7 +371,8 @@ export default function GovPortal() {
       .eq("complaint_id", complaintId)
       .order("created_at", { ascending: false });
     
-    setEvidenceFiles(files || []);
+    const signedUrls = await signEvidenceUrls(files || []);
+    setEvidenceFiles((files || []).map((file) => ({ ...file, signed_url: signedUrls[file.id] })));
 
     const { data: notes } = await supabase
       .from("gov_notes")
@@ -241,26 +386,54 @@ export default function GovPortal() {
   const handleViewDetails = (complaint: Complaint) => {
     setSelectedComplaint(complaint);
     setNewStatus(complaint.status);
-    setAiAnalysis(null);
+    setTransitionText("");
+    setAiMetadata(readAiMetadata(complaint.ai_metadata));
+    setUrgencyOverride("");
     setDraftNote("");
     fetchComplaintDetails(complaint.id);
   };
 
-  const handleAnalyzeWithAI = async () => {
+  const handleOpenRelated = (complaintId: string) => {
+    const related = complaints.find((c) => c.id === complaintId);
+    if (related) handleViewDetails(related);
+  };
+
+  const handleTabChange = (tab: string) => {
+    if (tab === "evidence") {
+      recordEvidenceViews(evidenceFiles.map((file) => file.id));
+    }
+  };
+
+  // Reload the open complaint after its analysis or urgency changed
+  const refreshSelectedComplaint = async (complaintId: string) => {
+    const { data } = await supabase
+      .from("complaints")
+      .select("*")
+      .eq("id", complaintId)
+      .maybeSingle();
+
+    if (data) {
+      setSelectedComplaint(data);
+      setAiMetadata(readAiMetadata(data.ai_metadata));
+    }
+    await fetchComplaints();
+  };
+
+  // Stored analyses are reused by the function unless `force` is set
+  const handleAnalyzeWithAI = async (force = false) => {
     if (!selectedComplaint) return;
     
     setLoadingAI(true);
     try {
       const { data, error } = await supabase.functions.invoke('analyze-complaint', {
-        body: {
-          title: selectedComplaint.title,
-          description: selectedComplaint.description,
-          category: selectedComplaint.category,
-          location: selectedComplaint.location,
-        }
+        body: { complaintId: selectedComplaint.id, force }
       });
 
-      if (error) throw error;
+      if (error) {
+        // Output that failed validation is recorded on the complaint and shown in the AI tab
+        await refreshSelectedComplaint(selectedComplaint.id);
+        throw error;
+      }
 
       if (data.error) {
         if (data.error.includes('Rate limit')) {
@@ -273,8 +446,13 @@ export default function GovPortal() {
         return;
       }
 
-      setAiAnalysis(data.analysis);
-      toast.success('AI analysis completed');
+      if (data.cached) {
+        setAiMetadata(readAiMetadata(data.metadata));
+        toast.success('Showing saved AI analysis');
+      } else {
+        await refreshSelectedComplaint(selectedComplaint.id);
+        toast.success('AI analysis completed');
+      }
     } catch (error) {
       console.error('AI analysis error:', error);
       toast.error('Failed to analyze complaint');
@@ -283,6 +461,31 @@ export default function GovPortal() {
     }
   };
 
+  const handleSetUrgencyOverride = async (score?: number) => {
+    if (!selectedComplaint) return;
+
+    const { error } = await supabase.rpc("set_urgency_override", {
+      _complaint_id: selectedComplaint.id,
+      ...(score !== undefined ? { _score: score } : {}),
+    });
+
+    if (error) {
+      toast.error(error.message || "Failed to update urgency");
+      return;
+    }
+
+    toast.success(score !== undefined ? "Urgency score overridden" : "Urgency score reset to AI analysis");
+    setUrgencyOverride("");
+    await refreshSelectedComplaint(selectedComplaint.id);
+  };
+
+  // Complaint text that looks like instructions to the model makes its output less trustworthy
+  const warnAboutInjection = (flags?: string[]) => {
+    if (flags?.length) {
+      toast.warning(`Review carefully: the complaint text ${describeInjectionFlags(flags)}`);
+    }
+  };
+
   const handleGenerateDraftNote = async () => {
     if (!selectedComplaint) return;
     
@@ -295,6 +498,7 @@ export default function GovPortal() {
             description: selectedComplaint.description,
             category: selectedComplaint.category,
             status: selectedComplaint.status,
+            due_at: selectedComplaint.due_at,
           },
           action: 'draft_note'
         }
@@ -310,6 +514,7 @@ export default function GovPortal() {
       setDraftNote(data.text);
       setNewNote(data.text);
       toast.success('Draft note generated');
+      warnAboutInjection(data.injection_flags);
     } catch (error) {
       console.error('Draft generation error:', error);
       toast.error('Failed to generate draft note');
@@ -342,8 +547,22 @@ export default function GovPortal() {
         return;
       }
 
-      setNewStatus(data.suggested_status);
-      toast.success(`Suggested: ${data.reason}`);
+      const parsed = statusSuggestionSchema.safeParse(data);
+      if (!parsed.success) {
+        toast.error('AI returned an invalid status suggestion');
+        return;
+      }
+
+      const { suggested_status, reason } = parsed.data;
+      const suggestion = statusOptions.find((option) => option.status === suggested_status);
+      if (suggestion && !suggestion.allowed) {
+        toast.warning(`AI suggested "${suggested_status}", which is not allowed: ${suggestion.reason}`);
+        return;
+      }
+
+      setNewStatus(suggested_status);
+      toast.success(`Suggested: ${reason}`);
+      warnAboutInjection(data.injection_flags);
     } catch (error) {
       console.error('Status suggestion error:', error);
       toast.error('Failed to suggest status');
@@ -395,32 +614,47 @@ export default function GovPortal() {
   };
 
   const handleUpdateStatus = async () => {
-    if (!selectedComplaint || !newStatus) return;
+    if (!selectedComplaint || !newStatus || newStatus === selectedComplaint.status) return;
+
+    const requiredField = selectedOption?.requiredField;
+    if (requiredField && !transitionText.trim()) {
+      toast.error(`${transitionFieldLabels[requiredField]} is required`);
+      return;
+    }
 
     const { error } = await supabase
       .from("complaints")
-      .update({ status: newStatus as "pending" | "in_review" | "verified" | "resolved" | "rejected" })
+      .update({
+        status: newStatus as ComplaintStatus,
+        ...(requiredField ? { [requiredField]: transitionText.trim() } : {}),
+      })
       .eq("id", selectedComplaint.id);
 
     if (error) {
-      toast.error("Failed to update status");
+      toast.error(error.message || "Failed to update status");
       return;
     }
 
     toast.success("Status updated successfully");
     await fetchComplaints();
-    setSelectedComplaint({ ...selectedComplaint, status: newStatus });
+    setSelectedComplaint({
+      ...selectedComplaint,
+      status: newStatus,
+      ...(requiredField ? { [requiredField]: transitionText.trim() } : {}),
+    });
+    setTransitionText("");
   };
 
   const handleAddNote = async () => {
-    if (!selectedComplaint || !newNote.trim() || !userId) return;
+    if (!selectedComplaint || !newNote.trim() || !user) return;
 
     const { error } = await supabase
       .from("gov_notes")
       .insert({
         complaint_id: selectedComplaint.id,
-        official_id: userId,
+        official_id: user.id,
         note: newNote.trim(),
+        visibility: noteVisibleToCitizen ? "citizen" : "internal",
       });
 
     if (error) {
@@ -428,11 +662,27 @@ export default function GovPortal() {
       return;
     }
 
-    toast.success("Note added successfully");
+    toast.success(noteVisibleToCitizen ? "Note added and shared with the complainant" : "Internal note added");
     setNewNote("");
+    setNoteVisibleToCitizen(false);
     await fetchComplaintDetails(selectedComplaint.id);
   };
 
+  const statusOptions = selectedComplaint
+    ? getStatusOptions(transitions, selectedComplaint.status as ComplaintStatus)
+    : [];
+  const selectedOption = statusOptions.find((option) => option.status === newStatus);
+  const aiAnalysis = aiMetadata.latest?.analysis;
+
+  // Merged duplicate reports per primary complaint
+  const duplicateCounts = complaints.reduce<Record<string, number>>((counts, c) => {
+    if (c.duplicate_of) counts[c.duplicate_of] = (counts[c.duplicate_of] ?? 0) + 1;
+    return counts;
+  }, {});
+  const openCriticalCount = complaints.filter(
+    (c) => c.is_critical && c.status !== "resolved" && c.status !== "rejected"
+  ).length;
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background">
@@ -497,109 +747,234 @@ export default function GovPortal() {
           </Card>
         </div>
 
-        <Card className="mb-6">
-          <CardContent className="pt-6">
-            <div className="flex items-center gap-4 mb-4">
-              <Button onClick={exportToCSV} variant="outline" size="sm">
-                <Download className="h-4 w-4 mr-2" />
-                Export CSV
-              </Button>
-            </div>
-            <div className="grid md:grid-cols-3 gap-4">
-              <Input
-                placeholder="Search complaints..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-              />
-              <Select value={filterStatus} onValueChange={setFilterStatus}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Filter by status" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Statuses</SelectItem>
-                  <SelectItem value="pending">Pending</SelectItem>
-                  <SelectItem value="in_review">In Review</SelectItem>
-                  <SelectItem value="verified">Verified</SelectItem>
-                  <SelectItem value="resolved">Resolved</SelectItem>
-                  <SelectItem value="rejected">Rejected</SelectItem>
-                </SelectContent>
-              </Select>
-              <Select value={filterCategory} onValueChange={setFilterCategory}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Filter by category" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Categories</SelectItem>
-                  <SelectItem value="bribery">Bribery</SelectItem>
-                  <SelectItem value="misconduct">Misconduct</SelectItem>
-                  <SelectItem value="misuse_of_funds">Misuse of Funds</SelectItem>
-                  <SelectItem value="negligence">Negligence</SelectItem>
-                  <SelectItem value="infrastructure">Infrastructure</SelectItem>
-                  <SelectItem value="other">Other</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </CardContent>
-        </Card>
-
-        <div className="grid gap-4">
-          {filteredComplaints.length === 0 ? (
-            <Card>
-              <CardContent className="py-12 text-center">
-                <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                <p className="text-lg text-muted-foreground">No complaints found</p>
+        <Tabs defaultValue="complaints" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="complaints">Complaints</TabsTrigger>
+            <TabsTrigger value="cases">Cases</TabsTrigger>
+            {hasRole("admin") && <TabsTrigger value="departments">Departments</TabsTrigger>}
+            {hasRole("admin") && <TabsTrigger value="slas">SLAs</TabsTrigger>}
+          </TabsList>
+
+          <TabsContent value="complaints">
+            {openCriticalCount > 0 && (
+              <Alert variant="destructive" className="mb-6">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>
+                  {openCriticalCount} critical complaint{openCriticalCount === 1 ? "" : "s"} need immediate attention
+                </AlertTitle>
+                <AlertDescription className="flex items-center justify-between gap-4">
+                  <span>Flagged by automatic AI triage as critical risk or urgency 9 and above.</span>
+                  <Button variant="outline" size="sm" onClick={() => setCriticalOnly(!criticalOnly)}>
+                    {criticalOnly ? "Show All" : "Show Critical"}
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Card className="mb-6">
+              <CardContent className="pt-6">
+                <div className="flex items-center gap-4 mb-4">
+                  <Button onClick={exportToCSV} variant="outline" size="sm">
+                    <Download className="h-4 w-4 mr-2" />
+                    Export CSV
+                  </Button>
+                </div>
+                <div className="grid md:grid-cols-5 gap-4">
+                  <Input
+                    placeholder="Search complaints..."
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                  />
+                  <Select value={queueView} onValueChange={(value) => setQueueView(value as QueueView)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Queue" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(queueViewLabels) as QueueView[]).map((view) => (
+                        <SelectItem key={view} value={view}>
+                          {queueViewLabels[view]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={filterStatus} onValueChange={setFilterStatus}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Filter by status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Statuses</SelectItem>
+                      <SelectItem value="pending">Pending</SelectItem>
+                      <SelectItem value="in_review">In Review</SelectItem>
+                      <SelectItem value="verified">Verified</SelectItem>
+                      <SelectItem value="resolved">Resolved</SelectItem>
+                      <SelectItem value="rejected">Rejected</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select value={filterCategory} onValueChange={setFilterCategory}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Filter by category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Categories</SelectItem>
+                      <SelectItem value="bribery">Bribery</SelectItem>
+                      <SelectItem value="misconduct">Misconduct</SelectItem>
+                      <SelectItem value="misuse_of_funds">Misuse of Funds</SelectItem>
+                      <SelectItem value="negligence">Negligence</SelectItem>
+                      <SelectItem value="infrastructure">Infrastructure</SelectItem>
+                      <SelectItem value="other">Other</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select value={sortBy} onValueChange={setSortBy}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Sort by" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="newest">Newest First</SelectItem>
+                      <SelectItem value="urgency">Most Urgent First</SelectItem>
+                      <SelectItem value="due">Due Soonest First</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
               </CardContent>
             </Card>
-          ) : (
-            filteredComplaints.map((complaint) => (
-              <Card key={complaint.id} className="hover:shadow-md transition-shadow">
-                <CardHeader>
-                  <div className="flex items-start justify-between">
-                    <div className="space-y-1 flex-1">
-                      <div className="flex items-center gap-2">
-                        <CardTitle className="text-xl">{complaint.title}</CardTitle>
-                        {complaint.is_anonymous && (
-                          <Badge variant="outline" className="text-xs">Anonymous</Badge>
-                        )}
-                      </div>
-                      <CardDescription className="flex items-center gap-4 flex-wrap">
-                        <span className="flex items-center gap-1">
-                          <MapPin className="h-3 w-3" />
-                          {complaint.location}
-                        </span>
-                        <span>•</span>
-                        <span className="flex items-center gap-1">
-                          <Calendar className="h-3 w-3" />
-                          {format(new Date(complaint.created_at), "MMM d, yyyy")}
-                        </span>
-                        {complaint.tracking_code && (
-                          <>
+
+            <div className="grid gap-4">
+              {filteredComplaints.length === 0 ? (
+                <Card>
+                  <CardContent className="py-12 text-center">
+                    <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                    <p className="text-lg text-muted-foreground">No complaints found</p>
+                  </CardContent>
+                </Card>
+              ) : (
+                filteredComplaints.map((complaint) => (
+                  <Card key={complaint.id} className="hover:shadow-md transition-shadow">
+                    <CardHeader>
+                      <div className="flex items-start justify-between">
+                        <div className="space-y-1 flex-1">
+                          <div className="flex items-center gap-2">
+                            <CardTitle className="text-xl">{complaint.title}</CardTitle>
+                            {complaint.is_anonymous && (
+                              <Badge variant="outline" className="text-xs">Anonymous</Badge>
+                            )}
+                            {complaint.is_critical && (
+                              <Badge variant="destructive" className="text-xs">Critical</Badge>
+                            )}
+                            {getSlaState(complaint) === "overdue" && (
+                              <Badge variant="destructive" className="text-xs flex items-center gap-1">
+                                <Clock className="h-3 w-3" />
+                                Overdue
+                              </Badge>
+                            )}
+                            {getSlaState(complaint) === "due_soon" && (
+                              <Badge variant="outline" className="text-xs flex items-center gap-1 border-status-pending">
+                                <Clock className="h-3 w-3" />
+                                Due soon
+                              </Badge>
+                            )}
+                            {complaint.escalated_at && !complaint.closed_at && (
+                              <Badge variant="secondary" className="text-xs">Escalated</Badge>
+                            )}
+                            {complaint.duplicate_of && (
+                              <Badge variant="outline" className="text-xs flex items-center gap-1">
+                                <Copy className="h-3 w-3" />
+                                Duplicate
+                              </Badge>
+                            )}
+                            {duplicateCounts[complaint.id] > 0 && (
+                              <Badge variant="secondary" className="text-xs">
+                                +{duplicateCounts[complaint.id]} duplicate report{duplicateCounts[complaint.id] === 1 ? "" : "s"}
+                              </Badge>
+                            )}
+                            {sharedEvidenceIds.has(complaint.id) && (
+                              <Badge variant="secondary" className="text-xs flex items-center gap-1">
+                                <Link2 className="h-3 w-3" />
+                                Shared evidence
+                              </Badge>
+                            )}
+                          </div>
+                          <CardDescription className="flex items-center gap-4 flex-wrap">
+                            <span className="flex items-center gap-1">
+                              <MapPin className="h-3 w-3" />
+                              {complaint.location}
+                            </span>
                             <span>•</span>
-                            <span className="font-mono text-xs">{complaint.tracking_code}</span>
-                          </>
-                        )}
-                      </CardDescription>
-                    </div>
-                    <Badge className={`${statusConfig[complaint.status as keyof typeof statusConfig]?.color || "bg-muted"} text-white`}>
-                      {statusConfig[complaint.status as keyof typeof statusConfig]?.label || complaint.status}
-                    </Badge>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <div className="flex items-center justify-between">
-                    <Badge variant="outline" className="text-xs">
-                      {categoryLabels[complaint.category] || complaint.category}
-                    </Badge>
-                    <Button variant="default" size="sm" onClick={() => handleViewDetails(complaint)}>
-                      <Eye className="h-4 w-4 mr-2" />
-                      Review
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            ))
+                            <span className="flex items-center gap-1">
+                              <Calendar className="h-3 w-3" />
+                              {format(new Date(complaint.created_at), "MMM d, yyyy")}
+                            </span>
+                            {complaint.tracking_code && (
+                              <>
+                                <span>•</span>
+                                <span className="font-mono text-xs">{complaint.tracking_code}</span>
+                              </>
+                            )}
+                            {complaint.due_at && (
+                              <>
+                                <span>•</span>
+                                <span title={format(new Date(complaint.due_at), "MMM d, yyyy 'at' h:mm a")}>
+                                  {slaLabel(complaint)}
+                                </span>
+                              </>
+                            )}
+                            <span>•</span>
+                            <span>
+                              {departmentName(departments, complaint.department_id)} •{" "}
+                              {officialName(officials.find((o) => o.user_id === complaint.assigned_to))}
+                            </span>
+                          </CardDescription>
+                        </div>
+                        <Badge className={`${statusConfig[complaint.status as keyof typeof statusConfig]?.color || "bg-muted"} text-white`}>
+                          {statusConfig[complaint.status as keyof typeof statusConfig]?.label || complaint.status}
+                        </Badge>
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="flex items-center justify-between">
+                        <Badge variant="outline" className="text-xs">
+                          {categoryLabels[complaint.category] || complaint.category}
+                        </Badge>
+                        <Button variant="default" size="sm" onClick={() => handleViewDetails(complaint)}>
+                          <Eye className="h-4 w-4 mr-2" />
+                          Review
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="cases">
+            <CasesPanel officials={officials} onOpenComplaint={handleOpenRelated} />
+          </TabsContent>
+
+          {hasRole("admin") && (
+            <TabsContent value="departments">
+              <DepartmentsAdmin
+                officials={officials}
+                departments={departments}
+                members={departmentMembers}
+                jurisdictions={jurisdictions}
+                rules={routingRules}
+                onChanged={() => setOrganizationVersion((current) => current + 1)}
+              />
+            </TabsContent>
           )}
-        </div>
+
+          {hasRole("admin") && (
+            <TabsContent value="slas">
+              <SlaPoliciesAdmin />
+            </TabsContent>
+          )}
+        </Tabs>
+
+        {hasRole("admin") && (
+          <div className="mt-8">
+            <TriageQueue />
+          </div>
+        )}
       </div>
 
       <Dialog open={!!selectedComplaint} onOpenChange={(open) => !open && setSelectedComplaint(null)}>
@@ -612,11 +987,14 @@ export default function GovPortal() {
             </DialogDescription>
           </DialogHeader>
 
-          <Tabs defaultValue="details" className="mt-4">
-            <TabsList className="grid w-full grid-cols-5">
+          <Tabs defaultValue="details" className="mt-4" onValueChange={handleTabChange}>
+            <TabsList className="grid w-full grid-cols-8">
               <TabsTrigger value="details">Details</TabsTrigger>
               <TabsTrigger value="evidence">Evidence ({evidenceFiles.length})</TabsTrigger>
+              <TabsTrigger value="related">Related</TabsTrigger>
               <TabsTrigger value="notes">Notes ({govNotes.length})</TabsTrigger>
+              <TabsTrigger value="messages">Messages</TabsTrigger>
+              <TabsTrigger value="timeline">Timeline</TabsTrigger>
               <TabsTrigger value="ai">
                 <Sparkles className="h-3 w-3 mr-1" />
                 AI Analysis
@@ -652,10 +1030,37 @@ export default function GovPortal() {
                   <h3 className="font-semibold mb-1">Urgency Score</h3>
                   <p className="text-sm text-muted-foreground">{selectedComplaint?.urgency_score || "N/A"}</p>
                 </div>
+                <div>
+                  <h3 className="font-semibold mb-1">Risk Level</h3>
+                  <p className="text-sm text-muted-foreground capitalize">{selectedComplaint?.risk_level || "Not triaged"}</p>
+                </div>
+                <div>
+                  <h3 className="font-semibold mb-1">Resolution Due</h3>
+                  <p className="text-sm text-muted-foreground">
+                    {selectedComplaint?.due_at
+                      ? `${format(new Date(selectedComplaint.due_at), "MMM d, yyyy 'at' h:mm a")} (${slaLabel(selectedComplaint)})`
+                      : "No SLA applies"}
+                  </p>
+                </div>
               </div>
+              {selectedComplaint?.rejection_reason && (
+                <div>
+                  <h3 className="font-semibold mb-1">Rejection Reason</h3>
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap">{selectedComplaint.rejection_reason}</p>
+                </div>
+              )}
+              {selectedComplaint?.resolution_summary && (
+                <div>
+                  <h3 className="font-semibold mb-1">Resolution Summary</h3>
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap">{selectedComplaint.resolution_summary}</p>
+                </div>
+              )}
             </TabsContent>
 
             <TabsContent value="evidence" className="space-y-4">
+              {selectedComplaint && (
+                <SharedEvidence complaintId={selectedComplaint.id} onOpenComplaint={handleOpenRelated} />
+              )}
               {evidenceFiles.length === 0 ? (
                 <p className="text-sm text-muted-foreground text-center py-8">No evidence files uploaded</p>
               ) : (
@@ -678,19 +1083,19 @@ export default function GovPortal() {
                               {file.file_type}
                             </Badge>
                           </div>
-                          {file.file_type.startsWith("image/") && (
+                          {file.signed_url && file.file_type.startsWith("image/") && (
                             <div className="mt-2">
                               <img 
-                                src={file.file_url} 
+                                src={file.signed_url} 
                                 alt={file.file_name}
                                 className="max-w-full h-auto rounded border"
                               />
                             </div>
                           )}
-                          {file.file_type.startsWith("video/") && (
+                          {file.signed_url && file.file_type.startsWith("video/") && (
                             <div className="mt-2">
                               <video 
-                                src={file.file_url} 
+                                src={file.signed_url} 
                                 controls
                                 className="max-w-full h-auto rounded border"
                               >
@@ -698,10 +1103,10 @@ export default function GovPortal() {
                               </video>
                             </div>
                           )}
-                          {file.file_type.startsWith("audio/") && (
+                          {file.signed_url && file.file_type.startsWith("audio/") && (
                             <div className="mt-2">
                               <audio 
-                                src={file.file_url} 
+                                src={file.signed_url} 
                                 controls
                                 className="w-full"
                               >
@@ -709,11 +1114,15 @@ export default function GovPortal() {
                               </audio>
                             </div>
                           )}
-                          <Button variant="outline" size="sm" asChild className="w-full">
-                            <a href={file.file_url} target="_blank" rel="noopener noreferrer">
-                              View File
-                            </a>
-                          </Button>
+                          {file.signed_url ? (
+                            <Button variant="outline" size="sm" asChild className="w-full">
+                              <a href={file.signed_url} target="_blank" rel="noopener noreferrer">
+                                View File
+                              </a>
+                            </Button>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">Link unavailable</span>
+                          )}
                         </div>
                       </CardContent>
                     </Card>
@@ -722,15 +1131,31 @@ export default function GovPortal() {
               )}
             </TabsContent>
 
+            <TabsContent value="related" className="space-y-4">
+              {selectedComplaint && (
+                <RelatedComplaints
+                  complaintId={selectedComplaint.id}
+                  duplicateOf={selectedComplaint.duplicate_of}
+                  onOpenComplaint={handleOpenRelated}
+                  onChanged={() => refreshSelectedComplaint(selectedComplaint.id)}
+                />
+              )}
+            </TabsContent>
+
             <TabsContent value="notes" className="space-y-4">
               <div className="space-y-3">
                 {govNotes.map((note) => (
                   <Card key={note.id}>
                     <CardContent className="p-4">
                       <p className="text-sm mb-2">{note.note}</p>
-                      <p className="text-xs text-muted-foreground">
-                        {format(new Date(note.created_at), "MMM d, yyyy 'at' h:mm a")}
-                      </p>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="text-xs">
+                          {note.visibility === "citizen" ? "Visible to complainant" : "Internal"}
+                        </Badge>
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(note.created_at), "MMM d, yyyy 'at' h:mm a")}
+                        </p>
+                      </div>
                     </CardContent>
                   </Card>
                 ))}
@@ -762,6 +1187,16 @@ export default function GovPortal() {
                     onChange={(e) => setNewNote(e.target.value)}
                     rows={4}
                   />
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="note-visible-to-citizen"
+                      checked={noteVisibleToCitizen}
+                      onCheckedChange={setNoteVisibleToCitizen}
+                    />
+                    <Label htmlFor="note-visible-to-citizen" className="text-sm font-normal">
+                      Visible to the complainant
+                    </Label>
+                  </div>
                   <Button onClick={handleAddNote} disabled={!newNote.trim()}>
                     <MessageSquare className="h-4 w-4 mr-2" />
                     Add Note
@@ -770,7 +1205,35 @@ export default function GovPortal() {
               </Card>
             </TabsContent>
 
+            <TabsContent value="messages" className="space-y-4">
+              {selectedComplaint && <ComplaintMessages complaintId={selectedComplaint.id} viewer="official" />}
+            </TabsContent>
+
+            <TabsContent value="timeline" className="space-y-4">
+              {selectedComplaint && <ComplaintTimeline complaintId={selectedComplaint.id} showAccessEvents />}
+            </TabsContent>
+
             <TabsContent value="ai" className="space-y-4">
+              {analysisFailed(aiMetadata) && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>AI analysis failed</AlertTitle>
+                  <AlertDescription>
+                    {aiMetadata.last_failure?.error}. No analysis was stored
+                    {aiAnalysis ? "; the previous analysis is shown below." : "."}
+                  </AlertDescription>
+                </Alert>
+              )}
+              {aiAnalysis?.injection_flags?.length ? (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Possible prompt injection</AlertTitle>
+                  <AlertDescription>
+                    The complaint text {describeInjectionFlags(aiAnalysis.injection_flags)}. The urgency score and risk
+                    level below were not applied automatically; review the complaint before relying on them.
+                  </AlertDescription>
+                </Alert>
+              ) : null}
               {!aiAnalysis ? (
                 <Card>
                   <CardContent className="py-12 text-center">
@@ -779,7 +1242,7 @@ export default function GovPortal() {
                     <p className="text-sm text-muted-foreground mb-6">
                       Get instant insights, urgency scoring, and recommended actions
                     </p>
-                    <Button onClick={handleAnalyzeWithAI} disabled={loadingAI} size="lg">
+                    <Button onClick={() => handleAnalyzeWithAI()} disabled={loadingAI} size="lg">
                       {loadingAI ? (
                         <>
                           <Loader2 className="h-5 w-5 mr-2 animate-spin" />
@@ -802,6 +1265,12 @@ export default function GovPortal() {
                         <TrendingUpIcon className="h-5 w-5 text-primary" />
                         AI Analysis Results
                       </CardTitle>
+                      {aiMetadata.latest && (
+                        <CardDescription>
+                          Analyzed {format(new Date(aiMetadata.latest.analyzed_at), "MMM d, yyyy 'at' h:mm a")} with{" "}
+                          {aiMetadata.latest.model} (prompt {aiMetadata.latest.prompt_version})
+                        </CardDescription>
+                      )}
                     </CardHeader>
                     <CardContent className="space-y-4">
                       <div className="grid grid-cols-2 gap-4">
@@ -861,9 +1330,27 @@ export default function GovPortal() {
                         </div>
                       )}
 
+                      {aiMetadata.history && aiMetadata.history.length > 0 && (
+                        <div>
+                          <h4 className="text-sm font-semibold mb-2">Previous Analyses</h4>
+                          <div className="space-y-1">
+                            {aiMetadata.history.map((entry, i) => (
+                              <div key={i} className="flex items-center justify-between text-xs text-muted-foreground">
+                                <span>
+                                  {format(new Date(entry.analyzed_at), "MMM d, yyyy h:mm a")} · {entry.model} (prompt {entry.prompt_version})
+                                </span>
+                                <span>
+                                  Urgency {entry.analysis.urgency_score} · {entry.analysis.risk_level}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
                       <Button 
                         variant="outline" 
-                        onClick={handleAnalyzeWithAI} 
+                        onClick={() => handleAnalyzeWithAI(true)} 
                         disabled={loadingAI}
                         className="w-full"
                       >
@@ -912,18 +1399,99 @@ export default function GovPortal() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="pending">Pending</SelectItem>
-                      <SelectItem value="in_review">In Review</SelectItem>
-                      <SelectItem value="verified">Verified</SelectItem>
-                      <SelectItem value="resolved">Resolved</SelectItem>
-                      <SelectItem value="rejected">Rejected</SelectItem>
+                      {statusOptions.map((option) => (
+                        <SelectItem key={option.status} value={option.status} disabled={!option.allowed}>
+                          {statusConfig[option.status].label}
+                          {option.reason && (
+                            <span className="ml-2 text-xs text-muted-foreground">— {option.reason}</span>
+                          )}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
-                  <Button onClick={handleUpdateStatus} className="w-full">
+                  {selectedOption?.requiredField && (
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-semibold">
+                        {transitionFieldLabels[selectedOption.requiredField]} (required)
+                      </h4>
+                      <Textarea
+                        placeholder={`Enter the ${transitionFieldLabels[selectedOption.requiredField].toLowerCase()}...`}
+                        value={transitionText}
+                        onChange={(e) => setTransitionText(e.target.value)}
+                        rows={3}
+                      />
+                    </div>
+                  )}
+                  <Button
+                    onClick={handleUpdateStatus}
+                    className="w-full"
+                    disabled={
+                      newStatus === selectedComplaint?.status ||
+                      (!!selectedOption?.requiredField && !transitionText.trim())
+                    }
+                  >
                     Update Status
                   </Button>
                 </CardContent>
               </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Urgency</CardTitle>
+                  <CardDescription>
+                    Current score {selectedComplaint?.urgency_score ?? "N/A"} / 10 —{" "}
+                    {aiMetadata.urgency_override
+                      ? `overridden ${format(new Date(aiMetadata.urgency_override.set_at), "MMM d, yyyy")}`
+                      : aiAnalysis
+                        ? "from AI analysis"
+                        : "default"}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <Select value={urgencyOverride} onValueChange={setUrgencyOverride}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Override urgency score" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: 10 }, (_, i) => i + 1).map((score) => (
+                        <SelectItem key={score} value={String(score)}>
+                          {score}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex gap-2">
+                    <Button
+                      className="flex-1"
+                      onClick={() => handleSetUrgencyOverride(Number(urgencyOverride))}
+                      disabled={!urgencyOverride}
+                    >
+                      Override Urgency
+                    </Button>
+                    {aiMetadata.urgency_override && (
+                      <Button variant="outline" onClick={() => handleSetUrgencyOverride()}>
+                        Use AI Score
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+
+              {selectedComplaint && (
+                <ComplaintAssignment
+                  complaintId={selectedComplaint.id}
+                  assignedTo={selectedComplaint.assigned_to}
+                  departmentId={selectedComplaint.department_id}
+                  officials={officials}
+                  departments={departments}
+                  members={departmentMembers}
+                  onChanged={() => refreshSelectedComplaint(selectedComplaint.id)}
+                />
+              )}
+
+              {selectedComplaint && (
+                <CaseMembership complaintId={selectedComplaint.id} complaintTitle={selectedComplaint.title} />
+              )}
             </TabsContent>
           </Tabs>
         </DialogContent>
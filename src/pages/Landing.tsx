@@ -35,6 +35,11 @@ export default function Landing() {
                   Verify Complaint
                 </Button>
               </Link>
+              <Link to="/transparency">
+                <Button size="lg" variant="outline" className="w-full sm:w-auto bg-transparent border-primary-foreground text-primary-foreground hover:bg-primary-foreground hover:text-primary">
+                  Transparency Report
+                </Button>
+              </Link>
             </div>
             <div className="mt-8 pt-8 border-t border-primary-foreground/20">
               <p className="text-sm mb-3 text-primary-foreground/80">Government Officials</p>
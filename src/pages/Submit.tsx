@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -10,12 +10,18 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { toast } from "sonner";
 import { Navbar } from "@/components/Navbar";
-import { Upload, FileText, Loader2, ShieldAlert, MapPin } from "lucide-react";
+import { Upload, FileText, Loader2, ShieldAlert, MapPin, ShieldCheck, X } from "lucide-react";
 import { z } from "zod";
 import { TrackingCodeDialog } from "@/components/TrackingCodeDialog";
-import { User } from "@supabase/supabase-js";
+import type { TrackingCredentials } from "@/lib/tracking";
 import { LocationMap } from "@/components/LocationMap";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { sha256Hex } from "@/lib/hash";
+import { useAuth } from "@/hooks/use-auth";
+import { sanitizeFile, SanitizedFile } from "@/lib/sanitize";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { MAX_EVIDENCE_SIZE_BYTES, ResumableUpload, uploadResumable, validateEvidenceFile } from "@/lib/upload";
 
 const complaintSchema = z.object({
   title: z.string().min(10, "Title must be at least 10 characters").max(200, "Title must be less than 200 characters"),
@@ -24,15 +30,45 @@ const complaintSchema = z.object({
   location: z.string().min(3, "Location is required"),
 });
 
+interface DraftComplaint {
+  id: string;
+  trackingCode: string | null;
+  // Anonymous complaints only; returned once by submit_anonymous_complaint
+  trackingSecret: string | null;
+  // Private storage folder the draft's evidence is uploaded to
+  uploadPrefix: string;
+  evidenceHashes: string[];
+  originalHashes: string[];
+}
+
+// Sanitized evidence with the SHA-256 it is committed and stored under
+interface EvidenceItem extends SanitizedFile {
+  hash: string;
+}
+
+interface FileUploadState {
+  status: "uploading" | "done" | "failed";
+  uploaded: number;
+  error?: string;
+}
+
 export default function Submit() {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const isAnonymous = searchParams.get("anonymous") === "true";
   
   const [loading, setLoading] = useState(false);
-  const [user, setUser] = useState<User | null>(null);
-  const [files, setFiles] = useState<File[]>([]);
-  const [trackingCode, setTrackingCode] = useState("");
+  const { user, loading: authLoading } = useAuth();
+  const [files, setFiles] = useState<EvidenceItem[]>([]);
+  const [sanitizing, setSanitizing] = useState(false);
+  const [recordOriginalHashes, setRecordOriginalHashes] = useState(false);
+  // Anonymous reporters confirm files whose metadata could not all be removed
+  const [uncheckedConfirmed, setUncheckedConfirmed] = useState(false);
+  // Complaint created but not yet finalized; evidence uploads resume against it
+  const [draft, setDraft] = useState<DraftComplaint | null>(null);
+  const [uploadStates, setUploadStates] = useState<Record<number, FileUploadState>>({});
+  const uploads = useRef<Record<number, ResumableUpload>>({});
+  const [trackingCredentials, setTrackingCredentials] = useState<TrackingCredentials>({ code: "", secret: "" });
   const [showTrackingDialog, setShowTrackingDialog] = useState(false);
   const [formData, setFormData] = useState({
     title: "",
@@ -75,102 +111,217 @@ export default function Submit() {
   }, [formData.location]);
 
   useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      if (!session && !isAnonymous) {
-        toast.error("Please sign in to submit a complaint");
-        navigate("/auth");
-      }
-      setUser(session?.user ?? null);
-    });
-  }, [navigate, isAnonymous]);
+    if (authLoading) return;
+    if (!user && !isAnonymous) {
+      toast.error("Please sign in to submit a complaint");
+      navigate("/auth", { state: { from: "/submit" } });
+    }
+  }, [authLoading, user, navigate, isAnonymous]);
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const calculateFileHash = async (file: File): Promise<string> => {
+    const buffer = await file.arrayBuffer();
+    return sha256Hex(buffer);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
       const selectedFiles = Array.from(e.target.files);
+      e.target.value = "";
       if (selectedFiles.length + files.length > 5) {
         toast.error("Maximum 5 files allowed");
         return;
       }
-      setFiles([...files, ...selectedFiles]);
+
+      const invalid = selectedFiles.map(validateEvidenceFile).find(Boolean);
+      if (invalid) {
+        toast.error(invalid);
+        return;
+      }
+
+      // Metadata is stripped as soon as files are picked so the reporter can review it
+      setSanitizing(true);
+      try {
+        const sanitized = await Promise.all(selectedFiles.map(sanitizeFile));
+        const hashed = await Promise.all(
+          sanitized.map(async (item) => ({ ...item, hash: await calculateFileHash(item.file) }))
+        );
+
+        // Storage is keyed by hash, so the same file can only be attached once
+        const seen = new Set(files.map((item) => item.hash));
+        const unique = hashed.filter((item) => {
+          if (seen.has(item.hash)) return false;
+          seen.add(item.hash);
+          return true;
+        });
+        if (unique.length < hashed.length) {
+          toast.warning("Identical files were skipped; each file is attached once");
+        }
+        setFiles((prev) => [...prev, ...unique]);
+        if (unique.some((item) => !item.supported)) setUncheckedConfirmed(false);
+      } catch (error) {
+        console.error("Error removing file metadata:", error);
+        toast.error("Could not process the selected files");
+      } finally {
+        setSanitizing(false);
+      }
     }
   };
 
-  const calculateFileHash = async (file: File): Promise<string> => {
-    const buffer = await file.arrayBuffer();
-    const hashBuffer = await crypto.subtle.digest("SHA-256", buffer);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
+  const handleRemoveFile = (idx: number) => {
+    setFiles((prev) => prev.filter((_, i) => i !== idx));
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setLoading(true);
+  const updateUploadState = (idx: number, state: FileUploadState) => {
+    setUploadStates((prev) => ({ ...prev, [idx]: state }));
+  };
 
-    try {
-      const validated = complaintSchema.parse(formData);
+  // Uploads every file not yet stored and records it. Returns how many failed.
+  const uploadEvidence = async (complaint: DraftComplaint) => {
+    let failures = 0;
+
+    // One file at a time keeps slow connections from stalling every upload at once
+    for (const [idx, { file }] of files.entries()) {
+      if (uploadStates[idx]?.status === "done") continue;
+
+      const upload = (uploads.current[idx] ??= {
+        // Content-addressed: the name stays in evidence_files, never in the path
+        path: `${complaint.uploadPrefix}/${complaint.evidenceHashes[idx]}`,
+        file,
+        uploaded: 0,
+      });
 
-      // Create complaint (anonymous or authenticated)
+      try {
+        updateUploadState(idx, { status: "uploading", uploaded: upload.uploaded });
+        await uploadResumable(upload, (uploaded) => updateUploadState(idx, { status: "uploading", uploaded }));
+
+        const { error } = await supabase.from("evidence_files").insert({
+          complaint_id: complaint.id,
+          storage_path: upload.path,
+          file_name: file.name,
+          file_type: file.type,
+          file_size: file.size,
+          file_hash: complaint.evidenceHashes[idx],
+          original_file_hash: complaint.originalHashes[idx] ?? null,
+        });
+        if (error) throw error;
+
+        updateUploadState(idx, { status: "done", uploaded: file.size });
+      } catch (error) {
+        console.error(`Error uploading ${file.name}:`, error);
+        failures++;
+        updateUploadState(idx, {
+          status: "failed",
+          uploaded: upload.uploaded,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    return failures;
+  };
+
+  const createComplaint = async (): Promise<DraftComplaint> => {
+    const validated = complaintSchema.parse(formData);
+
+    // Evidence hashes are part of the complaint hash, so they are committed at insert.
+    // They cover the sanitized files, which are what gets stored.
+    const evidenceHashes = files.map((item) => item.hash);
+    const originalHashes = recordOriginalHashes
+      ? await Promise.all(files.map((item) => calculateFileHash(item.original)))
+      : [];
+
+    // Create complaint. complaint_hash is set by the database. Anonymous
+    // complaints are not readable afterwards, so they are submitted through a
+    // function that hands back the tracking code and secret.
+    if (isAnonymous) {
       const { data: complaint, error: complaintError } = await supabase
-        .from("complaints")
-        .insert({
-          user_id: isAnonymous ? null : user?.id,
-          is_anonymous: isAnonymous,
-          title: validated.title,
-          description: validated.description,
-          category: validated.category,
-          location: validated.location,
-          latitude: formData.latitude,
-          longitude: formData.longitude,
-          urgency_score: 5, // Default medium priority
+        .rpc("submit_anonymous_complaint", {
+          _title: validated.title,
+          _description: validated.description,
+          _category: validated.category,
+          _location: validated.location,
+          _latitude: formData.latitude,
+          _longitude: formData.longitude,
+          _evidence_hashes: evidenceHashes,
         })
-        .select()
         .single();
 
       if (complaintError) throw complaintError;
 
-      // Upload files and create evidence records
-      const evidenceHashes: string[] = [];
-      for (const file of files) {
-        const fileHash = await calculateFileHash(file);
-        evidenceHashes.push(fileHash);
+      return {
+        id: complaint.id,
+        trackingCode: complaint.tracking_code,
+        trackingSecret: complaint.tracking_secret,
+        uploadPrefix: complaint.upload_prefix,
+        evidenceHashes,
+        originalHashes,
+      };
+    }
 
-        const userId = isAnonymous ? "anonymous" : user?.id;
-        const filePath = `${userId}/${complaint.id}/${file.name}`;
-        const { error: uploadError } = await supabase.storage
-          .from("evidence")
-          .upload(filePath, file);
+    const { data: complaint, error: complaintError } = await supabase
+      .from("complaints")
+      .insert({
+        user_id: user?.id,
+        is_anonymous: false,
+        title: validated.title,
+        description: validated.description,
+        category: validated.category,
+        location: validated.location,
+        latitude: formData.latitude,
+        longitude: formData.longitude,
+        evidence_hashes: evidenceHashes,
+        urgency_score: 5, // Default medium priority
+      })
+      .select("id, upload_prefix")
+      .single();
 
-        if (uploadError) throw uploadError;
+    if (complaintError) throw complaintError;
 
-        const { data: { publicUrl } } = supabase.storage
-          .from("evidence")
-          .getPublicUrl(filePath);
+    return {
+      id: complaint.id,
+      trackingCode: null,
+      trackingSecret: null,
+      uploadPrefix: complaint.upload_prefix,
+      evidenceHashes,
+      originalHashes,
+    };
+  };
 
-        await supabase.from("evidence_files").insert({
-          complaint_id: complaint.id,
-          file_url: publicUrl,
-          file_name: file.name,
-          file_type: file.type,
-          file_size: file.size,
-          file_hash: fileHash,
-        });
+  // Files that may still carry GPS positions or device details
+  const uncheckedFiles = files.filter((item) => !item.supported);
+  const needsUncheckedConfirmation = isAnonymous && !draft && uncheckedFiles.length > 0 && !uncheckedConfirmed;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (needsUncheckedConfirmation) {
+      toast.error("Confirm that the files whose metadata could not be removed do not identify you");
+      return;
+    }
+    setLoading(true);
+
+    try {
+      // A retry after failed uploads reuses the complaint already created
+      let complaint = draft;
+      if (!complaint) {
+        complaint = await createComplaint();
+        setDraft(complaint);
       }
 
-      // Update complaint with evidence hashes
-      await supabase
-        .from("complaints")
-        .update({ evidence_hashes: evidenceHashes })
-        .eq("id", complaint.id);
-
-      // Create audit log
-      await supabase.from("public_logs").insert({
-        complaint_id: complaint.id,
-        metadata_hash: evidenceHashes.join(","),
-        action: "complaint_created",
-      });
+      const failures = await uploadEvidence(complaint);
+      if (failures > 0) {
+        toast.error(
+          `${failures} file${failures === 1 ? "" : "s"} could not be uploaded. Check your connection and retry — completed uploads are kept.`
+        );
+        return;
+      }
 
-      if (isAnonymous && complaint.tracking_code) {
-        setTrackingCode(complaint.tracking_code);
+      // The complaint only counts as submitted once the database confirms all evidence is stored.
+      // Ledger entries for the complaint and its evidence are appended by database triggers.
+      const { error: finalizeError } = await supabase.rpc("finalize_complaint", { _complaint_id: complaint.id });
+      if (finalizeError) throw finalizeError;
+
+      if (isAnonymous && complaint.trackingCode && complaint.trackingSecret) {
+        setTrackingCredentials({ code: complaint.trackingCode, secret: complaint.trackingSecret });
         setShowTrackingDialog(true);
       } else {
         // Show complaint ID for authenticated users
@@ -207,7 +358,7 @@ export default function Submit() {
             </CardTitle>
             <CardDescription>
               {isAnonymous
-                ? "Report corruption anonymously. You'll receive a tracking code to monitor your complaint."
+                ? "Report corruption anonymously. You'll receive a tracking code and secret to monitor your complaint."
                 : "Report corruption or misconduct. All information is securely stored and verifiable."}
             </CardDescription>
           </CardHeader>
@@ -216,7 +367,7 @@ export default function Submit() {
               <Alert className="bg-primary/5 border-primary/20">
                 <ShieldAlert className="h-4 w-4 text-primary" />
                 <AlertDescription className="text-sm">
-                  Your identity will remain completely anonymous. After submission, you'll receive a unique tracking code to check your complaint status.
+                  Your identity will remain completely anonymous. After submission, you'll receive a unique tracking code and a secret to check your complaint status.
                 </AlertDescription>
               </Alert>
             </div>
@@ -341,34 +492,129 @@ export default function Submit() {
                     onChange={handleFileChange}
                     className="hidden"
                     id="file-upload"
+                    disabled={!!draft}
                   />
-                  <Label htmlFor="file-upload" className="cursor-pointer">
+                  <Label htmlFor="file-upload" className={draft ? "pointer-events-none opacity-50" : "cursor-pointer"}>
                     <Button type="button" variant="outline" asChild>
                       <span>Choose Files</span>
                     </Button>
                   </Label>
                   <p className="text-xs text-muted-foreground mt-2">
-                    Supported: Images, Videos, Audio, and PDF files
+                    Supported: Images, Videos, Audio, and PDF files up to {MAX_EVIDENCE_SIZE_BYTES / (1024 * 1024)} MB each
                   </p>
+                  {sanitizing && (
+                    <p className="text-xs text-muted-foreground mt-4 flex items-center justify-center gap-2">
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                      Removing identifying metadata...
+                    </p>
+                  )}
                   {files.length > 0 && (
-                    <div className="mt-4 space-y-2">
-                      {files.map((file, idx) => (
-                        <div key={idx} className="flex items-center gap-2 text-sm text-muted-foreground">
-                          <FileText className="h-4 w-4" />
-                          {file.name}
+                    <div className="mt-4 space-y-3 text-left">
+                      {files.map((item, idx) => {
+                        const uploadState = uploadStates[idx];
+
+                        return (
+                          <div key={idx} className="rounded-md border p-3 space-y-1">
+                            <div className="flex items-center justify-between gap-2 text-sm">
+                              <span className="flex items-center gap-2 font-medium">
+                                <FileText className="h-4 w-4" />
+                                {item.file.name}
+                              </span>
+                              {!draft && (
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-6 w-6"
+                                  onClick={() => handleRemoveFile(idx)}
+                                >
+                                  <X className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                            {uploadState && (
+                              <div className="space-y-1">
+                                <Progress
+                                  value={item.file.size > 0 ? (uploadState.uploaded / item.file.size) * 100 : 100}
+                                  className="h-2"
+                                />
+                                <p
+                                  className={`text-xs ${
+                                    uploadState.status === "failed" ? "text-destructive" : "text-muted-foreground"
+                                  }`}
+                                >
+                                  {uploadState.status === "done" && "Uploaded"}
+                                  {uploadState.status === "uploading" &&
+                                    `Uploading ${Math.round((uploadState.uploaded / Math.max(item.file.size, 1)) * 100)}%`}
+                                  {uploadState.status === "failed" && `Upload failed: ${uploadState.error}`}
+                                </p>
+                              </div>
+                            )}
+                            {!item.supported ? (
+                              <p className={`text-xs ${isAnonymous ? "text-destructive" : "text-muted-foreground"}`}>
+                                {item.removed.length > 0
+                                  ? "Parts of this file could not be checked for metadata."
+                                  : "Metadata cannot be checked for this file type."}{" "}
+                                It may contain a GPS location or device details. Make sure it does not identify you.
+                              </p>
+                            ) : item.removed.length === 0 && (
+                              <p className="text-xs text-muted-foreground">No identifying metadata found</p>
+                            )}
+                            {item.removed.length > 0 && (
+                              <div className="text-xs text-muted-foreground">
+                                <p className="flex items-center gap-1 text-foreground">
+                                  <ShieldCheck className="h-3 w-3 text-primary" />
+                                  Removed before upload:
+                                </p>
+                                <ul className="list-disc ml-5">
+                                  {item.removed.map((entry, i) => (
+                                    <li key={i} className="break-all">{entry}</li>
+                                  ))}
+                                </ul>
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+                      {isAnonymous && uncheckedFiles.length > 0 && (
+                        <div className="flex items-start gap-2">
+                          <Checkbox
+                            id="confirm-unchecked-files"
+                            checked={uncheckedConfirmed}
+                            disabled={!!draft}
+                            onCheckedChange={(checked) => setUncheckedConfirmed(checked === true)}
+                          />
+                          <Label htmlFor="confirm-unchecked-files" className="text-xs font-normal leading-snug">
+                            I checked that {uncheckedFiles.length === 1 ? "the file marked above does" : "the files marked above do"}{" "}
+                            not reveal who I am or where I was, although not all of their metadata could be removed.
+                          </Label>
                         </div>
-                      ))}
+                      )}
+                      <div className="flex items-start gap-2">
+                        <Checkbox
+                          id="record-original-hashes"
+                          checked={recordOriginalHashes}
+                          disabled={!!draft}
+                          onCheckedChange={(checked) => setRecordOriginalHashes(checked === true)}
+                        />
+                        <Label htmlFor="record-original-hashes" className="text-xs font-normal leading-snug">
+                          Also record the hash of each original file, so you can later prove you hold the
+                          unedited copy. The hash does not reveal the removed metadata.
+                        </Label>
+                      </div>
                     </div>
                   )}
                 </div>
               </div>
 
-              <Button type="submit" className="w-full" disabled={loading}>
+              <Button type="submit" className="w-full" disabled={loading || sanitizing || needsUncheckedConfirmation}>
                 {loading ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Submitting...
+                    {draft ? "Uploading evidence..." : "Submitting..."}
                   </>
+                ) : draft ? (
+                  "Retry Upload"
                 ) : (
                   "Submit Complaint"
                 )}
@@ -380,7 +626,7 @@ export default function Submit() {
 
       <TrackingCodeDialog
         open={showTrackingDialog}
-        trackingCode={trackingCode}
+        credentials={trackingCredentials}
         onClose={handleDialogClose}
       />
     </div>
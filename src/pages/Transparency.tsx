@@ -0,0 +1,331 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Navbar } from "@/components/Navbar";
+import { ComplaintHeatmap } from "@/components/ComplaintHeatmap";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line } from "recharts";
+import { AlertCircle, CheckCircle2, Clock, FileText, Loader2, ShieldCheck, TrendingUp } from "lucide-react";
+import { format } from "date-fns";
+import { statusLabels } from "@/lib/complaint-status";
+import { Database } from "@/integrations/supabase/types";
+
+type TransparencyComplaint = Database["public"]["Views"]["transparency_complaints"]["Row"];
+
+const categoryLabels: Record<string, string> = {
+  bribery: "Bribery",
+  misconduct: "Misconduct",
+  misuse_of_funds: "Misuse of Funds",
+  negligence: "Negligence",
+  infrastructure: "Infrastructure",
+  other: "Other",
+};
+
+const statusColors: Record<string, string> = {
+  pending: "bg-status-pending",
+  in_review: "bg-status-in-review",
+  verified: "bg-status-verified",
+  resolved: "bg-status-resolved",
+  rejected: "bg-status-rejected",
+};
+
+const COLORS = ['hsl(217 91% 35%)', 'hsl(158 64% 52%)', 'hsl(38 92% 50%)', 'hsl(0 84% 60%)', 'hsl(262 83% 58%)', 'hsl(142 76% 36%)'];
+
+const countBy = (complaints: TransparencyComplaint[], key: (c: TransparencyComplaint) => string) =>
+  complaints.reduce((acc, complaint) => {
+    const value = key(complaint);
+    acc[value] = (acc[value] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+
+export default function Transparency() {
+  const [complaints, setComplaints] = useState<TransparencyComplaint[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchComplaints = async () => {
+      // Redacted rows only: no titles, descriptions, reporters or exact locations
+      const { data, error } = await supabase
+        .from("transparency_complaints")
+        .select("*")
+        .order("reported_on", { ascending: false });
+
+      if (error) {
+        console.error("Error fetching transparency data:", error);
+      } else {
+        setComplaints(data || []);
+      }
+      setLoading(false);
+    };
+
+    fetchComplaints();
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="container py-8 flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </div>
+    );
+  }
+
+  const statusData = countBy(complaints, (c) => c.status || "pending");
+  const categoryData = countBy(complaints, (c) => c.category || "other");
+  const closed = (statusData.resolved || 0) + (statusData.rejected || 0);
+  const resolutionRate = closed > 0 ? Math.round(((statusData.resolved || 0) / closed) * 100) : 0;
+
+  const chartCategoryData = Object.entries(categoryData).map(([category, count]) => ({
+    name: categoryLabels[category] || category,
+    count,
+  }));
+
+  const chartStatusData = Object.entries(statusData).map(([status, value]) => ({
+    name: statusLabels[status as keyof typeof statusLabels] || status,
+    value,
+  }));
+
+  // Complaints per month, oldest first
+  const monthlyData = countBy(
+    [...complaints].reverse().filter((c) => c.reported_on),
+    (c) => format(new Date(c.reported_on!), "MMM yyyy")
+  );
+  const chartTimelineData = Object.entries(monthlyData)
+    .map(([month, count]) => ({ month, count }))
+    .slice(-12);
+
+  const complaintsWithArea = complaints.filter((c) => c.approx_latitude !== null && c.approx_longitude !== null);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-foreground mb-2">Public Transparency Report</h1>
+          <p className="text-muted-foreground">
+            How reported complaints are being handled, without revealing who reported them
+          </p>
+        </div>
+
+        <Alert className="mb-8">
+          <ShieldCheck className="h-4 w-4" />
+          <AlertDescription>
+            Only the category, status, dates and an approximate area (about 10 km) of each complaint are published.
+            Complaint details, evidence and reporter identities are visible only to the reporter and assigned officials.
+          </AlertDescription>
+        </Alert>
+
+        {/* Summary Cards */}
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4 mb-8">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Total Complaints</CardTitle>
+              <FileText className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{complaints.length}</div>
+              <p className="text-xs text-muted-foreground">Reported to date</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Awaiting Action</CardTitle>
+              <Clock className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{statusData.pending || 0}</div>
+              <p className="text-xs text-muted-foreground">Not yet reviewed</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Under Investigation</CardTitle>
+              <AlertCircle className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{(statusData.in_review || 0) + (statusData.verified || 0)}</div>
+              <p className="text-xs text-muted-foreground">In review or verified</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Resolution Rate</CardTitle>
+              <CheckCircle2 className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{resolutionRate}%</div>
+              <p className="text-xs text-muted-foreground">
+                {statusData.resolved || 0} resolved of {closed} closed
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Tabs defaultValue="overview" className="space-y-4">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="map">Areas</TabsTrigger>
+            <TabsTrigger value="records">Records</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="overview" className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Complaints by Category</CardTitle>
+                  <CardDescription>Distribution across issue types</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ResponsiveContainer width="100%" height={300}>
+                    <BarChart data={chartCategoryData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="name" angle={-45} textAnchor="end" height={100} />
+                      <YAxis allowDecimals={false} />
+                      <Tooltip />
+                      <Bar dataKey="count" fill="hsl(var(--primary))" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Status Distribution</CardTitle>
+                  <CardDescription>Where complaints currently stand</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ResponsiveContainer width="100%" height={300}>
+                    <PieChart>
+                      <Pie
+                        data={chartStatusData}
+                        cx="50%"
+                        cy="50%"
+                        labelLine={false}
+                        label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
+                        outerRadius={80}
+                        dataKey="value"
+                      >
+                        {chartStatusData.map((entry, index) => (
+                          <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                        ))}
+                      </Pie>
+                      <Tooltip />
+                    </PieChart>
+                  </ResponsiveContainer>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <TrendingUp className="h-5 w-5" />
+                  Complaints per Month
+                </CardTitle>
+                <CardDescription>Submissions over the last 12 months with activity</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={300}>
+                  <LineChart data={chartTimelineData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="month" />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip />
+                    <Line type="monotone" dataKey="count" stroke="hsl(var(--primary))" strokeWidth={2} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="map" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Approximate Areas</CardTitle>
+                <CardDescription>Locations are rounded to roughly 10 km</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {complaintsWithArea.length > 0 ? (
+                  <ComplaintHeatmap
+                    complaints={complaintsWithArea.map((c) => ({
+                      id: c.ref!,
+                      latitude: c.approx_latitude!,
+                      longitude: c.approx_longitude!,
+                      title: categoryLabels[c.category || "other"],
+                      category: c.category || "other",
+                      status: c.status || "pending",
+                    }))}
+                  />
+                ) : (
+                  <Alert>
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>No complaints with a location have been reported yet.</AlertDescription>
+                  </Alert>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="records" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Complaint Records</CardTitle>
+                <CardDescription>Redacted record of every complaint received</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Category</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Approximate Area</TableHead>
+                        <TableHead>Reported</TableHead>
+                        <TableHead>Last Updated</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {complaints.map((complaint) => (
+                        <TableRow key={complaint.ref}>
+                          <TableCell>
+                            <Badge variant="outline">
+                              {categoryLabels[complaint.category || "other"] || complaint.category}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <Badge className={`${statusColors[complaint.status || "pending"] || "bg-muted"} text-white`}>
+                              {statusLabels[complaint.status || "pending"]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-sm font-mono">
+                            {complaint.approx_latitude !== null && complaint.approx_longitude !== null
+                              ? `${Number(complaint.approx_latitude).toFixed(1)}, ${Number(complaint.approx_longitude).toFixed(1)}`
+                              : "—"}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {complaint.reported_on && format(new Date(complaint.reported_on), "MMM d, yyyy")}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {complaint.updated_on && format(new Date(complaint.updated_on), "MMM d, yyyy")}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Navbar } from "@/components/Navbar";
+import { BellOff, CheckCircle2, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { unsubscribeByToken } from "@/lib/subscriptions";
+
+// Target of the link in subscriber emails. Unsubscribing waits for a click so
+// link scanners in mail clients cannot trigger it.
+export default function Unsubscribe() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const [loading, setLoading] = useState(false);
+  const [done, setDone] = useState(false);
+
+  const handleUnsubscribe = async () => {
+    if (!token) return;
+
+    setLoading(true);
+    try {
+      await unsubscribeByToken(token);
+      setDone(true);
+    } catch (error) {
+      console.error("Unsubscribe error:", error);
+      toast.error("Could not unsubscribe. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container py-8">
+        <Card className="max-w-md mx-auto">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BellOff className="h-5 w-5" />
+              Stop Notifications
+            </CardTitle>
+            <CardDescription>
+              Your contact is deleted, not just muted. You can still check the complaint with its tracking code.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {done ? (
+              <p className="flex items-center gap-2 text-sm">
+                <CheckCircle2 className="h-4 w-4 text-secondary" />
+                You will not receive further notifications for this complaint.
+              </p>
+            ) : token ? (
+              <Button onClick={handleUnsubscribe} disabled={loading}>
+                {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Unsubscribe
+              </Button>
+            ) : (
+              <p className="text-sm text-muted-foreground">This unsubscribe link is incomplete.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
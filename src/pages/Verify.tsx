@@ -7,24 +7,37 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Navbar } from "@/components/Navbar";
-import { Search, Shield, CheckCircle2 } from "lucide-react";
+import { Search, Shield, CheckCircle2, Link2, MessageSquare, Bell } from "lucide-react";
 import { toast } from "sonner";
 import { format } from "date-fns";
+import { ComplaintTimeline } from "@/components/ComplaintTimeline";
+import { ComplaintHashCheck } from "@/components/ComplaintHashCheck";
+import { TrackingMessages } from "@/components/MessageThread";
+import { TrackingSubscription } from "@/components/TrackingSubscription";
+import { LEGACY_TRACKING_CODE_PATTERN, TRACKING_CODE_PATTERN, type TrackingCredentials } from "@/lib/tracking";
 
+// Looked up by id, title and location are withheld and coordinates rounded;
+// the full fields only come back for a tracking code and secret
 interface ComplaintData {
   id: string;
-  title: string;
+  title: string | null;
   category: string;
   status: string;
   created_at: string;
-  location: string;
+  location: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  evidence_hashes: string[] | null;
   complaint_hash: string;
 }
 
 export default function Verify() {
   const [searchParams] = useSearchParams();
   const [complaintId, setComplaintId] = useState(searchParams.get("id") || "");
+  const [trackingSecret, setTrackingSecret] = useState("");
   const [complaint, setComplaint] = useState<ComplaintData | null>(null);
+  // Set when the lookup used a tracking code and secret, which also unlock the message thread
+  const [credentials, setCredentials] = useState<TrackingCredentials | null>(null);
   const [loading, setLoading] = useState(false);
 
   const handleVerify = async () => {
@@ -35,32 +48,51 @@ export default function Verify() {
 
     setLoading(true);
     try {
-      // Try to find by ID first, then by tracking code
-      let query = supabase
-        .from("complaints")
-        .select("id, title, category, status, created_at, location, complaint_hash");
-
-      // Check if it's a tracking code format (CW-XXXX-XXXX)
-      const isTrackingCode = /^CW-[A-Z0-9]{4}-[A-Z0-9]{4}$/i.test(complaintId.trim());
-      
-      if (isTrackingCode) {
-        query = query.eq("tracking_code", complaintId.trim().toUpperCase());
-      } else {
-        query = query.eq("id", complaintId.trim());
+      // Complaints are not publicly readable; verify_complaint returns only the
+      // fields needed to check the hash and status
+      const lookup = complaintId.trim();
+
+      // Check if it's a tracking code format (CW-XXXX-XXXX-XXXX, or CW-XXXX-XXXX
+      // from before secrets, which is looked up without one and, like an ID,
+      // only shows the redacted status)
+      const isLegacyCode = LEGACY_TRACKING_CODE_PATTERN.test(lookup);
+      const isTrackingCode = TRACKING_CODE_PATTERN.test(lookup) || isLegacyCode;
+      const lookupCredentials = isTrackingCode
+        ? { code: lookup.toUpperCase(), secret: isLegacyCode ? "" : trackingSecret.trim() }
+        : null;
+
+      if (lookupCredentials && !isLegacyCode && !lookupCredentials.secret) {
+        toast.error("Enter the secret you were given with your tracking code");
+        return;
       }
 
-      const { data, error } = await query.maybeSingle();
+      const { data, error } = await supabase
+        .rpc(
+          "verify_complaint",
+          lookupCredentials
+            ? { _tracking_code: lookupCredentials.code, _tracking_secret: lookupCredentials.secret }
+            : { _complaint_id: lookup }
+        )
+        .maybeSingle();
 
       if (error || !data) {
-        toast.error("Complaint not found. Please check your ID or tracking code.");
+        // Lockouts after repeated failures come back as errors with their own message
+        toast.error(
+          error?.message.startsWith("Too many failed attempts")
+            ? error.message
+            : "Complaint not found. Please check your ID, or your tracking code and secret."
+        );
         setComplaint(null);
+        setCredentials(null);
       } else {
         setComplaint(data);
+        setCredentials(isLegacyCode ? null : lookupCredentials);
         toast.success("Complaint verified successfully");
       }
     } catch (error) {
       toast.error("Failed to verify complaint");
       setComplaint(null);
+      setCredentials(null);
     } finally {
       setLoading(false);
     }
@@ -92,7 +124,7 @@ export default function Verify() {
                 <div className="flex gap-2">
                   <Input
                     id="complaint-id"
-                    placeholder="Enter ID or tracking code (e.g., CW-A7B9-K2M4)..."
+                    placeholder="Enter ID or tracking code (e.g., CW-A7B9-K2M4-Q8TZ)..."
                     value={complaintId}
                     onChange={(e) => setComplaintId(e.target.value)}
                     onKeyDown={(e) => e.key === "Enter" && handleVerify()}
@@ -103,10 +135,29 @@ export default function Verify() {
                   </Button>
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  Use your tracking code (CW-XXXX-XXXX) for anonymous complaints
+                  Use your tracking code (CW-XXXX-XXXX-XXXX) for anonymous complaints. Older CW-XXXX-XXXX codes need
+                  no secret and show the complaint's status only.
                 </p>
               </div>
 
+              {TRACKING_CODE_PATTERN.test(complaintId.trim()) && (
+                <div className="space-y-2">
+                  <Label htmlFor="tracking-secret">Secret</Label>
+                  <Input
+                    id="tracking-secret"
+                    type="password"
+                    autoComplete="off"
+                    placeholder="XXXXX-XXXXX-XXXXX-XXXXX"
+                    value={trackingSecret}
+                    onChange={(e) => setTrackingSecret(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleVerify()}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    The secret shown with your tracking code when you submitted
+                  </p>
+                </div>
+              )}
+
               {complaint && (
                 <div className="mt-6 p-6 border rounded-lg bg-muted/50 space-y-4">
                   <div className="flex items-center gap-2 text-secondary">
@@ -115,10 +166,12 @@ export default function Verify() {
                   </div>
 
                   <div className="space-y-3">
-                    <div>
-                      <Label className="text-xs text-muted-foreground">Title</Label>
-                      <p className="font-medium">{complaint.title}</p>
-                    </div>
+                    {complaint.title && (
+                      <div>
+                        <Label className="text-xs text-muted-foreground">Title</Label>
+                        <p className="font-medium">{complaint.title}</p>
+                      </div>
+                    )}
 
                     <div className="grid grid-cols-2 gap-4">
                       <div>
@@ -131,10 +184,22 @@ export default function Verify() {
                       </div>
                     </div>
 
-                    <div>
-                      <Label className="text-xs text-muted-foreground">Location</Label>
-                      <p className="font-medium">{complaint.location}</p>
-                    </div>
+                    {complaint.location ? (
+                      <div>
+                        <Label className="text-xs text-muted-foreground">Location</Label>
+                        <p className="font-medium">{complaint.location}</p>
+                      </div>
+                    ) : (
+                      complaint.latitude !== null &&
+                      complaint.longitude !== null && (
+                        <div>
+                          <Label className="text-xs text-muted-foreground">Approximate Area</Label>
+                          <p className="font-medium">
+                            {complaint.latitude}, {complaint.longitude}
+                          </p>
+                        </div>
+                      )
+                    )}
 
                     <div>
                       <Label className="text-xs text-muted-foreground">Submitted On</Label>
@@ -150,6 +215,52 @@ export default function Verify() {
                       </div>
                     )}
                   </div>
+
+                  {/* Recomputing the hash needs the exact location, which only the reporter gets back */}
+                  {complaint.complaint_hash && complaint.location !== null && (
+                    <div className="pt-4 border-t">
+                      <ComplaintHashCheck
+                        key={complaint.id}
+                        complaint={{
+                          category: complaint.category,
+                          location: complaint.location,
+                          latitude: complaint.latitude,
+                          longitude: complaint.longitude,
+                          evidence_hashes: complaint.evidence_hashes,
+                          created_at: complaint.created_at,
+                        }}
+                        expectedHash={complaint.complaint_hash}
+                      />
+                    </div>
+                  )}
+
+                  <div className="pt-4 border-t space-y-3">
+                    <div className="flex items-center gap-2">
+                      <Link2 className="h-4 w-4 text-primary" />
+                      <span className="font-semibold text-sm">Audit Trail</span>
+                    </div>
+                    <ComplaintTimeline key={complaint.id} complaintId={complaint.id} />
+                  </div>
+
+                  {credentials && (
+                    <div className="pt-4 border-t space-y-3">
+                      <div className="flex items-center gap-2">
+                        <MessageSquare className="h-4 w-4 text-primary" />
+                        <span className="font-semibold text-sm">Messages with Officials</span>
+                      </div>
+                      <TrackingMessages key={credentials.code} credentials={credentials} />
+                    </div>
+                  )}
+
+                  {credentials && (
+                    <div className="pt-4 border-t space-y-3">
+                      <div className="flex items-center gap-2">
+                        <Bell className="h-4 w-4 text-primary" />
+                        <span className="font-semibold text-sm">Notifications</span>
+                      </div>
+                      <TrackingSubscription key={credentials.code} credentials={credentials} />
+                    </div>
+                  )}
                 </div>
               )}
             </CardContent>
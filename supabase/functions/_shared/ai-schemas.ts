@@ -0,0 +1,29 @@
+import { z } from "zod";
+
+// Shapes the AI edge functions must produce. Shared with the frontend, which
+// imports this file directly, so it may only depend on zod.
+
+export const SENTIMENTS = ["positive", "neutral", "negative", "critical"] as const;
+export const RISK_LEVELS = ["low", "medium", "high", "critical"] as const;
+export const SUGGESTABLE_STATUSES = ["pending", "in_review", "verified", "resolved", "rejected"] as const;
+
+export const complaintAnalysisSchema = z.object({
+  urgency_score: z.number().int().min(1).max(10),
+  sentiment: z.string().toLowerCase().pipe(z.enum(SENTIMENTS)),
+  key_issues: z.array(z.string().min(1)).min(1),
+  recommended_actions: z.array(z.string().min(1)).min(1),
+  patterns: z.string().optional(),
+  risk_level: z.string().toLowerCase().pipe(z.enum(RISK_LEVELS)),
+  summary: z.string().min(1),
+  // Injection patterns found in the complaint text. Set by the server after
+  // validation, replacing anything the model returned here.
+  injection_flags: z.array(z.string()).optional(),
+});
+
+export const statusSuggestionSchema = z.object({
+  suggested_status: z.enum(SUGGESTABLE_STATUSES),
+  reason: z.string().min(1),
+});
+
+export type ComplaintAnalysis = z.infer<typeof complaintAnalysisSchema>;
+export type StatusSuggestion = z.infer<typeof statusSuggestionSchema>;
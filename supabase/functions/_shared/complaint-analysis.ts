@@ -0,0 +1,78 @@
+import type { LLMProvider } from './llm.ts';
+import { completeStructured } from './structured-output.ts';
+import { complaintAnalysisSchema, type ComplaintAnalysis } from './ai-schemas.ts';
+import { detectInjection, formatUntrustedData, UNTRUSTED_DATA_RULES } from './untrusted.ts';
+
+// Bump whenever the prompts below change so stored analyses are re-run
+export const PROMPT_VERSION = '2025-11-26.1';
+
+export interface ComplaintInput {
+  title: string;
+  description: string;
+  category: string;
+  location: string | null;
+}
+
+// Another complaint found by similarity search, given to the model so any
+// patterns it reports are grounded in complaints that actually exist
+export interface RelatedComplaint {
+  title: string;
+  category: string;
+  status: string;
+  location: string | null;
+  similarity: number;
+}
+
+const systemPrompt = `You are an AI assistant analyzing corruption complaints for a government anti-corruption system. 
+Analyze the complaint and provide:
+1. Urgency score (1-10, where 10 is most urgent)
+2. Sentiment analysis (positive, neutral, negative, critical)
+3. Key issues identified (list of main concerns)
+4. Recommended actions (specific steps to take)
+5. Similar patterns, based only on the related complaints listed with the data (say so if there are none)
+6. Risk assessment (low, medium, high, critical)
+
+Be objective, thorough, and focus on actionable insights.
+
+${UNTRUSTED_DATA_RULES}`;
+
+const userPrompt = (complaint: ComplaintInput, related: RelatedComplaint[]) => `Analyze this corruption complaint:
+
+${formatUntrustedData({
+  title: complaint.title,
+  category: complaint.category,
+  location: complaint.location,
+  description: complaint.description,
+  related_complaints: related,
+})}
+
+Provide a comprehensive analysis in the following JSON format:
+{
+  "urgency_score": <integer 1-10>,
+  "sentiment": "<positive|neutral|negative|critical>",
+  "key_issues": ["issue1", "issue2", ...],
+  "recommended_actions": ["action1", "action2", ...],
+  "patterns": "<patterns shared with the related complaints, if any>",
+  "risk_level": "<low|medium|high|critical>",
+  "summary": "<brief 2-3 sentence summary>"
+}
+
+Respond with only the JSON object.`;
+
+// Runs the analysis and annotates it with any injection attempts found in the
+// complaint text. Throws StructuredOutputError when the output stays invalid.
+export async function analyzeComplaint(
+  llm: LLMProvider,
+  complaint: ComplaintInput,
+  related: RelatedComplaint[] = []
+): Promise<ComplaintAnalysis> {
+  const analysis = await completeStructured(llm, [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userPrompt(complaint, related) }
+  ], complaintAnalysisSchema);
+
+  return {
+    ...analysis,
+    injection_flags: detectInjection(complaint.title, complaint.description, complaint.location),
+  };
+}
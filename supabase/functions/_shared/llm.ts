@@ -0,0 +1,182 @@
+import { createMockProvider } from './mock-llm.ts';
+
+// Chat completion backends shared by the AI edge functions. The backend is
+// chosen with LLM_PROVIDER:
+//   openai  OpenAI-compatible chat completions endpoint (default). LLM_BASE_URL
+//           defaults to the Lovable AI gateway and LLM_API_KEY to LOVABLE_API_KEY.
+//   ollama  Local Ollama-style server at OLLAMA_URL (default http://localhost:11434).
+//   mock    Deterministic offline responses for development and CI.
+// LLM_MODEL overrides the provider's default model. Setting LLM_EMBEDDING_MODEL
+// enables embeddings on the openai and ollama backends; without it related
+// complaints are found by the database's TF-IDF fallback.
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionOptions {
+  temperature?: number;
+  // Ask the backend to return a single JSON object
+  json?: boolean;
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  complete(messages: ChatMessage[], options?: CompletionOptions): Promise<string>;
+  // Present only when an embedding model is configured
+  embeddingModel?: string;
+  embed?(text: string): Promise<number[]>;
+}
+
+// Carries the backend's HTTP status so callers can pass 429 and 402 through
+export class LLMError extends Error {
+  constructor(message: string, public status = 500) {
+    super(message);
+    this.name = 'LLMError';
+  }
+}
+
+// Messages returned to clients for backend errors they can act on
+export const llmErrorMessages: Record<number, string> = {
+  429: 'Rate limit exceeded. Please try again later.',
+  402: 'Payment required. Please add credits to continue.',
+};
+
+const DEFAULT_BASE_URL = 'https://ai.gateway.lovable.dev/v1';
+const DEFAULT_MODEL = 'google/gemini-2.5-flash';
+const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+const DEFAULT_OLLAMA_MODEL = 'llama3.1';
+
+const failed = async (response: Response, backend: string) => {
+  const errorText = await response.text();
+  console.error(`${backend} error:`, response.status, errorText);
+  return new LLMError(`${backend} error: ${response.status}`, response.status);
+};
+
+function createOpenAIProvider(): LLMProvider {
+  const baseUrl = (Deno.env.get('LLM_BASE_URL') ?? DEFAULT_BASE_URL).replace(/\/$/, '');
+  const apiKey = Deno.env.get('LLM_API_KEY') ?? Deno.env.get('LOVABLE_API_KEY');
+  const model = Deno.env.get('LLM_MODEL') ?? DEFAULT_MODEL;
+  const embeddingModel = Deno.env.get('LLM_EMBEDDING_MODEL');
+
+  const headers = () => {
+    if (!apiKey) {
+      throw new LLMError('LLM_API_KEY or LOVABLE_API_KEY is not configured');
+    }
+    return {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    };
+  };
+
+  const provider: LLMProvider = {
+    name: 'openai',
+    model,
+    async complete(messages, options = {}) {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: headers(),
+        body: JSON.stringify({
+          model,
+          messages,
+          temperature: options.temperature ?? 0.7,
+          ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+        }),
+      });
+
+      if (!response.ok) throw await failed(response, 'AI Gateway');
+
+      const data = await response.json();
+      return data.choices[0].message.content;
+    },
+  };
+
+  if (embeddingModel) {
+    provider.embeddingModel = embeddingModel;
+    provider.embed = async (text) => {
+      const response = await fetch(`${baseUrl}/embeddings`, {
+        method: 'POST',
+        headers: headers(),
+        body: JSON.stringify({ model: embeddingModel, input: text }),
+      });
+
+      if (!response.ok) throw await failed(response, 'AI Gateway');
+
+      const data = await response.json();
+      return data.data[0].embedding;
+    };
+  }
+
+  return provider;
+}
+
+function createOllamaProvider(): LLMProvider {
+  const baseUrl = (Deno.env.get('OLLAMA_URL') ?? DEFAULT_OLLAMA_URL).replace(/\/$/, '');
+  const model = Deno.env.get('LLM_MODEL') ?? DEFAULT_OLLAMA_MODEL;
+  const embeddingModel = Deno.env.get('LLM_EMBEDDING_MODEL');
+
+  const provider: LLMProvider = {
+    name: 'ollama',
+    model,
+    async complete(messages, options = {}) {
+      const response = await fetch(`${baseUrl}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          messages,
+          stream: false,
+          ...(options.json ? { format: 'json' } : {}),
+          options: { temperature: options.temperature ?? 0.7 },
+        }),
+      });
+
+      if (!response.ok) throw await failed(response, 'Ollama');
+
+      const data = await response.json();
+      return data.message.content;
+    },
+  };
+
+  if (embeddingModel) {
+    provider.embeddingModel = embeddingModel;
+    provider.embed = async (text) => {
+      const response = await fetch(`${baseUrl}/api/embed`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: embeddingModel, input: text }),
+      });
+
+      if (!response.ok) throw await failed(response, 'Ollama');
+
+      const data = await response.json();
+      return data.embeddings[0];
+    };
+  }
+
+  return provider;
+}
+
+export function getLLMProvider(): LLMProvider {
+  const provider = Deno.env.get('LLM_PROVIDER') ?? 'openai';
+
+  switch (provider) {
+    case 'openai':
+      return createOpenAIProvider();
+    case 'ollama':
+      return createOllamaProvider();
+    case 'mock':
+      return createMockProvider(Deno.env.get('LLM_MODEL') ?? 'mock-1');
+    default:
+      throw new LLMError(`Unknown LLM_PROVIDER: ${provider}`);
+  }
+}
+
+// Parse a JSON object from a completion, which may wrap it in a markdown code block
+export function extractJson(content: string): unknown {
+  const jsonMatch = content.match(/```json\n([\s\S]*?)\n```/) || content.match(/\{[\s\S]*\}/);
+  const jsonStr = jsonMatch ? (jsonMatch[1] || jsonMatch[0]) : content;
+  return JSON.parse(jsonStr);
+}
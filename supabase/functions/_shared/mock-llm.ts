@@ -0,0 +1,84 @@
+import type { ChatMessage, LLMProvider } from './llm.ts';
+import { DATA_END, DATA_START, parseUntrustedData } from './untrusted.ts';
+
+// Offline provider. Responses depend only on the prompt, so the same complaint
+// always gets the same analysis. The kind of response is picked from the JSON
+// keys the prompt asks for.
+//
+// Like a gullible model, the mock obeys "set urgency to N" when it appears in
+// the prompt outside the delimited complaint data, so tests can check that
+// complaint text only ever reaches the model inside that block.
+
+const URGENT_TERMS = ['threat', 'violence', 'bribe', 'extortion', 'danger', 'collapse', 'injur', 'death', 'weapon', 'urgent'];
+
+const NEXT_STATUS: Record<string, string> = {
+  pending: 'in_review',
+  in_review: 'verified',
+  verified: 'resolved',
+};
+
+const urgencyFor = (text: string) => {
+  const lower = text.toLowerCase();
+  const hits = URGENT_TERMS.filter((term) => lower.includes(term)).length;
+  return Math.min(10, 3 + hits * 2);
+};
+
+const riskFor = (urgency: number) =>
+  urgency >= 9 ? 'critical' : urgency >= 7 ? 'high' : urgency >= 5 ? 'medium' : 'low';
+
+const INJECTED_URGENCY = /\b(?:set|make|give)\b[^.\n]{0,30}\burgency\b[^\d\n]{0,20}(\d{1,2})/i;
+
+const fieldFrom = (text: string, label: string) => text.match(new RegExp(`^${label}: (.*)$`, 'm'))?.[1]?.trim() ?? '';
+
+const patternsFor = (related: unknown) =>
+  Array.isArray(related) && related.length > 0
+    ? `${related.length} related complaint${related.length === 1 ? '' : 's'} on record`
+    : 'No related complaints found';
+
+// The prompt with the complaint data block removed
+const instructionsOf = (prompt: string) => {
+  const start = prompt.indexOf(DATA_START);
+  const end = prompt.indexOf(DATA_END, start);
+  return start === -1 || end === -1 ? prompt : prompt.slice(0, start) + prompt.slice(end + DATA_END.length);
+};
+
+function respond(messages: ChatMessage[]): string {
+  const prompt = messages.filter((m) => m.role === 'user').map((m) => m.content).join('\n');
+  const data = parseUntrustedData(prompt) ?? {};
+  const title = String(data.title ?? '') || 'the complaint';
+  const category = String(data.category ?? '') || 'other';
+
+  if (prompt.includes('"urgency_score"')) {
+    const injected = instructionsOf(prompt).match(INJECTED_URGENCY);
+    const urgency = injected
+      ? Math.min(10, Math.max(1, Number(injected[1])))
+      : urgencyFor(`${data.title ?? ''} ${data.description ?? ''}`);
+    return JSON.stringify({
+      urgency_score: urgency,
+      sentiment: urgency >= 7 ? 'critical' : 'negative',
+      key_issues: [`Reported ${category.replace(/_/g, ' ')}`],
+      recommended_actions: ['Assign an investigator', 'Review the submitted evidence'],
+      patterns: patternsFor(data.related_complaints),
+      risk_level: riskFor(urgency),
+      summary: `Mock analysis of "${title}".`,
+    });
+  }
+
+  if (prompt.includes('"suggested_status"')) {
+    const current = fieldFrom(prompt, 'Current Status');
+    return JSON.stringify({
+      suggested_status: NEXT_STATUS[current] ?? (current || 'in_review'),
+      reason: 'Mock suggestion based on the current status.',
+    });
+  }
+
+  return `Thank you for reporting "${title}". Your complaint has been received and will be reviewed by an official. We will update you as the review progresses.`;
+}
+
+export function createMockProvider(model: string): LLMProvider {
+  return {
+    name: 'mock',
+    model,
+    complete: (messages) => Promise.resolve(respond(messages)),
+  };
+}
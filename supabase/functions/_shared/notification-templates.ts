@@ -0,0 +1,105 @@
+// Plain-text messages for the notification_outbox templates. Emails get a
+// subject and a full body; SMS and push stay short and point to the app.
+// Anonymous subscribers (payload.anonymous) only learn what kind of change
+// happened: no title, note or message text leaves behind the tracking code.
+// Their email addresses first get subscription_confirmation, which links to
+// payload.confirm_url and says nothing about the complaint.
+
+export type NotificationTemplate =
+  | 'status_changed'
+  | 'note_shared'
+  | 'information_requested'
+  | 'message_received'
+  | 'subscription_confirmation';
+export type NotificationChannel = 'email' | 'sms' | 'push';
+
+export interface RenderedNotification {
+  subject: string;
+  text: string;
+  // Page the notification links to
+  url: string;
+}
+
+const statusLabels: Record<string, string> = {
+  pending: 'Pending',
+  in_review: 'In Review',
+  verified: 'Verified',
+  resolved: 'Resolved',
+  rejected: 'Rejected',
+};
+
+const label = (status: unknown) => statusLabels[String(status)] ?? String(status);
+
+const SHORT_LIMIT = 320;
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+export function renderNotification(
+  template: NotificationTemplate,
+  channel: NotificationChannel,
+  payload: Record<string, unknown>,
+  appUrl: string,
+  // Set for subscribers, who can stop notifications without an account
+  unsubscribeUrl?: string,
+): RenderedNotification {
+  const anonymous = payload.anonymous === true;
+  const complaint = anonymous ? 'a complaint you follow' : `"${String(payload.complaint_title ?? 'your complaint')}"`;
+  const subjectRef = anonymous ? 'a complaint you follow' : 'your complaint';
+  let url = `${appUrl.replace(/\/$/, '')}${anonymous ? '/verify' : '/dashboard'}`;
+  let linkLabel = 'View it here';
+  const replyFrom = anonymous ? 'with your tracking code and secret' : 'from your dashboard';
+
+  let subject: string;
+  let summary: string;
+  let details: string | null = null;
+
+  switch (template) {
+    case 'status_changed':
+      subject = `Status update on ${subjectRef}: ${label(payload.new_status)}`;
+      summary = `The status of ${complaint} changed from ${label(payload.old_status)} to ${label(payload.new_status)}.`;
+      // Closing a complaint requires a summary or reason, which the reporter sees too
+      if (payload.new_status === 'resolved') details = (payload.resolution_summary as string | null) ?? null;
+      if (payload.new_status === 'rejected') details = (payload.rejection_reason as string | null) ?? null;
+      break;
+    case 'note_shared':
+      subject = `New update on ${subjectRef}`;
+      summary = `Officials added a note to ${complaint}.`;
+      details = (payload.note as string | null) ?? null;
+      break;
+    case 'information_requested':
+      subject = `Officials need more information about ${subjectRef}`;
+      summary = `Officials handling ${complaint} have asked for more information. Please reply ${replyFrom}.`;
+      details = (payload.message as string | null) ?? null;
+      break;
+    case 'message_received':
+      subject = `New message about ${subjectRef}`;
+      summary = `Officials sent a message about ${complaint}. You can read and answer it ${replyFrom}.`;
+      details = (payload.message as string | null) ?? null;
+      break;
+    case 'subscription_confirmation':
+      subject = 'Confirm notifications from Corrupt Watch';
+      summary =
+        'Someone asked for updates on a complaint to be sent to this address. Nothing will be sent unless you confirm. If this was not you, ignore this email.';
+      url = String(payload.confirm_url);
+      linkLabel = 'Confirm';
+      break;
+    default:
+      throw new Error(`Unknown notification template: ${template}`);
+  }
+
+  if (channel !== 'email') {
+    return { subject, text: truncate(channel === 'sms' ? `Corrupt Watch: ${summary} ${url}` : summary, SHORT_LIMIT), url };
+  }
+
+  const text = [
+    summary,
+    details,
+    `${linkLabel}: ${url}`,
+    unsubscribeUrl ? `Stop these notifications: ${unsubscribeUrl}` : null,
+    'Corrupt Watch',
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  return { subject, text, url };
+}
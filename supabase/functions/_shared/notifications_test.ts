@@ -0,0 +1,135 @@
+import { assert, assertEquals, assertStringIncludes, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { NotificationTemplate, renderNotification } from './notification-templates.ts';
+import { getTransport, NotificationTransport } from './notify.ts';
+
+// Run with: deno test supabase/functions/_shared --allow-read --allow-env
+
+const APP_URL = 'https://corruptwatch.example/';
+
+const statusPayload = {
+  complaint_title: 'Bribe at the permit office',
+  old_status: 'in_review',
+  new_status: 'resolved',
+  resolution_summary: 'The clerk was suspended.',
+};
+
+Deno.test('email carries the title, details and unsubscribe link', () => {
+  const rendered = renderNotification('status_changed', 'email', statusPayload, APP_URL, 'https://corruptwatch.example/unsubscribe?token=t');
+
+  assertEquals(rendered.subject, 'Status update on your complaint: Resolved');
+  assertEquals(rendered.url, 'https://corruptwatch.example/dashboard');
+  assertStringIncludes(rendered.text, '"Bribe at the permit office" changed from In Review to Resolved.');
+  assertStringIncludes(rendered.text, 'The clerk was suspended.');
+  assertStringIncludes(rendered.text, 'Stop these notifications: https://corruptwatch.example/unsubscribe?token=t');
+});
+
+Deno.test('anonymous subscribers learn only the kind of change', () => {
+  const payload = { anonymous: true, complaint_title: 'Secret title', message: 'Secret message' };
+
+  for (const channel of ['email', 'sms', 'push'] as const) {
+    const rendered = renderNotification('information_requested', channel, payload, APP_URL);
+
+    assertEquals(rendered.url, 'https://corruptwatch.example/verify');
+    assert(!rendered.text.includes('Secret'), `${channel} leaked: ${rendered.text}`);
+    assert(!rendered.subject.includes('Secret'), `${channel} leaked: ${rendered.subject}`);
+  }
+});
+
+Deno.test('short channels stay short and link to the app', () => {
+  const note = { complaint_title: 'x'.repeat(500), note: 'Visible only in email' };
+  const sms = renderNotification('note_shared', 'sms', note, APP_URL);
+  const push = renderNotification('note_shared', 'push', note, APP_URL);
+
+  assert(sms.text.startsWith('Corrupt Watch: '));
+  assert(sms.text.length <= 320);
+  assert(push.text.length <= 320);
+  assert(!sms.text.includes('Visible only in email'));
+});
+
+Deno.test('confirmation emails link to the confirmation and reveal nothing', () => {
+  const rendered = renderNotification(
+    'subscription_confirmation',
+    'email',
+    { anonymous: true, confirm_url: 'https://corruptwatch.example/confirm-subscription?token=c' },
+    APP_URL,
+  );
+
+  assertEquals(rendered.url, 'https://corruptwatch.example/confirm-subscription?token=c');
+  assertStringIncludes(rendered.text, 'Confirm: https://corruptwatch.example/confirm-subscription?token=c');
+  assert(!rendered.text.includes('/verify'));
+});
+
+Deno.test('unknown templates are rejected', () => {
+  assertThrows(
+    () => renderNotification('unknown' as NotificationTemplate, 'email', {}, APP_URL),
+    Error,
+    'Unknown notification template',
+  );
+});
+
+// Sets the given variables for the duration of fn, restoring the old values
+function withEnv(vars: Record<string, string | undefined>, fn: () => void) {
+  const previous = Object.fromEntries(Object.keys(vars).map((name) => [name, Deno.env.get(name)]));
+  const apply = (values: Record<string, string | undefined>) => {
+    for (const [name, value] of Object.entries(values)) {
+      if (value === undefined) Deno.env.delete(name);
+      else Deno.env.set(name, value);
+    }
+  };
+
+  apply(vars);
+  try {
+    fn();
+  } finally {
+    apply(previous);
+  }
+}
+
+Deno.test('each channel has its default transport', () => {
+  withEnv({ EMAIL_TRANSPORT: undefined, SMS_TRANSPORT: undefined, PUSH_TRANSPORT: undefined }, () => {
+    assertEquals(getTransport('email').name, 'smtp');
+    assertEquals(getTransport('sms').name, 'twilio');
+    assertEquals(getTransport('push').name, 'webpush');
+  });
+});
+
+Deno.test('the transport is chosen per channel', () => {
+  withEnv({ EMAIL_TRANSPORT: 'log', SMS_TRANSPORT: 'smtp', PUSH_TRANSPORT: undefined }, () => {
+    assertEquals(getTransport('email').name, 'log');
+    assertEquals(getTransport('sms').name, 'smtp');
+    assertEquals(getTransport('push').name, 'webpush');
+  });
+});
+
+Deno.test('unknown transports are rejected', () => {
+  withEnv({ SMS_TRANSPORT: 'carrier-pigeon' }, () => {
+    assertThrows(() => getTransport('sms'), Error, 'Unknown SMS_TRANSPORT: carrier-pigeon');
+  });
+});
+
+Deno.test('the log transport masks link tokens', async () => {
+  const logged: unknown[] = [];
+  const log = console.log;
+  console.log = (...args: unknown[]) => logged.push(...args);
+
+  try {
+    let transport!: NotificationTransport;
+    withEnv({ EMAIL_TRANSPORT: 'log' }, () => {
+      transport = getTransport('email');
+    });
+    await transport.send({
+      channel: 'email',
+      to: 'reporter@example.org',
+      subject: 'Confirm notifications',
+      text: 'Confirm: https://corruptwatch.example/confirm-subscription?token=c0nf1rm\nStop: https://corruptwatch.example/unsubscribe?token=s3cr3t',
+      url: 'https://corruptwatch.example/confirm-subscription?token=c0nf1rm',
+    });
+  } finally {
+    console.log = log;
+  }
+
+  const output = logged.join('\n');
+  assertStringIncludes(output, 'confirm-subscription?token=[redacted]');
+  assertStringIncludes(output, 'unsubscribe?token=[redacted]');
+  assert(!output.includes('c0nf1rm') && !output.includes('s3cr3t') && !output.includes('reporter@example.org'));
+});
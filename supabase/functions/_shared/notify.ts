@@ -0,0 +1,182 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+import webpush from 'npm:web-push@3.6.7';
+import type { NotificationChannel } from './notification-templates.ts';
+
+// Delivery backends for notifications, chosen per channel with
+// EMAIL_TRANSPORT, SMS_TRANSPORT and PUSH_TRANSPORT:
+//   smtp    SMTP server at SMTP_HOST:SMTP_PORT (default localhost:1025, where a
+//           local catcher such as Mailpit or MailHog listens). SMTP_TLS=true
+//           for implicit TLS; SMTP_USER and SMTP_PASSWORD when it needs auth.
+//           SMS sent this way go to <number>@SMS_EMAIL_DOMAIN so the catcher
+//           shows them too. Default for email.
+//   twilio  Twilio's Messages API with TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and
+//           TWILIO_FROM_NUMBER. SMS only; default for SMS.
+//   webpush Web Push to a browser PushSubscription (JSON in `to`), signed with
+//           VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT. Push only;
+//           default for push.
+//   log     Prints the message instead of sending it.
+// Emails are sent from NOTIFY_FROM_EMAIL.
+
+export interface OutgoingNotification {
+  channel: NotificationChannel;
+  to: string;
+  subject: string;
+  text: string;
+  // Opened when a push notification is clicked
+  url?: string;
+}
+
+export interface NotificationTransport {
+  name: string;
+  send(notification: OutgoingNotification): Promise<void>;
+  // Releases connections held between sends
+  close?(): Promise<void>;
+}
+
+// The push service no longer knows the subscription; it should be deleted
+export class SubscriptionGoneError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubscriptionGoneError';
+  }
+}
+
+const DEFAULT_SMTP_HOST = 'localhost';
+const DEFAULT_SMTP_PORT = 1025;
+const DEFAULT_FROM_EMAIL = 'notifications@corruptwatch.local';
+const DEFAULT_SMS_EMAIL_DOMAIN = 'sms.localhost';
+
+function createSmtpTransport(): NotificationTransport {
+  const tls = Deno.env.get('SMTP_TLS') === 'true';
+  const username = Deno.env.get('SMTP_USER');
+  const from = Deno.env.get('NOTIFY_FROM_EMAIL') ?? DEFAULT_FROM_EMAIL;
+  const smsDomain = Deno.env.get('SMS_EMAIL_DOMAIN') ?? DEFAULT_SMS_EMAIL_DOMAIN;
+
+  let client: SMTPClient | null = null;
+  const connect = () =>
+    (client ??= new SMTPClient({
+      connection: {
+        hostname: Deno.env.get('SMTP_HOST') ?? DEFAULT_SMTP_HOST,
+        port: Number(Deno.env.get('SMTP_PORT') ?? DEFAULT_SMTP_PORT),
+        tls,
+        ...(username ? { auth: { username, password: Deno.env.get('SMTP_PASSWORD') ?? '' } } : {}),
+      },
+      // Local catchers speak plain SMTP
+      debug: { allowUnsecure: !tls },
+    }));
+
+  return {
+    name: 'smtp',
+    async send({ channel, to, subject, text }) {
+      if (channel === 'push') {
+        throw new Error('The smtp transport cannot send push notifications');
+      }
+      await connect().send({
+        from,
+        to: channel === 'sms' ? `${to.replace(/[^\d+]/g, '')}@${smsDomain}` : to,
+        subject,
+        content: text,
+      });
+    },
+    async close() {
+      await client?.close();
+      client = null;
+    },
+  };
+}
+
+function createTwilioTransport(): NotificationTransport {
+  const accountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
+  const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+  const from = Deno.env.get('TWILIO_FROM_NUMBER');
+
+  return {
+    name: 'twilio',
+    async send({ channel, to, text }) {
+      if (channel !== 'sms') {
+        throw new Error('The twilio transport only sends SMS');
+      }
+      if (!accountSid || !authToken || !from) {
+        throw new Error('TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER must be configured');
+      }
+
+      const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({ From: from, To: to, Body: text }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Twilio error: ${response.status} ${await response.text()}`);
+      }
+    },
+  };
+}
+
+function createWebPushTransport(): NotificationTransport {
+  const publicKey = Deno.env.get('VAPID_PUBLIC_KEY');
+  const privateKey = Deno.env.get('VAPID_PRIVATE_KEY');
+  const subject = Deno.env.get('VAPID_SUBJECT') ?? `mailto:${Deno.env.get('NOTIFY_FROM_EMAIL') ?? DEFAULT_FROM_EMAIL}`;
+
+  return {
+    name: 'webpush',
+    async send({ channel, to, subject: title, text, url }) {
+      if (channel !== 'push') {
+        throw new Error('The webpush transport only sends push notifications');
+      }
+      if (!publicKey || !privateKey) {
+        throw new Error('VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY must be configured');
+      }
+
+      try {
+        await webpush.sendNotification(JSON.parse(to), JSON.stringify({ title, body: text, url }), {
+          vapidDetails: { subject, publicKey, privateKey },
+        });
+      } catch (error) {
+        const statusCode = (error as { statusCode?: number }).statusCode;
+        if (statusCode === 404 || statusCode === 410) {
+          throw new SubscriptionGoneError(`Push subscription expired (${statusCode})`);
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+function createLogTransport(): NotificationTransport {
+  return {
+    name: 'log',
+    async send({ channel, subject, text }) {
+      // Recipients are left out and link tokens masked; subscriber contacts
+      // and their unsubscribe and confirmation tokens must not reach the logs
+      console.log(`[${channel}] ${subject}\n${text.replace(/([?&]token=)[^&\s]+/g, '$1[redacted]')}`);
+    },
+  };
+}
+
+const defaultTransports: Record<NotificationChannel, string> = {
+  email: 'smtp',
+  sms: 'twilio',
+  push: 'webpush',
+};
+
+export function getTransport(channel: NotificationChannel): NotificationTransport {
+  const variable = `${channel.toUpperCase()}_TRANSPORT`;
+  const transport = Deno.env.get(variable) ?? defaultTransports[channel];
+
+  switch (transport) {
+    case 'smtp':
+      return createSmtpTransport();
+    case 'twilio':
+      return createTwilioTransport();
+    case 'webpush':
+      return createWebPushTransport();
+    case 'log':
+      return createLogTransport();
+    default:
+      throw new Error(`Unknown ${variable}: ${transport}`);
+  }
+}
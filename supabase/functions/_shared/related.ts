@@ -0,0 +1,58 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.81.1';
+import type { LLMProvider } from './llm.ts';
+import type { RelatedComplaint } from './complaint-analysis.ts';
+
+// Stores an embedding of the complaint text when the provider supports them and
+// the stored one is missing or was made from other text or by another model.
+// Failures are logged and ignored: related_complaints() falls back to TF-IDF.
+export async function updateEmbedding(
+  supabase: SupabaseClient,
+  llm: LLMProvider,
+  complaintId: string,
+  text: string,
+  inputHash: string
+) {
+  if (!llm.embed) return;
+
+  try {
+    const { data: stored } = await supabase
+      .from('complaint_embeddings')
+      .select('embedding_model, embedding_input_hash')
+      .eq('complaint_id', complaintId)
+      .maybeSingle();
+
+    if (stored?.embedding_model === llm.embeddingModel && stored?.embedding_input_hash === inputHash) return;
+
+    const embedding = await llm.embed(text);
+    const { error } = await supabase.rpc('store_complaint_embedding', {
+      _complaint_id: complaintId,
+      _embedding: JSON.stringify(embedding),
+      _model: llm.embeddingModel,
+      _input_hash: inputHash,
+    });
+    if (error) throw error;
+  } catch (error) {
+    console.error('Embedding failed, using TF-IDF for related complaints:', error);
+  }
+}
+
+export async function findRelatedComplaints(
+  supabase: SupabaseClient,
+  complaintId: string,
+  limit = 5
+): Promise<RelatedComplaint[]> {
+  const { data, error } = await supabase.rpc('related_complaints', { _complaint_id: complaintId, _limit: limit });
+
+  if (error) {
+    console.error('Error finding related complaints:', error);
+    return [];
+  }
+
+  return (data ?? []).map((row: Record<string, unknown>) => ({
+    title: String(row.related_title),
+    category: String(row.related_category),
+    status: String(row.related_status),
+    location: row.related_location ? String(row.related_location) : null,
+    similarity: Math.round(Number(row.similarity) * 100) / 100,
+  }));
+}
@@ -0,0 +1,62 @@
+import type { z } from 'zod';
+import { extractJson, type ChatMessage, type LLMProvider } from './llm.ts';
+
+// Validation failures are fed back to the model this many times before giving up
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// The model did not produce output matching the schema, even after repair
+export class StructuredOutputError extends Error {
+  constructor(message: string, public rawResponse: string) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+const describeFailure = (content: string, schema: z.ZodTypeAny): { data?: unknown; problem?: string } => {
+  let json: unknown;
+  try {
+    json = extractJson(content);
+  } catch {
+    return { problem: 'The response was not valid JSON.' };
+  }
+
+  const result = schema.safeParse(json);
+  if (result.success) return { data: result.data };
+
+  return {
+    problem: result.error.issues
+      .map((issue) => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+      .join('; '),
+  };
+};
+
+// Requests JSON output and validates it against `schema`. Invalid output is
+// sent back to the model with the validation errors so it can correct itself.
+export async function completeStructured<T extends z.ZodTypeAny>(
+  llm: LLMProvider,
+  messages: ChatMessage[],
+  schema: T
+): Promise<z.infer<T>> {
+  const conversation = [...messages];
+  let content = '';
+  let problem = '';
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    content = await llm.complete(conversation, { json: true, temperature: attempt === 0 ? undefined : 0 });
+
+    const result = describeFailure(content, schema);
+    if (!result.problem) return result.data as z.infer<T>;
+
+    problem = result.problem;
+    console.warn(`AI output failed validation (attempt ${attempt + 1}):`, problem);
+    conversation.push(
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `Your response did not match the required format: ${problem}\nRespond again with only the corrected JSON object.`,
+      }
+    );
+  }
+
+  throw new StructuredOutputError(`AI output did not match the expected format: ${problem}`, content);
+}
@@ -0,0 +1,83 @@
+// Contacts of anonymous tracking-code subscribers. Each contact is sealed
+// together with its tokens using AES-GCM and the base64 32-byte key in
+// SUBSCRIPTION_ENCRYPTION_KEY, which only edge functions hold. The database
+// stores the ciphertext, a SHA-256 of each token for lookups and a keyed hash
+// of the contact to refuse duplicates.
+
+export interface SubscriptionContact {
+  // Email address, or the JSON of a browser PushSubscription
+  contact: string;
+  unsubscribeToken: string;
+  // Email only: the link that activates the subscription
+  confirmToken?: string;
+}
+
+const encoder = new TextEncoder();
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map((b) => b.toString(16).padStart(2, '0')).join('');
+
+let cachedKey: Promise<CryptoKey> | null = null;
+let cachedHashKey: Promise<CryptoKey> | null = null;
+
+const rawKey = () => {
+  const raw = Deno.env.get('SUBSCRIPTION_ENCRYPTION_KEY');
+  if (!raw) {
+    throw new Error('SUBSCRIPTION_ENCRYPTION_KEY is not configured');
+  }
+  return fromBase64(raw);
+};
+
+const encryptionKey = () =>
+  (cachedKey ??= crypto.subtle.importKey('raw', rawKey(), 'AES-GCM', false, ['encrypt', 'decrypt']));
+
+// HMAC key derived from the same secret, so contact hashes cannot be checked
+// against guessed addresses without it
+const hashKey = () =>
+  (cachedHashKey ??= (async () => {
+    const base = await crypto.subtle.importKey('raw', rawKey(), 'HKDF', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(), info: encoder.encode('contact-hash') },
+      base,
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign'],
+    );
+  })());
+
+export const newSubscriptionToken = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const hashToken = async (token: string) =>
+  toHex(await crypto.subtle.digest('SHA-256', encoder.encode(token)));
+
+// Same value for the same contact on the same complaint. Scoped to the
+// complaint so one contact following two complaints does not link them.
+export const hashContact = async (complaintId: string, contact: string) =>
+  toHex(await crypto.subtle.sign('HMAC', await hashKey(), encoder.encode(`${complaintId}\n${contact}`)));
+
+// "<iv>.<ciphertext>", both base64
+export async function sealContact(value: SubscriptionContact): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await encryptionKey(),
+    encoder.encode(JSON.stringify(value)),
+  );
+  return `${toBase64(iv)}.${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+export async function openContact(sealed: string): Promise<SubscriptionContact> {
+  const [iv, ciphertext] = sealed.split('.');
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    await encryptionKey(),
+    fromBase64(ciphertext),
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
@@ -0,0 +1,72 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.81.1';
+
+// Tracking-code access for anonymous reporters. The code only identifies the
+// complaint; the secret shown once at submission proves the caller filed it.
+// Complaints filed before secrets open with their old CW-XXXX-XXXX code alone,
+// to their redacted status only. verify_tracking_credentials rate-limits
+// failures per code and client, per code and per client.
+
+export type TrackingAccess =
+  | { ok: true; complaintId: string; readOnly: boolean }
+  | { ok: false; status: number; error: string; retryAfter?: string; headers?: Record<string, string> };
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map((b) => b.toString(16).padStart(2, '0')).join('');
+
+const LEGACY_CODE_PATTERN = /^CW-[0-9A-F]{4}-[0-9A-F]{4}$/i;
+
+// Same hash the database takes of x-forwarded-for for direct API calls. The
+// proxy appends the address it saw; earlier entries come from the caller.
+const clientHash = async (req: Request) => {
+  const forwarded = req.headers.get('x-forwarded-for');
+  if (!forwarded) return null;
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(forwarded.split(',').pop()!.trim())));
+};
+
+export async function checkTrackingAccess(
+  supabase: SupabaseClient,
+  req: Request,
+  trackingCode: unknown,
+  trackingSecret: unknown,
+): Promise<TrackingAccess> {
+  if (typeof trackingCode !== 'string' || !trackingCode.trim()) {
+    return { ok: false, status: 400, error: 'Tracking code and secret are required' };
+  }
+  const secret = typeof trackingSecret === 'string' ? trackingSecret : '';
+  if (!secret.trim() && !LEGACY_CODE_PATTERN.test(trackingCode.trim())) {
+    return { ok: false, status: 400, error: 'Tracking code and secret are required' };
+  }
+
+  const { data, error } = await supabase
+    .rpc('verify_tracking_credentials', {
+      _tracking_code: trackingCode,
+      _tracking_secret: secret,
+      _client_hash: await clientHash(req),
+    })
+    .single();
+
+  if (error) throw error;
+
+  const { complaint_id, retry_after, read_only } = data as {
+    complaint_id: string | null;
+    retry_after: string | null;
+    read_only: boolean | null;
+  };
+  if (retry_after) {
+    const seconds = Math.max(1, Math.ceil((Date.parse(retry_after) - Date.now()) / 1000));
+    return {
+      ok: false,
+      status: 429,
+      error: 'Too many failed attempts. Try again later.',
+      retryAfter: retry_after,
+      headers: { 'Retry-After': String(seconds) },
+    };
+  }
+  if (!complaint_id) {
+    // Same answer for an unknown code and a wrong secret
+    return { ok: false, status: 404, error: 'No complaint matches this tracking code and secret' };
+  }
+  return { ok: true, complaintId: complaint_id, readOnly: read_only === true };
+}
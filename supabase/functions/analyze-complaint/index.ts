@@ -1,117 +1,130 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.81.1';
+import { getLLMProvider, LLMError, llmErrorMessages } from '../_shared/llm.ts';
+import { StructuredOutputError } from '../_shared/structured-output.ts';
+import { analyzeComplaint, PROMPT_VERSION } from '../_shared/complaint-analysis.ts';
+import { findRelatedComplaints, updateEmbedding } from '../_shared/related.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const sha256Hex = async (value: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { title, description, category, location } = await req.json();
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
+    const { complaintId, force = false } = await req.json();
 
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY is not configured');
+    if (!complaintId) {
+      return jsonResponse({ error: 'complaintId is required' }, 400);
     }
 
-    const systemPrompt = `You are an AI assistant analyzing corruption complaints for a government anti-corruption system. 
-Analyze the complaint and provide:
-1. Urgency score (1-10, where 10 is most urgent)
-2. Sentiment analysis (positive, neutral, negative, critical)
-3. Key issues identified (list of main concerns)
-4. Recommended actions (specific steps to take)
-5. Similar patterns (if this looks like a common issue)
-6. Risk assessment (low, medium, high, critical)
-
-Be objective, thorough, and focus on actionable insights.`;
-
-    const userPrompt = `Analyze this corruption complaint:
-
-Title: ${title}
-Category: ${category}
-Location: ${location}
-Description: ${description}
-
-Provide a comprehensive analysis in the following JSON format:
-{
-  "urgency_score": <number 1-10>,
-  "sentiment": "<positive|neutral|negative|critical>",
-  "key_issues": ["issue1", "issue2", ...],
-  "recommended_actions": ["action1", "action2", ...],
-  "patterns": "<description of any patterns>",
-  "risk_level": "<low|medium|high|critical>",
-  "summary": "<brief 2-3 sentence summary>"
-}`;
-
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        temperature: 0.7,
-      }),
-    });
+    // Act as the caller so row level security and role checks apply
+    const authorization = req.headers.get('Authorization') ?? '';
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authorization } } }
+    );
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
+    // Every run costs model calls, so only the triage queue, which holds the
+    // service role key, and officials get past this point
+    if (authorization !== `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`) {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        return jsonResponse({ error: 'Unauthorized' }, 401);
       }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: 'Payment required. Please add credits to continue.' }),
-          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
+
+      const [{ data: isOfficial }, { data: isAdmin }] = await Promise.all([
+        supabase.rpc('has_role', { _user_id: user.id, _role: 'government' }),
+        supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' }),
+      ]);
+      if (!isOfficial && !isAdmin) {
+        return jsonResponse({ error: 'Only officials can analyze complaints' }, 403);
       }
-      const errorText = await response.text();
-      console.error('AI Gateway error:', response.status, errorText);
-      throw new Error(`AI Gateway error: ${response.status}`);
     }
 
-    const data = await response.json();
-    const content = data.choices[0].message.content;
+    const { data: complaint, error: complaintError } = await supabase
+      .from('complaints')
+      .select('title, description, category, location, ai_metadata')
+      .eq('id', complaintId)
+      .maybeSingle();
+
+    if (complaintError) throw complaintError;
+    if (!complaint) {
+      return jsonResponse({ error: 'Complaint not found' }, 404);
+    }
+
+    const { title, description, category, location } = complaint;
+    const inputHash = await sha256Hex(JSON.stringify([title, description, category, location]));
+
+    const llm = getLLMProvider();
+
+    // Reuse the stored analysis unless the input, model or prompt changed
+    const latest = complaint.ai_metadata?.latest;
+    if (
+      !force &&
+      latest?.input_hash === inputHash &&
+      latest?.model === llm.model &&
+      latest?.prompt_version === PROMPT_VERSION
+    ) {
+      return jsonResponse({ analysis: latest.analysis, metadata: complaint.ai_metadata, cached: true });
+    }
+
+    await updateEmbedding(supabase, llm, complaintId, [title, location, description].filter(Boolean).join('\n'), inputHash);
 
-    // Try to parse JSON from the response
     let analysis;
     try {
-      // Extract JSON from markdown code blocks if present
-      const jsonMatch = content.match(/```json\n([\s\S]*?)\n```/) || content.match(/\{[\s\S]*\}/);
-      const jsonStr = jsonMatch ? (jsonMatch[1] || jsonMatch[0]) : content;
-      analysis = JSON.parse(jsonStr);
-    } catch (parseError) {
-      console.error('Failed to parse AI response as JSON:', content);
-      // Fallback: return raw content
-      analysis = {
-        urgency_score: 5,
-        sentiment: 'neutral',
-        key_issues: ['Analysis pending'],
-        recommended_actions: ['Manual review required'],
-        patterns: 'Unable to determine patterns',
-        risk_level: 'medium',
-        summary: content.substring(0, 200),
-        raw_response: content
-      };
+      const related = await findRelatedComplaints(supabase, complaintId);
+      analysis = await analyzeComplaint(llm, complaint, related);
+    } catch (error) {
+      if (!(error instanceof StructuredOutputError)) throw error;
+
+      // Nothing is made up: the failure is stored and shown to officials
+      console.error('AI analysis failed validation:', error.rawResponse);
+      const { data: metadata, error: recordError } = await supabase.rpc('record_ai_analysis_failure', {
+        _complaint_id: complaintId,
+        _model: llm.model,
+        _prompt_version: PROMPT_VERSION,
+        _error: error.message,
+      });
+      if (recordError) throw recordError;
+
+      return jsonResponse({ error: error.message, analysis_failed: true, metadata }, 422);
     }
 
-    return new Response(
-      JSON.stringify({ analysis }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    const { data: metadata, error: recordError } = await supabase.rpc('record_ai_analysis', {
+      _complaint_id: complaintId,
+      _analysis: analysis,
+      _model: llm.model,
+      _prompt_version: PROMPT_VERSION,
+      _input_hash: inputHash,
+    });
+
+    if (recordError) throw recordError;
+
+    return jsonResponse({ analysis, metadata, cached: false });
 
   } catch (error) {
+    if (error instanceof LLMError && llmErrorMessages[error.status]) {
+      return jsonResponse({ error: llmErrorMessages[error.status] }, error.status);
+    }
     console.error('Error in analyze-complaint function:', error);
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error occurred' }),
@@ -0,0 +1,50 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.81.1';
+
+// Complaints escalated per run. The scheduler calls this every 15 minutes.
+const BATCH_SIZE = 50;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+    // Only the scheduler, which holds the service role key, may escalate
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const { data: escalations, error } = await supabase.rpc('escalate_overdue_complaints', { _limit: BATCH_SIZE });
+    if (error) throw error;
+
+    const results = (escalations ?? []).map((escalation) => ({
+      complaintId: escalation.escalated_complaint_id,
+      supervisorId: escalation.supervisor_id,
+      overdueSince: escalation.overdue_since,
+    }));
+
+    const unrouted = results.filter((result) => !result.supervisorId).length;
+    console.log(`Escalated ${results.length} overdue complaint(s), ${unrouted} without a supervisor`);
+
+    return jsonResponse({ escalated: results.length, results });
+  } catch (error) {
+    console.error('Error in escalate-overdue function:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error occurred' }, 500);
+  }
+});
@@ -0,0 +1,80 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.81.1';
+
+// Jobs handled per run. The scheduler calls this every minute, so a backlog
+// drains over several runs instead of one long request.
+const BATCH_SIZE = 5;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+    // Only the scheduler, which holds the service role key, drains the queue
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const { data: jobs, error: claimError } = await supabase.rpc('claim_ai_triage_jobs', { _limit: BATCH_SIZE });
+    if (claimError) throw claimError;
+
+    const results = [];
+    for (const job of jobs ?? []) {
+      let error: string | null = null;
+      let statusCode: number | null = null;
+
+      try {
+        const response = await fetch(`${supabaseUrl}/functions/v1/analyze-complaint`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${serviceRoleKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ complaintId: job.complaint_id }),
+        });
+        statusCode = response.status;
+
+        const body = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          error = body.error ?? `analyze-complaint returned ${response.status}`;
+        }
+      } catch (requestError) {
+        error = requestError instanceof Error ? requestError.message : 'Request failed';
+      }
+
+      const { error: completeError } = await supabase.rpc('complete_ai_triage_job', {
+        _job_id: job.id,
+        _error: error,
+        _status_code: statusCode,
+      });
+      if (completeError) {
+        console.error('Failed to record triage result:', job.id, completeError);
+      }
+
+      results.push({ jobId: job.id, complaintId: job.complaint_id, attempt: job.attempts, statusCode, error });
+    }
+
+    console.log(`Processed ${results.length} triage job(s)`);
+
+    return jsonResponse({ processed: results.length, results });
+  } catch (error) {
+    console.error('Error in process-triage-queue function:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error occurred' }, 500);
+  }
+});
@@ -0,0 +1,70 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.81.1';
+
+// Drafts pruned per run. The scheduler calls this every hour.
+const BATCH_SIZE = 50;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Deletes complaints left unsubmitted for over a day. Evidence objects are
+// removed through the Storage API first; a draft whose objects could not be
+// removed is kept and retried on the next run.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+    // Only the scheduler, which holds the service role key, may prune
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const { data: drafts, error } = await supabase.rpc('abandoned_drafts', { _limit: BATCH_SIZE });
+    if (error) throw error;
+
+    let pruned = 0;
+    let failed = 0;
+
+    for (const draft of drafts ?? []) {
+      if (draft.storage_paths.length > 0) {
+        const { error: removeError } = await supabase.storage.from('evidence').remove(draft.storage_paths);
+        if (removeError) {
+          console.error(`Could not remove evidence of draft ${draft.draft_id}:`, removeError);
+          failed++;
+          continue;
+        }
+      }
+
+      const { data: deleted, error: deleteError } = await supabase.rpc('delete_abandoned_draft', {
+        _complaint_id: draft.draft_id,
+      });
+      if (deleteError) {
+        console.error(`Could not delete draft ${draft.draft_id}:`, deleteError);
+        failed++;
+      } else if (deleted) {
+        pruned++;
+      }
+    }
+
+    console.log(`Pruned ${pruned} abandoned draft(s), ${failed} failed`);
+
+    return jsonResponse({ pruned, failed });
+  } catch (error) {
+    console.error('Error in prune-drafts function:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error occurred' }, 500);
+  }
+});
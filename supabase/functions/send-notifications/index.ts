@@ -0,0 +1,124 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.81.1';
+import { renderNotification } from '../_shared/notification-templates.ts';
+import { getTransport, NotificationTransport, SubscriptionGoneError } from '../_shared/notify.ts';
+import { openContact } from '../_shared/subscriptions.ts';
+
+// Notifications sent per run. The scheduler calls this every minute.
+const BATCH_SIZE = 20;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    // Links in notifications point at the web app
+    const appUrl = Deno.env.get('APP_URL') ?? 'http://localhost:8080';
+
+    // Only the scheduler, which holds the service role key, drains the outbox
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const { data: notifications, error: claimError } = await supabase.rpc('claim_notifications', { _limit: BATCH_SIZE });
+    if (claimError) throw claimError;
+
+    // One transport per channel for the whole batch, so SMTP reuses its connection
+    const transports: Record<string, NotificationTransport> = {};
+    const results = [];
+
+    try {
+      for (const notification of notifications ?? []) {
+        let error: string | null = null;
+
+        try {
+          let recipient = notification.recipient;
+          let payload = notification.payload ?? {};
+          let unsubscribeUrl: string | undefined;
+
+          // Anonymous subscribers: the contact is only decrypted here, for sending
+          if (notification.subscription_id) {
+            const { data: subscription, error: subscriptionError } = await supabase
+              .from('tracking_subscriptions')
+              .select('contact_ciphertext')
+              .eq('id', notification.subscription_id)
+              .single();
+            if (subscriptionError) throw subscriptionError;
+
+            const { contact, unsubscribeToken, confirmToken } = await openContact(subscription.contact_ciphertext);
+            recipient = contact;
+            unsubscribeUrl = `${appUrl.replace(/\/$/, '')}/unsubscribe?token=${encodeURIComponent(unsubscribeToken)}`;
+            if (notification.template === 'subscription_confirmation' && confirmToken) {
+              const confirmUrl = `${appUrl.replace(/\/$/, '')}/confirm-subscription?token=${encodeURIComponent(confirmToken)}`;
+              payload = { ...payload, confirm_url: confirmUrl };
+            }
+          }
+
+          const { subject, text, url } = renderNotification(
+            notification.template,
+            notification.channel,
+            payload,
+            appUrl,
+            unsubscribeUrl,
+          );
+          transports[notification.channel] ??= getTransport(notification.channel);
+          await transports[notification.channel].send({
+            channel: notification.channel,
+            to: recipient,
+            subject,
+            text,
+            url,
+          });
+        } catch (sendError) {
+          error = sendError instanceof Error ? sendError.message : 'Delivery failed';
+          // SMTP and SMS rejections tend to quote the recipient, and admins read
+          // last_error next to the complaint; subscribers only get the error class
+          if (notification.subscription_id) {
+            error = `Delivery failed (${sendError instanceof Error ? sendError.name : 'unknown error'})`;
+          }
+
+          // An expired browser subscription is removed with its queued notifications
+          if (sendError instanceof SubscriptionGoneError) {
+            await supabase.from('tracking_subscriptions').delete().eq('id', notification.subscription_id);
+            results.push({ notificationId: notification.id, channel: notification.channel, attempt: notification.attempts, error });
+            continue;
+          }
+        }
+
+        const { error: completeError } = await supabase.rpc('complete_notification', {
+          _notification_id: notification.id,
+          _error: error,
+        });
+        if (completeError) {
+          console.error('Failed to record notification result:', notification.id, completeError);
+        }
+
+        results.push({ notificationId: notification.id, channel: notification.channel, attempt: notification.attempts, error });
+      }
+    } finally {
+      await Promise.all(Object.values(transports).map((transport) => transport.close?.()));
+    }
+
+    console.log(`Processed ${results.length} notification(s)`);
+
+    return jsonResponse({ processed: results.length, results });
+  } catch (error) {
+    console.error('Error in send-notifications function:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error occurred' }, 500);
+  }
+});
@@ -0,0 +1,182 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.81.1';
+import { hashContact, hashToken, newSubscriptionToken, sealContact } from '../_shared/subscriptions.ts';
+import { checkTrackingAccess } from '../_shared/tracking.ts';
+
+// Contacts a single tracking code can register
+const MAX_SUBSCRIPTIONS = 5;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Endpoint and keys are all a push service needs to deliver to the browser
+const isPushSubscription = (value: unknown): value is { endpoint: string; keys: { p256dh: string; auth: string } } => {
+  const subscription = value as { endpoint?: unknown; keys?: { p256dh?: unknown; auth?: unknown } } | null;
+  return (
+    typeof subscription?.endpoint === 'string' &&
+    subscription.endpoint.startsWith('https://') &&
+    typeof subscription.keys?.p256dh === 'string' &&
+    typeof subscription.keys?.auth === 'string'
+  );
+};
+
+// Subscribe:   { action: 'subscribe', trackingCode, trackingSecret, email } or
+//              { action: 'subscribe', trackingCode, trackingSecret, pushSubscription }
+//              An email address is only notified once it is confirmed.
+// Confirm:     { action: 'confirm', token } with the token from the confirmation email
+// Unsubscribe: { action: 'unsubscribe', token } removes one contact;
+//              { action: 'unsubscribe', trackingCode, trackingSecret } removes all of them
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { action, trackingCode, trackingSecret, email, pushSubscription, token } = await req.json();
+
+    if (action === 'confirm' && token) {
+      const { data: confirmed, error } = await supabase
+        .from('tracking_subscriptions')
+        .update({ confirmed_at: new Date().toISOString(), confirm_token_hash: null })
+        .eq('confirm_token_hash', await hashToken(String(token)))
+        .is('confirmed_at', null)
+        .select('id');
+      if (error) throw error;
+
+      return jsonResponse({ success: true, confirmed: confirmed?.length ?? 0 });
+    }
+
+    if (action === 'unsubscribe' && token) {
+      const { data: removed, error } = await supabase
+        .from('tracking_subscriptions')
+        .delete()
+        .eq('unsubscribe_token_hash', await hashToken(String(token)))
+        .select('id');
+      if (error) throw error;
+
+      return jsonResponse({ success: true, removed: removed?.length ?? 0 });
+    }
+
+    if (action !== 'subscribe' && action !== 'unsubscribe') {
+      return jsonResponse({ error: 'A valid action is required', success: false }, 400);
+    }
+
+    const access = await checkTrackingAccess(supabase, req, trackingCode, trackingSecret);
+    if (!access.ok) {
+      return new Response(JSON.stringify({ error: access.error, retryAfter: access.retryAfter, success: false }), {
+        status: access.status,
+        headers: { ...corsHeaders, ...access.headers, 'Content-Type': 'application/json' },
+      });
+    }
+    // Old codes without a secret only show the complaint's status
+    if (access.readOnly) {
+      return jsonResponse({ error: 'Complaints filed before tracking secrets cannot manage notifications', success: false }, 403);
+    }
+    const complaintId = access.complaintId;
+
+    if (action === 'unsubscribe') {
+      const { data: removed, error } = await supabase
+        .from('tracking_subscriptions')
+        .delete()
+        .eq('complaint_id', complaintId)
+        .select('id');
+      if (error) throw error;
+
+      return jsonResponse({ success: true, removed: removed?.length ?? 0 });
+    }
+
+    let channel: 'email' | 'push';
+    let contact: string;
+    // What makes two contacts the same: the address, or the push endpoint
+    let identity: string;
+    if (typeof email === 'string' && EMAIL_PATTERN.test(email.trim())) {
+      channel = 'email';
+      contact = email.trim();
+      identity = contact.toLowerCase();
+    } else if (isPushSubscription(pushSubscription)) {
+      channel = 'push';
+      contact = JSON.stringify({ endpoint: pushSubscription.endpoint, keys: pushSubscription.keys });
+      identity = pushSubscription.endpoint;
+    } else {
+      return jsonResponse({ error: 'A valid email address or push subscription is required', success: false }, 400);
+    }
+
+    const contactHash = await hashContact(complaintId, identity);
+    const { data: existing, error: existingError } = await supabase
+      .from('tracking_subscriptions')
+      .select('id, confirmed_at')
+      .eq('complaint_id', complaintId)
+      .eq('contact_hash', contactHash)
+      .maybeSingle();
+
+    if (existingError) throw existingError;
+    // Registering again neither duplicates the contact nor mails it again
+    if (existing) {
+      return jsonResponse({ success: true, channel, pending: !existing.confirmed_at });
+    }
+
+    const { count, error: countError } = await supabase
+      .from('tracking_subscriptions')
+      .select('id', { count: 'exact', head: true })
+      .eq('complaint_id', complaintId);
+
+    if (countError) throw countError;
+    if ((count ?? 0) >= MAX_SUBSCRIPTIONS) {
+      return jsonResponse({ error: `At most ${MAX_SUBSCRIPTIONS} contacts can follow a complaint`, success: false }, 409);
+    }
+
+    // A push endpoint can only have come from the subscriber's own browser; an
+    // email address could be anyone's, so it waits for its owner to confirm
+    const unsubscribeToken = newSubscriptionToken();
+    const confirmToken = channel === 'email' ? newSubscriptionToken() : undefined;
+    const { data: subscription, error: insertError } = await supabase
+      .from('tracking_subscriptions')
+      .insert({
+        complaint_id: complaintId,
+        channel,
+        contact_ciphertext: await sealContact({ contact, unsubscribeToken, confirmToken }),
+        contact_hash: contactHash,
+        unsubscribe_token_hash: await hashToken(unsubscribeToken),
+        confirm_token_hash: confirmToken ? await hashToken(confirmToken) : null,
+        confirmed_at: confirmToken ? null : new Date().toISOString(),
+      })
+      .select('id')
+      .single();
+
+    // The same contact registered by a concurrent request
+    if (insertError?.code === '23505') {
+      return jsonResponse({ success: true, channel, pending: !!confirmToken });
+    }
+    if (insertError) throw insertError;
+
+    if (confirmToken) {
+      const { error: outboxError } = await supabase.from('notification_outbox').insert({
+        complaint_id: complaintId,
+        subscription_id: subscription.id,
+        channel,
+        template: 'subscription_confirmation',
+        payload: { anonymous: true },
+      });
+      if (outboxError) throw outboxError;
+    }
+
+    return jsonResponse({ success: true, channel, pending: !!confirmToken, unsubscribeToken });
+  } catch (error) {
+    console.error('Error in tracking-subscriptions function:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Internal server error', success: false }, 500);
+  }
+});
@@ -1,4 +1,8 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.81.1';
+import { checkTrackingAccess } from '../_shared/tracking.ts';
+
+// Evidence links handed to tracking-code holders expire after five minutes
+const EVIDENCE_URL_TTL_SECONDS = 300;
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -17,24 +21,72 @@ Deno.serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    const { trackingCode } = await req.json();
+    // replyUpload: { fileHashes } opens a folder for the attachments of the
+    // next reply and returns it instead of the complaint.
+    // reply: { message, attachments, uploadId } posts the reporter's answer to
+    // the officials' messages; attachments must already be in that folder.
+    const { trackingCode, trackingSecret, replyUpload, reply } = await req.json();
 
-    if (!trackingCode) {
+    const access = await checkTrackingAccess(supabase, req, trackingCode, trackingSecret);
+    if (!access.ok) {
       return new Response(
         JSON.stringify({ 
-          error: 'Tracking code is required',
+          error: access.error,
+          retryAfter: access.retryAfter,
           success: false 
         }),
         { 
-          status: 400, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          status: access.status, 
+          headers: { ...corsHeaders, ...access.headers, 'Content-Type': 'application/json' } 
         }
       );
     }
 
-    console.log('Verifying tracking code:', trackingCode);
+    // Old codes without a secret are short enough to guess, so they get the
+    // same redacted status view as a lookup by complaint ID
+    if (access.readOnly) {
+      if (replyUpload || reply) {
+        return new Response(
+          JSON.stringify({ 
+            error: 'Complaints filed before tracking secrets can be viewed but not replied to',
+            success: false 
+          }),
+          { 
+            status: 403, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+
+      const { data: status, error: statusError } = await supabase
+        .from('complaints')
+        .select('id, category, status, created_at, updated_at, tracking_code')
+        .eq('id', access.complaintId)
+        .maybeSingle();
+
+      if (statusError || !status) {
+        console.error('Error fetching complaint:', statusError);
+        return new Response(
+          JSON.stringify({ 
+            error: 'Failed to fetch complaint',
+            success: false 
+          }),
+          { 
+            status: 500, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, readOnly: true, complaint: status }),
+        { 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      );
+    }
 
-    // Fetch complaint by tracking code
+    // Fetch the complaint the credentials matched
     const { data: complaint, error: complaintError } = await supabase
       .from('complaints')
       .select(`
@@ -51,7 +103,7 @@ Deno.serve(async (req) => {
         updated_at,
         tracking_code
       `)
-      .eq('tracking_code', trackingCode)
+      .eq('id', access.complaintId)
       .maybeSingle();
 
     if (complaintError) {
@@ -81,34 +133,136 @@ Deno.serve(async (req) => {
       );
     }
 
+    if (replyUpload) {
+      const { data: upload, error: uploadError } = await supabase
+        .rpc('start_reply_upload', {
+          _complaint_id: complaint.id,
+          _file_hashes: Array.isArray(replyUpload.fileHashes) ? replyUpload.fileHashes : [],
+        })
+        .single();
+
+      if (uploadError) {
+        console.error('Error starting reply upload:', uploadError);
+        return new Response(
+          JSON.stringify({ 
+            error: uploadError.message || 'Failed to prepare attachments',
+            success: false 
+          }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, upload }),
+        { 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      );
+    }
+
+    if (reply) {
+      if (typeof reply.message !== 'string' || !reply.message.trim()) {
+        return new Response(
+          JSON.stringify({ 
+            error: 'Reply message is required',
+            success: false 
+          }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+
+      const { error: replyError } = await supabase.rpc('post_reporter_message', {
+        _complaint_id: complaint.id,
+        _body: reply.message,
+        _attachments: Array.isArray(reply.attachments) ? reply.attachments : [],
+        _upload_id: typeof reply.uploadId === 'string' ? reply.uploadId : null,
+      });
+
+      if (replyError) {
+        console.error('Error posting reply:', replyError);
+        return new Response(
+          JSON.stringify({ 
+            error: replyError.message || 'Failed to send reply',
+            success: false 
+          }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+    }
+
     // Fetch evidence files
     const { data: evidence, error: evidenceError } = await supabase
       .from('evidence_files')
-      .select('id, file_name, file_url, file_type, created_at')
+      .select('id, file_name, storage_path, file_type, created_at, message_id')
       .eq('complaint_id', complaint.id);
 
     if (evidenceError) {
       console.error('Error fetching evidence:', evidenceError);
     }
 
-    // Fetch government notes
+    // The bucket is private; sign a fresh URL for each file on every lookup
+    let signedEvidence = (evidence || []).map((file) => ({ ...file, signed_url: null as string | null }));
+
+    if (signedEvidence.length > 0) {
+      const { data: signed, error: signError } = await supabase.storage
+        .from('evidence')
+        .createSignedUrls(signedEvidence.map((file) => file.storage_path), EVIDENCE_URL_TTL_SECONDS);
+
+      if (signError) {
+        console.error('Error signing evidence URLs:', signError);
+      } else {
+        signedEvidence = signedEvidence.map((file, idx) => ({ ...file, signed_url: signed[idx]?.signedUrl ?? null }));
+      }
+    }
+
+    // Fetch government notes; internal notes stay with officials
     const { data: notes, error: notesError } = await supabase
       .from('gov_notes')
       .select('id, note, created_at')
       .eq('complaint_id', complaint.id)
+      .eq('visibility', 'citizen')
       .order('created_at', { ascending: false });
 
     if (notesError) {
       console.error('Error fetching notes:', notesError);
     }
 
+    // Conversation with officials, with reply attachments taken from the signed evidence
+    const { data: messages, error: messagesError } = await supabase
+      .from('complaint_messages')
+      .select('id, sender_role, body, is_info_request, created_at')
+      .eq('complaint_id', complaint.id)
+      .order('created_at', { ascending: true });
+
+    if (messagesError) {
+      console.error('Error fetching messages:', messagesError);
+    }
+
+    const thread = (messages || []).map((message) => ({
+      ...message,
+      attachments: signedEvidence
+        .filter((file) => file.message_id === message.id)
+        .map((file) => ({ id: file.id, file_name: file.file_name, signed_url: file.signed_url })),
+    }));
+
     return new Response(
       JSON.stringify({
         success: true,
+        readOnly: false,
         complaint: {
           ...complaint,
-          evidence: evidence || [],
-          notes: notes || []
+          evidence: signedEvidence,
+          notes: notes || [],
+          messages: thread
         }
       }),
       { 
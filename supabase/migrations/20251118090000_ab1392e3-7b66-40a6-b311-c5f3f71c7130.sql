@@ -0,0 +1,205 @@
+-- Turn public_logs into a hash-chained, append-only ledger.
+-- Each entry stores the hash of the previous entry for the same complaint and
+-- a hash of its own canonical content, so any edit or removal in the middle of
+-- a complaint's history breaks the chain and can be detected by the Verify page.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE public.public_logs
+ADD COLUMN seq BIGSERIAL,
+ADD COLUMN prev_hash TEXT,
+ADD COLUMN entry_hash TEXT;
+
+-- Timestamps are kept at millisecond precision so browsers can reproduce the
+-- canonical form from the ISO string PostgREST returns
+ALTER TABLE public.public_logs
+ALTER COLUMN "timestamp" SET DEFAULT date_trunc('milliseconds', NOW());
+
+-- Canonical content of a ledger entry:
+-- prev_hash|complaint_id|action|metadata_hash|epoch_ms
+CREATE OR REPLACE FUNCTION public.ledger_entry_hash(
+  _prev_hash TEXT,
+  _complaint_id UUID,
+  _action TEXT,
+  _metadata_hash TEXT,
+  _timestamp TIMESTAMPTZ
+)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT encode(
+    extensions.digest(
+      concat_ws('|',
+        _prev_hash,
+        _complaint_id::text,
+        _action,
+        _metadata_hash,
+        (extract(epoch FROM _timestamp) * 1000)::bigint::text
+      ),
+      'sha256'
+    ),
+    'hex'
+  )
+$$;
+
+-- Backfill the chain for entries written before this migration, renumbering
+-- seq so it follows chain order
+DO $$
+DECLARE
+  log_row RECORD;
+  last_complaint UUID;
+  last_hash TEXT;
+  truncated TIMESTAMPTZ;
+BEGIN
+  FOR log_row IN
+    SELECT id, complaint_id, action, metadata_hash, "timestamp"
+    FROM public.public_logs
+    ORDER BY complaint_id, "timestamp", id
+  LOOP
+    IF last_complaint IS DISTINCT FROM log_row.complaint_id THEN
+      last_hash := repeat('0', 64);
+      last_complaint := log_row.complaint_id;
+    END IF;
+
+    truncated := date_trunc('milliseconds', coalesce(log_row."timestamp", NOW()));
+
+    UPDATE public.public_logs
+    SET seq = nextval(pg_get_serial_sequence('public.public_logs', 'seq')),
+        "timestamp" = truncated,
+        prev_hash = last_hash,
+        entry_hash = public.ledger_entry_hash(last_hash, log_row.complaint_id, log_row.action, log_row.metadata_hash, truncated)
+    WHERE id = log_row.id
+    RETURNING entry_hash INTO last_hash;
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.public_logs
+ALTER COLUMN prev_hash SET NOT NULL,
+ALTER COLUMN entry_hash SET NOT NULL,
+ALTER COLUMN "timestamp" SET NOT NULL,
+ADD CONSTRAINT public_logs_entry_hash_key UNIQUE (entry_hash);
+
+CREATE INDEX idx_public_logs_complaint_seq ON public.public_logs(complaint_id, seq);
+
+-- Link new entries to the chain and compute their hash server-side.
+-- Client-supplied values for the chain columns are always overwritten.
+CREATE OR REPLACE FUNCTION public.chain_public_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Serialize appends per complaint so concurrent writers cannot fork the chain
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.complaint_id::text));
+
+  SELECT entry_hash INTO NEW.prev_hash
+  FROM public.public_logs
+  WHERE complaint_id = NEW.complaint_id
+  ORDER BY seq DESC
+  LIMIT 1;
+
+  NEW.prev_hash := coalesce(NEW.prev_hash, repeat('0', 64));
+  NEW."timestamp" := date_trunc('milliseconds', NOW());
+  NEW.entry_hash := public.ledger_entry_hash(NEW.prev_hash, NEW.complaint_id, NEW.action, NEW.metadata_hash, NEW."timestamp");
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER chain_public_log_entry
+  BEFORE INSERT ON public.public_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.chain_public_log();
+
+-- The ledger is append-only for everyone, including the service role.
+-- Note this also blocks deleting a complaint that already has ledger entries.
+CREATE OR REPLACE FUNCTION public.reject_public_log_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'public_logs is append-only: % is not allowed', TG_OP;
+END;
+$$;
+
+CREATE TRIGGER prevent_public_log_update
+  BEFORE UPDATE OR DELETE ON public.public_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reject_public_log_change();
+
+CREATE TRIGGER prevent_public_log_truncate
+  BEFORE TRUNCATE ON public.public_logs
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.reject_public_log_change();
+
+-- Entries may only be written by the database itself
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.public_logs FROM anon, authenticated, service_role;
+
+-- Append a ledger entry. Only callable from other SECURITY DEFINER functions.
+CREATE OR REPLACE FUNCTION public.append_public_log(
+  _complaint_id UUID,
+  _action TEXT,
+  _metadata_hash TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.public_logs (complaint_id, action, metadata_hash)
+  VALUES (_complaint_id, _action, _metadata_hash);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.append_public_log(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Record complaint creation in the ledger
+CREATE OR REPLACE FUNCTION public.log_complaint_created()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.append_public_log(
+    NEW.id,
+    'complaint_created',
+    encode(
+      extensions.digest(
+        concat_ws('|', NEW.id::text, NEW.title, NEW.description, NEW.category::text, NEW.created_at::text),
+        'sha256'
+      ),
+      'hex'
+    )
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_complaint_created
+  AFTER INSERT ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_complaint_created();
+
+-- Record each piece of evidence in the ledger
+CREATE OR REPLACE FUNCTION public.log_evidence_added()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.append_public_log(NEW.complaint_id, 'evidence_added', NEW.file_hash);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_evidence_added
+  AFTER INSERT ON public.evidence_files
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_evidence_added();
@@ -0,0 +1,129 @@
+-- Compute complaints.complaint_hash server-side and lock the hashed content.
+-- The canonical form hashes each field separately and then hashes the joined
+-- field digests, so no escaping rules are needed to reproduce it in a browser:
+--   sha256('cw-complaint-v1|' || sha256(title) || '|' || sha256(description) || ...)
+-- Fields, in order: title, description, category, location, latitude,
+-- longitude, evidence hashes (comma-joined), created_at (epoch ms).
+-- Coordinates use their 8-decimal text form; missing values hash as ''.
+CREATE OR REPLACE FUNCTION public.complaint_content_hash(
+  _title TEXT,
+  _description TEXT,
+  _category complaint_category,
+  _location TEXT,
+  _latitude DECIMAL,
+  _longitude DECIMAL,
+  _evidence_hashes TEXT[],
+  _created_at TIMESTAMPTZ
+)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT encode(
+    extensions.digest(
+      'cw-complaint-v1|' || array_to_string(
+        ARRAY(
+          SELECT encode(extensions.digest(field, 'sha256'), 'hex')
+          FROM unnest(ARRAY[
+            coalesce(_title, ''),
+            coalesce(_description, ''),
+            coalesce(_category::text, ''),
+            coalesce(_location, ''),
+            coalesce(round(_latitude, 8)::text, ''),
+            coalesce(round(_longitude, 8)::text, ''),
+            array_to_string(coalesce(_evidence_hashes, '{}'), ','),
+            (extract(epoch FROM _created_at) * 1000)::bigint::text
+          ]) WITH ORDINALITY AS f(field, ord)
+          ORDER BY ord
+        ),
+        '|'
+      ),
+      'sha256'
+    ),
+    'hex'
+  )
+$$;
+
+-- Backfill hashes for complaints submitted before this migration
+UPDATE public.complaints
+SET created_at = date_trunc('milliseconds', coalesce(created_at, NOW())),
+    evidence_hashes = coalesce(evidence_hashes, '{}')
+WHERE complaint_hash IS NULL;
+
+UPDATE public.complaints
+SET complaint_hash = public.complaint_content_hash(
+  title, description, category, location, latitude, longitude, evidence_hashes, created_at
+)
+WHERE complaint_hash IS NULL;
+
+-- Hash new complaints on insert. The submission time is always set by the
+-- server so clients cannot backdate a complaint.
+CREATE OR REPLACE FUNCTION public.set_complaint_hash()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.created_at := date_trunc('milliseconds', NOW());
+  NEW.evidence_hashes := coalesce(NEW.evidence_hashes, '{}');
+  NEW.complaint_hash := public.complaint_content_hash(
+    NEW.title,
+    NEW.description,
+    NEW.category,
+    NEW.location,
+    NEW.latitude,
+    NEW.longitude,
+    NEW.evidence_hashes,
+    NEW.created_at
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_complaint_hash
+  BEFORE INSERT ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_complaint_hash();
+
+-- Hashed content can never change after submission
+CREATE OR REPLACE FUNCTION public.lock_complaint_content()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.title IS DISTINCT FROM OLD.title
+    OR NEW.description IS DISTINCT FROM OLD.description
+    OR NEW.category IS DISTINCT FROM OLD.category
+    OR NEW.location IS DISTINCT FROM OLD.location
+    OR NEW.latitude IS DISTINCT FROM OLD.latitude
+    OR NEW.longitude IS DISTINCT FROM OLD.longitude
+    OR NEW.evidence_hashes IS DISTINCT FROM OLD.evidence_hashes
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+    OR NEW.complaint_hash IS DISTINCT FROM OLD.complaint_hash
+  THEN
+    RAISE EXCEPTION 'Complaint content is locked after submission';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER lock_complaint_content
+  BEFORE UPDATE ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.lock_complaint_content();
+
+-- Anchor the creation ledger entry to the published complaint hash
+CREATE OR REPLACE FUNCTION public.log_complaint_created()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.append_public_log(NEW.id, 'complaint_created', NEW.complaint_hash);
+  RETURN NEW;
+END;
+$$;
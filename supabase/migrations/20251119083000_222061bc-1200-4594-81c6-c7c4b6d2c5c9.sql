@@ -0,0 +1,244 @@
+-- Audit every change to a complaint in the ledger, not just its creation.
+-- Entries now record the actor's role (and identity only for officials),
+-- displayable old/new values where they are not sensitive, and a hash of the
+-- full old/new values in metadata_hash.
+ALTER TABLE public.public_logs
+ADD COLUMN actor_role TEXT,
+ADD COLUMN actor_id UUID,
+ADD COLUMN old_value TEXT,
+ADD COLUMN new_value TEXT;
+
+-- Complaints can be assigned to an official; changes are audited below
+ALTER TABLE public.complaints
+ADD COLUMN assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Role of whoever is making the current request. Reporters are never identified.
+CREATE OR REPLACE FUNCTION public.current_actor_role()
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN auth.uid() IS NULL THEN
+      CASE WHEN auth.role() = 'anon' THEN 'anonymous' ELSE 'system' END
+    WHEN public.has_role(auth.uid(), 'admin') THEN 'admin'
+    WHEN public.has_role(auth.uid(), 'government') THEN 'government'
+    ELSE 'citizen'
+  END
+$$;
+
+-- Canonical content now extends the original form with the actor and values:
+-- prev_hash|complaint_id|action|metadata_hash|epoch_ms|actor_role|actor_id|old_value|new_value
+-- Entries written before actor tracking (actor_role IS NULL) keep the original form.
+DROP FUNCTION public.ledger_entry_hash(TEXT, UUID, TEXT, TEXT, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION public.ledger_entry_hash(
+  _prev_hash TEXT,
+  _complaint_id UUID,
+  _action TEXT,
+  _metadata_hash TEXT,
+  _timestamp TIMESTAMPTZ,
+  _actor_role TEXT,
+  _actor_id UUID,
+  _old_value TEXT,
+  _new_value TEXT
+)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT encode(
+    extensions.digest(
+      concat_ws('|',
+        _prev_hash,
+        _complaint_id::text,
+        _action,
+        _metadata_hash,
+        (extract(epoch FROM _timestamp) * 1000)::bigint::text
+      ) || CASE
+        WHEN _actor_role IS NULL THEN ''
+        ELSE '|' || concat_ws('|',
+          _actor_role,
+          coalesce(_actor_id::text, ''),
+          coalesce(_old_value, ''),
+          coalesce(_new_value, '')
+        )
+      END,
+      'sha256'
+    ),
+    'hex'
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.chain_public_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Serialize appends per complaint so concurrent writers cannot fork the chain
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.complaint_id::text));
+
+  SELECT entry_hash INTO NEW.prev_hash
+  FROM public.public_logs
+  WHERE complaint_id = NEW.complaint_id
+  ORDER BY seq DESC
+  LIMIT 1;
+
+  NEW.prev_hash := coalesce(NEW.prev_hash, repeat('0', 64));
+  NEW."timestamp" := date_trunc('milliseconds', NOW());
+  NEW.entry_hash := public.ledger_entry_hash(
+    NEW.prev_hash,
+    NEW.complaint_id,
+    NEW.action,
+    NEW.metadata_hash,
+    NEW."timestamp",
+    NEW.actor_role,
+    NEW.actor_id,
+    NEW.old_value,
+    NEW.new_value
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP FUNCTION public.append_public_log(UUID, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.append_public_log(
+  _complaint_id UUID,
+  _action TEXT,
+  _metadata_hash TEXT,
+  _old_value TEXT DEFAULT NULL,
+  _new_value TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor TEXT := public.current_actor_role();
+BEGIN
+  INSERT INTO public.public_logs (complaint_id, action, metadata_hash, actor_role, actor_id, old_value, new_value)
+  VALUES (
+    _complaint_id,
+    _action,
+    _metadata_hash,
+    actor,
+    CASE WHEN actor IN ('government', 'admin') THEN auth.uid() END,
+    _old_value,
+    _new_value
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.append_public_log(UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- sha256 of old and new values, used as metadata_hash for change entries
+CREATE OR REPLACE FUNCTION public.change_hash(_old JSONB, _new JSONB)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT encode(
+    extensions.digest(coalesce(_old::text, '') || '|' || coalesce(_new::text, ''), 'sha256'),
+    'hex'
+  )
+$$;
+
+-- Record status, urgency and assignment changes
+CREATE OR REPLACE FUNCTION public.log_complaint_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM public.append_public_log(
+      NEW.id,
+      'status_changed',
+      public.change_hash(to_jsonb(OLD.status), to_jsonb(NEW.status)),
+      OLD.status::text,
+      NEW.status::text
+    );
+  END IF;
+
+  IF NEW.urgency_score IS DISTINCT FROM OLD.urgency_score THEN
+    PERFORM public.append_public_log(
+      NEW.id,
+      'urgency_changed',
+      public.change_hash(to_jsonb(OLD.urgency_score), to_jsonb(NEW.urgency_score)),
+      OLD.urgency_score::text,
+      NEW.urgency_score::text
+    );
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    PERFORM public.append_public_log(
+      NEW.id,
+      'complaint_assigned',
+      public.change_hash(to_jsonb(OLD.assigned_to), to_jsonb(NEW.assigned_to)),
+      OLD.assigned_to::text,
+      NEW.assigned_to::text
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_complaint_changes
+  AFTER UPDATE ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_complaint_changes();
+
+-- Record official notes. Only the note id is shown; its text is hashed.
+CREATE OR REPLACE FUNCTION public.log_note_added()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.append_public_log(
+    NEW.complaint_id,
+    'note_added',
+    public.change_hash(NULL, to_jsonb(NEW.note)),
+    NULL,
+    NEW.id::text
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_note_added
+  AFTER INSERT ON public.gov_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_note_added();
+
+-- Evidence reads cannot be seen by triggers, so viewers report them explicitly
+CREATE OR REPLACE FUNCTION public.record_evidence_views(_evidence_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  evidence RECORD;
+BEGIN
+  FOR evidence IN
+    SELECT id, complaint_id, file_hash
+    FROM public.evidence_files
+    WHERE id = ANY(_evidence_ids)
+  LOOP
+    PERFORM public.append_public_log(evidence.complaint_id, 'evidence_viewed', evidence.file_hash, NULL, evidence.id::text);
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,74 @@
+-- Complaint status state machine.
+-- complaint_status_transitions is the single source of truth for which status
+-- changes are allowed; the trigger below enforces it and the Gov Portal reads
+-- it to decide which options to offer.
+CREATE TABLE public.complaint_status_transitions (
+  from_status complaint_status NOT NULL,
+  to_status complaint_status NOT NULL,
+  required_field TEXT CHECK (required_field IN ('rejection_reason', 'resolution_summary')),
+  PRIMARY KEY (from_status, to_status)
+);
+
+INSERT INTO public.complaint_status_transitions (from_status, to_status, required_field) VALUES
+  ('pending', 'in_review', NULL),
+  ('pending', 'rejected', 'rejection_reason'),
+  ('in_review', 'verified', NULL),
+  ('in_review', 'rejected', 'rejection_reason'),
+  ('verified', 'in_review', NULL),
+  ('verified', 'resolved', 'resolution_summary');
+
+ALTER TABLE public.complaint_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view status transitions"
+  ON public.complaint_status_transitions FOR SELECT
+  USING (true);
+
+-- Fields that must accompany certain transitions
+ALTER TABLE public.complaints
+ADD COLUMN rejection_reason TEXT,
+ADD COLUMN resolution_summary TEXT;
+
+CREATE OR REPLACE FUNCTION public.enforce_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  transition RECORD;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status IS DISTINCT FROM 'pending' THEN
+      RAISE EXCEPTION 'New complaints must start as pending';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO transition
+  FROM public.complaint_status_transitions
+  WHERE from_status = OLD.status AND to_status = NEW.status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid status transition from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF transition.required_field = 'rejection_reason' AND coalesce(btrim(NEW.rejection_reason), '') = '' THEN
+    RAISE EXCEPTION 'A rejection reason is required to reject a complaint';
+  END IF;
+
+  IF transition.required_field = 'resolution_summary' AND coalesce(btrim(NEW.resolution_summary), '') = '' THEN
+    RAISE EXCEPTION 'A resolution summary is required to resolve a complaint';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_status_transition
+  BEFORE INSERT OR UPDATE OF status ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_status_transition();
@@ -0,0 +1,39 @@
+-- Only owners and officials may read complaints, evidence and notes directly.
+-- The "Anyone can view ..." policies opened every row, including reporter
+-- identity and official notes, to the public.
+DROP POLICY "Anyone can view all complaints" ON public.complaints;
+DROP POLICY "Anyone can view all evidence files" ON public.evidence_files;
+DROP POLICY "Anyone can view all notes" ON public.gov_notes;
+
+-- Public verification returns only the fields needed to check a complaint's
+-- hash and status, looked up by id or by tracking code.
+CREATE OR REPLACE FUNCTION public.verify_complaint(
+  _complaint_id UUID DEFAULT NULL,
+  _tracking_code TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  category complaint_category,
+  status complaint_status,
+  created_at TIMESTAMPTZ,
+  location TEXT,
+  latitude DECIMAL,
+  longitude DECIMAL,
+  evidence_hashes TEXT[],
+  complaint_hash TEXT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.id, c.title, c.category, c.status, c.created_at, c.location,
+         c.latitude, c.longitude, c.evidence_hashes, c.complaint_hash
+  FROM public.complaints c
+  WHERE (_complaint_id IS NOT NULL AND c.id = _complaint_id)
+     OR (_tracking_code IS NOT NULL AND c.tracking_code = upper(_tracking_code))
+  LIMIT 1
+$$;
+
+GRANT EXECUTE ON FUNCTION public.verify_complaint(UUID, TEXT) TO anon, authenticated;
@@ -0,0 +1,73 @@
+-- Public transparency data.
+-- transparency_complaints is the only public window onto complaints: category,
+-- status, dates and a location rounded to one decimal place (roughly 10 km).
+-- Titles, descriptions, free-text locations, reporters and evidence stay in
+-- the owner/official-only tables. The view runs as its owner, so it is not
+-- limited by the complaints RLS policies.
+CREATE VIEW public.transparency_complaints
+WITH (security_barrier = true)
+AS
+SELECT
+  id,
+  category,
+  status,
+  round(latitude, 1) AS approx_latitude,
+  round(longitude, 1) AS approx_longitude,
+  created_at::date AS reported_on,
+  updated_at::date AS updated_on
+FROM public.complaints;
+
+GRANT SELECT ON public.transparency_complaints TO anon, authenticated;
+
+-- Anonymous complaints were readable by anyone so the submitter could read
+-- back its tracking code. Submission now goes through a function instead.
+DROP POLICY "Anyone can view complaints with tracking code" ON public.complaints;
+DROP POLICY "Anonymous users can insert evidence" ON public.evidence_files;
+
+CREATE OR REPLACE FUNCTION public.submit_anonymous_complaint(
+  _title TEXT,
+  _description TEXT,
+  _category complaint_category,
+  _location TEXT,
+  _latitude DECIMAL,
+  _longitude DECIMAL,
+  _evidence_hashes TEXT[]
+)
+RETURNS TABLE (id UUID, tracking_code TEXT)
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.complaints (
+    user_id, is_anonymous, title, description, category, location,
+    latitude, longitude, evidence_hashes, urgency_score
+  )
+  VALUES (
+    NULL, true, _title, _description, _category, _location,
+    _latitude, _longitude, _evidence_hashes, 5
+  )
+  RETURNING id, tracking_code
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_anonymous_complaint(TEXT, TEXT, complaint_category, TEXT, DECIMAL, DECIMAL, TEXT[]) TO anon, authenticated;
+
+-- Evidence for an anonymous complaint must be one of the files hashed into it
+CREATE OR REPLACE FUNCTION public.accepts_anonymous_evidence(_complaint_id UUID, _file_hash TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.complaints
+    WHERE id = _complaint_id
+      AND is_anonymous = true
+      AND _file_hash = ANY(evidence_hashes)
+  )
+$$;
+
+CREATE POLICY "Anyone can insert evidence for anonymous complaints"
+  ON public.evidence_files FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (public.accepts_anonymous_evidence(complaint_id, file_hash));
@@ -0,0 +1,51 @@
+-- Serve evidence only through short-lived signed URLs.
+-- The bucket goes back to private and evidence_files keeps the object's path
+-- in the bucket instead of a permanent public URL.
+UPDATE storage.buckets
+SET public = false
+WHERE id = 'evidence';
+
+DROP POLICY "Anyone can view evidence files" ON storage.objects;
+
+-- Any signed-in user could read every object; limit reads to the uploader's
+-- own folder. Officials keep "Government can view all evidence".
+DROP POLICY "Users can view evidence for own complaints" ON storage.objects;
+
+CREATE POLICY "Users can view evidence for own complaints"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'evidence' AND
+    (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+ALTER TABLE public.evidence_files
+RENAME COLUMN file_url TO storage_path;
+
+-- Public URLs were built with encodeURI, so decode the path part of them
+CREATE FUNCTION pg_temp.uri_decode(_value TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT coalesce(
+    convert_from(
+      string_agg(
+        CASE
+          WHEN t.m[1] ~ '^%[0-9A-Fa-f]{2}$' THEN decode(substr(t.m[1], 2), 'hex')
+          ELSE convert_to(t.m[1], 'UTF8')
+        END,
+        ''::bytea ORDER BY t.ord
+      ),
+      'UTF8'
+    ),
+    ''
+  )
+  FROM regexp_matches(_value, '%[0-9A-Fa-f]{2}|[^%]+|%', 'g') WITH ORDINALITY AS t(m, ord)
+$$;
+
+UPDATE public.evidence_files
+SET storage_path = pg_temp.uri_decode(
+  regexp_replace(storage_path, '^.*/storage/v1/object/public/evidence/', '')
+)
+WHERE storage_path ~ '^https?://';
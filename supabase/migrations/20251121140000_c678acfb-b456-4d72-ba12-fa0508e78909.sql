@@ -0,0 +1,5 @@
+-- Evidence is stripped of identifying metadata in the browser before upload.
+-- file_hash is the hash of the stored (sanitized) file; reporters may also
+-- record the hash of the untouched original to prove they hold it.
+ALTER TABLE public.evidence_files
+ADD COLUMN original_file_hash TEXT;
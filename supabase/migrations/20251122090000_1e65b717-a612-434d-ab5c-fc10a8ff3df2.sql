@@ -0,0 +1,124 @@
+-- Two-phase submission. A complaint is created first so its evidence can be
+-- uploaded against it, and is only submitted once finalize_complaint() has
+-- confirmed every committed evidence hash is stored. Until then submitted_at
+-- is NULL and the complaint is hidden from officials and public statistics.
+ALTER TABLE public.complaints
+ADD COLUMN submitted_at TIMESTAMPTZ;
+
+UPDATE public.complaints
+SET submitted_at = created_at;
+
+-- submitted_at can only be set by finalize_complaint()
+CREATE OR REPLACE FUNCTION public.clear_submitted_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.submitted_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_submitted_at
+  BEFORE INSERT ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.clear_submitted_at();
+
+CREATE OR REPLACE FUNCTION public.lock_complaint_content()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.title IS DISTINCT FROM OLD.title
+    OR NEW.description IS DISTINCT FROM OLD.description
+    OR NEW.category IS DISTINCT FROM OLD.category
+    OR NEW.location IS DISTINCT FROM OLD.location
+    OR NEW.latitude IS DISTINCT FROM OLD.latitude
+    OR NEW.longitude IS DISTINCT FROM OLD.longitude
+    OR NEW.evidence_hashes IS DISTINCT FROM OLD.evidence_hashes
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+    OR NEW.complaint_hash IS DISTINCT FROM OLD.complaint_hash
+    OR (OLD.submitted_at IS NOT NULL AND NEW.submitted_at IS DISTINCT FROM OLD.submitted_at)
+  THEN
+    RAISE EXCEPTION 'Complaint content is locked after submission';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.finalize_complaint(_complaint_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  complaint RECORD;
+  missing INTEGER;
+  finalized_at TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO complaint
+  FROM public.complaints
+  WHERE id = _complaint_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Complaint not found';
+  END IF;
+
+  IF NOT complaint.is_anonymous AND complaint.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the reporter can finalize a complaint';
+  END IF;
+
+  IF complaint.submitted_at IS NOT NULL THEN
+    RETURN complaint.submitted_at;
+  END IF;
+
+  -- Every committed hash needs an evidence record whose object is in storage
+  SELECT count(*) INTO missing
+  FROM unnest(complaint.evidence_hashes) AS h(file_hash)
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM public.evidence_files e
+    JOIN storage.objects o ON o.bucket_id = 'evidence' AND o.name = e.storage_path
+    WHERE e.complaint_id = _complaint_id
+      AND e.file_hash = h.file_hash
+  );
+
+  IF missing > 0 THEN
+    RAISE EXCEPTION '% evidence file(s) have not finished uploading', missing;
+  END IF;
+
+  UPDATE public.complaints
+  SET submitted_at = NOW()
+  WHERE id = _complaint_id
+  RETURNING submitted_at INTO finalized_at;
+
+  RETURN finalized_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.finalize_complaint(UUID) TO anon, authenticated;
+
+-- Drafts are not part of the public record
+CREATE OR REPLACE VIEW public.transparency_complaints
+WITH (security_barrier = true)
+AS
+SELECT
+  id,
+  category,
+  status,
+  round(latitude, 1) AS approx_latitude,
+  round(longitude, 1) AS approx_longitude,
+  created_at::date AS reported_on,
+  updated_at::date AS updated_on
+FROM public.complaints
+WHERE submitted_at IS NOT NULL;
+
+-- Enforce the limits the upload form checks
+UPDATE storage.buckets
+SET file_size_limit = 52428800,
+    allowed_mime_types = ARRAY['image/*', 'video/*', 'audio/*', 'application/pdf']
+WHERE id = 'evidence';
@@ -0,0 +1,82 @@
+-- Content-addressed evidence storage. Objects are named by the SHA-256 of the
+-- stored (sanitized) file inside the uploader's folder: <user id>/<hash>, or
+-- anonymous/<hash> for anonymous complaints. Identical files share one object
+-- and storage paths no longer carry original file names, which are kept only
+-- in evidence_files.file_name.
+DROP POLICY "Users can upload evidence" ON storage.objects;
+DROP POLICY "Anonymous users can upload evidence" ON storage.objects;
+
+CREATE POLICY "Users can upload evidence"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'evidence' AND
+    (storage.foldername(name))[1] IN (auth.uid()::text, 'anonymous') AND
+    name ~ '^[^/]+/[0-9a-f]{64}$'
+  );
+
+CREATE POLICY "Anonymous users can upload evidence"
+  ON storage.objects FOR INSERT
+  TO anon
+  WITH CHECK (
+    bucket_id = 'evidence' AND
+    name ~ '^anonymous/[0-9a-f]{64}$'
+  );
+
+-- New evidence must point at the object named by its own hash. Older rows keep
+-- their name-based paths.
+ALTER TABLE public.evidence_files
+ADD CONSTRAINT evidence_files_content_addressed
+CHECK (split_part(storage_path, '/', 2) = file_hash AND storage_path ~ '^[^/]+/[0-9a-f]{64}$')
+NOT VALID;
+
+CREATE INDEX idx_evidence_files_file_hash ON public.evidence_files(file_hash);
+CREATE INDEX idx_evidence_files_original_file_hash ON public.evidence_files(original_file_hash)
+  WHERE original_file_hash IS NOT NULL;
+
+-- Evidence shared between submitted complaints, for officials to review as a
+-- potential link. Files match when their stored or original hashes are equal,
+-- so a file stripped of metadata still matches an unstripped copy of it.
+-- Without _complaint_id every match across all complaints is returned.
+CREATE OR REPLACE FUNCTION public.shared_evidence(_complaint_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  complaint_id UUID,
+  file_name TEXT,
+  file_hash TEXT,
+  related_complaint_id UUID,
+  related_title TEXT,
+  related_status complaint_status,
+  related_created_at TIMESTAMPTZ,
+  related_file_name TEXT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    e.complaint_id,
+    e.file_name,
+    e.file_hash,
+    o.complaint_id,
+    oc.title,
+    oc.status,
+    oc.created_at,
+    o.file_name
+  FROM public.evidence_files e
+  JOIN public.complaints c ON c.id = e.complaint_id
+  JOIN public.evidence_files o
+    ON o.complaint_id <> e.complaint_id
+   AND (
+     e.file_hash IN (o.file_hash, o.original_file_hash) OR
+     e.original_file_hash IN (o.file_hash, o.original_file_hash)
+   )
+  JOIN public.complaints oc ON oc.id = o.complaint_id
+  WHERE (public.has_role(auth.uid(), 'government') OR public.has_role(auth.uid(), 'admin'))
+    AND (_complaint_id IS NULL OR e.complaint_id = _complaint_id)
+    AND c.submitted_at IS NOT NULL
+    AND oc.submitted_at IS NOT NULL
+  ORDER BY oc.created_at DESC
+$$;
+
+GRANT EXECUTE ON FUNCTION public.shared_evidence(UUID) TO authenticated;
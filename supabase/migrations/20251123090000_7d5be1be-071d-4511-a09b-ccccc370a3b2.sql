@@ -0,0 +1,126 @@
+-- Persist AI analyses in complaints.ai_metadata:
+--   latest            current analysis with its model, prompt version, input hash and time
+--   history           earlier analyses, newest first
+--   urgency_override  an official's urgency score, which AI analyses do not replace
+CREATE OR REPLACE FUNCTION public.record_ai_analysis(
+  _complaint_id UUID,
+  _analysis JSONB,
+  _model TEXT,
+  _prompt_version TEXT,
+  _input_hash TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  metadata JSONB;
+  entry JSONB;
+  ai_urgency INTEGER;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'government') OR public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only officials can record AI analyses';
+  END IF;
+
+  SELECT coalesce(ai_metadata, '{}'::jsonb) INTO metadata
+  FROM public.complaints
+  WHERE id = _complaint_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Complaint not found';
+  END IF;
+
+  entry := jsonb_build_object(
+    'analysis', _analysis,
+    'model', _model,
+    'prompt_version', _prompt_version,
+    'input_hash', _input_hash,
+    'analyzed_at', now(),
+    'analyzed_by', auth.uid()
+  );
+
+  metadata := metadata || jsonb_build_object(
+    'latest', entry,
+    'history', CASE
+      WHEN metadata ? 'latest' THEN jsonb_build_array(metadata->'latest') || coalesce(metadata->'history', '[]'::jsonb)
+      ELSE coalesce(metadata->'history', '[]'::jsonb)
+    END
+  );
+
+  IF jsonb_typeof(_analysis->'urgency_score') = 'number' THEN
+    ai_urgency := least(10, greatest(1, round((_analysis->>'urgency_score')::numeric)));
+  END IF;
+
+  UPDATE public.complaints
+  SET ai_metadata = metadata,
+      urgency_score = CASE
+        WHEN ai_urgency IS NOT NULL AND NOT metadata ? 'urgency_override' THEN ai_urgency
+        ELSE urgency_score
+      END
+  WHERE id = _complaint_id;
+
+  PERFORM public.append_public_log(
+    _complaint_id,
+    'ai_analyzed',
+    public.change_hash(NULL, entry),
+    NULL,
+    _model
+  );
+
+  RETURN metadata;
+END;
+$$;
+
+-- Set an official urgency score, or clear it by omitting _score to go back to the
+-- latest AI score
+CREATE OR REPLACE FUNCTION public.set_urgency_override(_complaint_id UUID, _score INTEGER DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  metadata JSONB;
+  ai_urgency INTEGER;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'government') OR public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only officials can override urgency';
+  END IF;
+
+  IF _score IS NOT NULL AND _score NOT BETWEEN 1 AND 10 THEN
+    RAISE EXCEPTION 'Urgency score must be between 1 and 10';
+  END IF;
+
+  SELECT coalesce(ai_metadata, '{}'::jsonb) INTO metadata
+  FROM public.complaints
+  WHERE id = _complaint_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Complaint not found';
+  END IF;
+
+  IF _score IS NULL THEN
+    metadata := metadata - 'urgency_override';
+    IF jsonb_typeof(metadata #> '{latest,analysis,urgency_score}') = 'number' THEN
+      ai_urgency := least(10, greatest(1, round((metadata #>> '{latest,analysis,urgency_score}')::numeric)));
+    END IF;
+  ELSE
+    metadata := metadata || jsonb_build_object(
+      'urgency_override', jsonb_build_object('score', _score, 'set_by', auth.uid(), 'set_at', now())
+    );
+  END IF;
+
+  UPDATE public.complaints
+  SET ai_metadata = metadata,
+      urgency_score = coalesce(_score, ai_urgency, urgency_score)
+  WHERE id = _complaint_id;
+
+  RETURN metadata;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_ai_analysis(UUID, JSONB, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_urgency_override(UUID, INTEGER) TO authenticated;
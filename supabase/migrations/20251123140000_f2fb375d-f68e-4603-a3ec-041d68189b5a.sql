@@ -0,0 +1,252 @@
+-- Automatic AI triage. Submitting a complaint queues a job; the
+-- process-triage-queue edge function, run every minute by pg_cron, claims due
+-- jobs, runs analyze-complaint for them and reports the outcome. Failures,
+-- including AI rate limits (429) and exhausted credits (402), are retried with
+-- exponential backoff until max_attempts, then left as failed for an admin.
+ALTER TABLE public.complaints
+ADD COLUMN risk_level TEXT,
+ADD COLUMN is_critical BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE public.ai_triage_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  complaint_id UUID NOT NULL UNIQUE REFERENCES public.complaints(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'done', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 6,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  last_status_code INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ai_triage_jobs_due ON public.ai_triage_jobs(next_attempt_at)
+  WHERE status = 'pending';
+
+ALTER TABLE public.ai_triage_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Officials can view triage jobs"
+  ON public.ai_triage_jobs FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'government') OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE TRIGGER update_ai_triage_jobs_updated_at
+  BEFORE UPDATE ON public.ai_triage_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Queue complaints once they are submitted; drafts are not analyzed
+CREATE OR REPLACE FUNCTION public.enqueue_ai_triage()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.submitted_at IS NULL AND NEW.submitted_at IS NOT NULL THEN
+    INSERT INTO public.ai_triage_jobs (complaint_id)
+    VALUES (NEW.id)
+    ON CONFLICT (complaint_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_ai_triage
+  AFTER UPDATE OF submitted_at ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_ai_triage();
+
+-- Submitted complaints that were never analyzed
+INSERT INTO public.ai_triage_jobs (complaint_id)
+SELECT id
+FROM public.complaints
+WHERE submitted_at IS NOT NULL
+  AND NOT coalesce(ai_metadata, '{}'::jsonb) ? 'latest';
+
+-- Claim due jobs for a worker. Jobs left processing by a worker that died are
+-- picked up again after ten minutes.
+CREATE OR REPLACE FUNCTION public.claim_ai_triage_jobs(_limit INTEGER DEFAULT 5)
+RETURNS SETOF public.ai_triage_jobs
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.ai_triage_jobs j
+  SET status = 'processing',
+      attempts = j.attempts + 1,
+      locked_at = now()
+  WHERE j.id IN (
+    SELECT id
+    FROM public.ai_triage_jobs
+    WHERE (status = 'pending' AND next_attempt_at <= now())
+       OR (status = 'processing' AND locked_at < now() - interval '10 minutes')
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*
+$$;
+
+-- Record a job's outcome. Failed attempts wait 1, 2, 4 ... minutes (at most an
+-- hour) before the next one.
+CREATE OR REPLACE FUNCTION public.complete_ai_triage_job(
+  _job_id UUID,
+  _error TEXT DEFAULT NULL,
+  _status_code INTEGER DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.ai_triage_jobs
+  SET status = CASE
+        WHEN _error IS NULL THEN 'done'
+        WHEN attempts >= max_attempts THEN 'failed'
+        ELSE 'pending'
+      END,
+      last_error = _error,
+      last_status_code = _status_code,
+      locked_at = NULL,
+      next_attempt_at = now() + least(interval '1 hour', interval '1 minute' * power(2, greatest(attempts - 1, 0)))
+  WHERE id = _job_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_ai_triage_jobs(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_ai_triage_job(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Give a failed job a fresh set of attempts
+CREATE OR REPLACE FUNCTION public.retry_ai_triage_job(_job_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can retry triage jobs';
+  END IF;
+
+  UPDATE public.ai_triage_jobs
+  SET status = 'pending',
+      attempts = 0,
+      next_attempt_at = now()
+  WHERE id = _job_id
+    AND status = 'failed';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.retry_ai_triage_job(UUID) TO authenticated;
+
+-- The triage worker records analyses with the service role. Risk level and the
+-- critical flag are taken from every analysis; the flag marks complaints rated
+-- critical or with an AI urgency of 9 or more.
+CREATE OR REPLACE FUNCTION public.record_ai_analysis(
+  _complaint_id UUID,
+  _analysis JSONB,
+  _model TEXT,
+  _prompt_version TEXT,
+  _input_hash TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  metadata JSONB;
+  entry JSONB;
+  ai_urgency INTEGER;
+  ai_risk TEXT;
+BEGIN
+  IF NOT (
+    auth.role() = 'service_role' OR
+    public.has_role(auth.uid(), 'government') OR
+    public.has_role(auth.uid(), 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Only officials can record AI analyses';
+  END IF;
+
+  SELECT coalesce(ai_metadata, '{}'::jsonb) INTO metadata
+  FROM public.complaints
+  WHERE id = _complaint_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Complaint not found';
+  END IF;
+
+  entry := jsonb_build_object(
+    'analysis', _analysis,
+    'model', _model,
+    'prompt_version', _prompt_version,
+    'input_hash', _input_hash,
+    'analyzed_at', now(),
+    'analyzed_by', auth.uid()
+  );
+
+  metadata := metadata || jsonb_build_object(
+    'latest', entry,
+    'history', CASE
+      WHEN metadata ? 'latest' THEN jsonb_build_array(metadata->'latest') || coalesce(metadata->'history', '[]'::jsonb)
+      ELSE coalesce(metadata->'history', '[]'::jsonb)
+    END
+  );
+
+  IF jsonb_typeof(_analysis->'urgency_score') = 'number' THEN
+    ai_urgency := least(10, greatest(1, round((_analysis->>'urgency_score')::numeric)));
+  END IF;
+
+  ai_risk := lower(_analysis->>'risk_level');
+  IF ai_risk NOT IN ('low', 'medium', 'high', 'critical') THEN
+    ai_risk := NULL;
+  END IF;
+
+  UPDATE public.complaints
+  SET ai_metadata = metadata,
+      urgency_score = CASE
+        WHEN ai_urgency IS NOT NULL AND NOT metadata ? 'urgency_override' THEN ai_urgency
+        ELSE urgency_score
+      END,
+      risk_level = coalesce(ai_risk, risk_level),
+      is_critical = coalesce(ai_risk = 'critical', false) OR coalesce(ai_urgency >= 9, false)
+  WHERE id = _complaint_id;
+
+  PERFORM public.append_public_log(
+    _complaint_id,
+    'ai_analyzed',
+    public.change_hash(NULL, entry),
+    NULL,
+    _model
+  );
+
+  RETURN metadata;
+END;
+$$;
+
+-- Drain the queue every minute. Needs the vault secrets 'project_url' and
+-- 'service_role_key' to reach the edge function.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'process-triage-queue',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-triage-queue',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
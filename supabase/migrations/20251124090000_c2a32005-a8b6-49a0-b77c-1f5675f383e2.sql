@@ -0,0 +1,130 @@
+-- AI output is validated against a schema. When a model keeps returning
+-- invalid output the failure is recorded in ai_metadata.last_failure instead
+-- of storing a made-up analysis; the next successful analysis clears it.
+CREATE OR REPLACE FUNCTION public.record_ai_analysis_failure(
+  _complaint_id UUID,
+  _model TEXT,
+  _prompt_version TEXT,
+  _error TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  metadata JSONB;
+BEGIN
+  IF NOT (
+    auth.role() = 'service_role' OR
+    public.has_role(auth.uid(), 'government') OR
+    public.has_role(auth.uid(), 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Only officials can record AI analyses';
+  END IF;
+
+  UPDATE public.complaints
+  SET ai_metadata = coalesce(ai_metadata, '{}'::jsonb) || jsonb_build_object(
+    'last_failure', jsonb_build_object(
+      'error', _error,
+      'model', _model,
+      'prompt_version', _prompt_version,
+      'failed_at', now()
+    )
+  )
+  WHERE id = _complaint_id
+  RETURNING ai_metadata INTO metadata;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Complaint not found';
+  END IF;
+
+  RETURN metadata;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_ai_analysis_failure(UUID, TEXT, TEXT, TEXT) TO authenticated;
+
+-- Successful analyses clear any recorded failure
+CREATE OR REPLACE FUNCTION public.record_ai_analysis(
+  _complaint_id UUID,
+  _analysis JSONB,
+  _model TEXT,
+  _prompt_version TEXT,
+  _input_hash TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  metadata JSONB;
+  entry JSONB;
+  ai_urgency INTEGER;
+  ai_risk TEXT;
+BEGIN
+  IF NOT (
+    auth.role() = 'service_role' OR
+    public.has_role(auth.uid(), 'government') OR
+    public.has_role(auth.uid(), 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Only officials can record AI analyses';
+  END IF;
+
+  SELECT coalesce(ai_metadata, '{}'::jsonb) INTO metadata
+  FROM public.complaints
+  WHERE id = _complaint_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Complaint not found';
+  END IF;
+
+  entry := jsonb_build_object(
+    'analysis', _analysis,
+    'model', _model,
+    'prompt_version', _prompt_version,
+    'input_hash', _input_hash,
+    'analyzed_at', now(),
+    'analyzed_by', auth.uid()
+  );
+
+  metadata := (metadata - 'last_failure') || jsonb_build_object(
+    'latest', entry,
+    'history', CASE
+      WHEN metadata ? 'latest' THEN jsonb_build_array(metadata->'latest') || coalesce(metadata->'history', '[]'::jsonb)
+      ELSE coalesce(metadata->'history', '[]'::jsonb)
+    END
+  );
+
+  IF jsonb_typeof(_analysis->'urgency_score') = 'number' THEN
+    ai_urgency := least(10, greatest(1, round((_analysis->>'urgency_score')::numeric)));
+  END IF;
+
+  ai_risk := lower(_analysis->>'risk_level');
+  IF ai_risk NOT IN ('low', 'medium', 'high', 'critical') THEN
+    ai_risk := NULL;
+  END IF;
+
+  UPDATE public.complaints
+  SET ai_metadata = metadata,
+      urgency_score = CASE
+        WHEN ai_urgency IS NOT NULL AND NOT metadata ? 'urgency_override' THEN ai_urgency
+        ELSE urgency_score
+      END,
+      risk_level = coalesce(ai_risk, risk_level),
+      is_critical = coalesce(ai_risk = 'critical', false) OR coalesce(ai_urgency >= 9, false)
+  WHERE id = _complaint_id;
+
+  PERFORM public.append_public_log(
+    _complaint_id,
+    'ai_analyzed',
+    public.change_hash(NULL, entry),
+    NULL,
+    _model
+  );
+
+  RETURN metadata;
+END;
+$$;
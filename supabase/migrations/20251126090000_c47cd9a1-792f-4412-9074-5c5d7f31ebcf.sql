@@ -0,0 +1,396 @@
+-- Related complaint detection. Every complaint gets a stemmed term vector,
+-- maintained by trigger, and optionally a model embedding stored by
+-- analyze-complaint when the LLM provider supports embeddings.
+-- related_complaints() ranks other submitted complaints by embedding cosine
+-- similarity, falling back to TF-IDF over the term vectors. Officials can link
+-- related complaints or merge a duplicate into the complaint it repeats.
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+CREATE TABLE public.complaint_embeddings (
+  complaint_id UUID PRIMARY KEY REFERENCES public.complaints(id) ON DELETE CASCADE,
+  terms TSVECTOR NOT NULL,
+  -- Dimensions depend on the model, so only rows with the same model are compared
+  embedding extensions.vector,
+  embedding_model TEXT,
+  embedding_input_hash TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_complaint_embeddings_model ON public.complaint_embeddings(embedding_model)
+  WHERE embedding IS NOT NULL;
+
+ALTER TABLE public.complaint_embeddings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Officials can view complaint embeddings"
+  ON public.complaint_embeddings FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'government') OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE TRIGGER update_complaint_embeddings_updated_at
+  BEFORE UPDATE ON public.complaint_embeddings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.complaint_terms(_title TEXT, _description TEXT, _location TEXT)
+RETURNS TSVECTOR
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT to_tsvector('english', coalesce(_title, '') || ' ' || coalesce(_description, '') || ' ' || coalesce(_location, ''));
+$$;
+
+-- Edited text makes a stored embedding stale, so it is dropped until recomputed
+CREATE OR REPLACE FUNCTION public.index_complaint_terms()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.complaint_embeddings (complaint_id, terms)
+  VALUES (NEW.id, public.complaint_terms(NEW.title, NEW.description, NEW.location))
+  ON CONFLICT (complaint_id) DO UPDATE
+  SET terms = EXCLUDED.terms,
+      embedding = NULL,
+      embedding_model = NULL,
+      embedding_input_hash = NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER index_complaint_terms
+  AFTER INSERT OR UPDATE OF title, description, location ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.index_complaint_terms();
+
+INSERT INTO public.complaint_embeddings (complaint_id, terms)
+SELECT id, public.complaint_terms(title, description, location)
+FROM public.complaints
+ON CONFLICT (complaint_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.store_complaint_embedding(
+  _complaint_id UUID,
+  _embedding extensions.vector,
+  _model TEXT,
+  _input_hash TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF NOT (
+    auth.role() = 'service_role' OR
+    public.has_role(auth.uid(), 'government') OR
+    public.has_role(auth.uid(), 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Only officials can store embeddings';
+  END IF;
+
+  UPDATE public.complaint_embeddings
+  SET embedding = _embedding,
+      embedding_model = _model,
+      embedding_input_hash = _input_hash
+  WHERE complaint_id = _complaint_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Complaint not found';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.store_complaint_embedding(UUID, extensions.vector, TEXT, TEXT) TO authenticated;
+
+-- Merged duplicates point at the complaint they repeat
+ALTER TABLE public.complaints
+ADD COLUMN duplicate_of UUID REFERENCES public.complaints(id) ON DELETE SET NULL,
+ADD CONSTRAINT complaints_not_own_duplicate CHECK (duplicate_of <> id);
+
+CREATE INDEX idx_complaints_duplicate_of ON public.complaints(duplicate_of)
+  WHERE duplicate_of IS NOT NULL;
+
+-- Symmetric links, stored once with the smaller id first
+CREATE TABLE public.complaint_links (
+  complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+  linked_complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (complaint_id, linked_complaint_id),
+  CHECK (complaint_id < linked_complaint_id)
+);
+
+CREATE INDEX idx_complaint_links_linked ON public.complaint_links(linked_complaint_id);
+
+ALTER TABLE public.complaint_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Officials can view complaint links"
+  ON public.complaint_links FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'government') OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+-- Nearest submitted complaints to _complaint_id, most similar first. Embeddings
+-- are compared exhaustively, which is fine at this volume; add an HNSW index
+-- per model if it grows.
+CREATE OR REPLACE FUNCTION public.related_complaints(_complaint_id UUID, _limit INTEGER DEFAULT 5)
+RETURNS TABLE (
+  related_complaint_id UUID,
+  related_title TEXT,
+  related_status complaint_status,
+  related_category complaint_category,
+  related_location TEXT,
+  related_created_at TIMESTAMPTZ,
+  related_duplicate_of UUID,
+  similarity REAL,
+  method TEXT,
+  linked BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  target public.complaint_embeddings;
+BEGIN
+  IF NOT (
+    auth.role() = 'service_role' OR
+    public.has_role(auth.uid(), 'government') OR
+    public.has_role(auth.uid(), 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Only officials can search related complaints';
+  END IF;
+
+  SELECT * INTO target FROM public.complaint_embeddings e WHERE e.complaint_id = _complaint_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF target.embedding IS NOT NULL THEN
+    RETURN QUERY
+    SELECT c.id, c.title, c.status, c.category, c.location, c.created_at, c.duplicate_of,
+           (1 - (e.embedding <=> target.embedding))::REAL,
+           'embedding'::TEXT,
+           EXISTS (
+             SELECT 1 FROM public.complaint_links l
+             WHERE l.complaint_id = least(_complaint_id, c.id) AND l.linked_complaint_id = greatest(_complaint_id, c.id)
+           )
+    FROM public.complaint_embeddings e
+    JOIN public.complaints c ON c.id = e.complaint_id
+    WHERE e.complaint_id <> _complaint_id
+      AND e.embedding_model = target.embedding_model
+      AND vector_dims(e.embedding) = vector_dims(target.embedding)
+      AND c.submitted_at IS NOT NULL
+    ORDER BY e.embedding <=> target.embedding
+    LIMIT _limit;
+
+    IF FOUND THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  -- TF-IDF with sublinear term frequency and smoothed inverse document frequency
+  RETURN QUERY
+  WITH docs AS (
+    SELECT e.complaint_id AS doc_id, t.lexeme, 1 + ln(coalesce(array_length(t.positions, 1), 1)) AS tf
+    FROM public.complaint_embeddings e
+    JOIN public.complaints c ON c.id = e.complaint_id
+    CROSS JOIN LATERAL unnest(e.terms) AS t
+    WHERE c.submitted_at IS NOT NULL OR c.id = _complaint_id
+  ),
+  doc_count AS (
+    SELECT count(DISTINCT doc_id) AS n FROM docs
+  ),
+  doc_freq AS (
+    SELECT lexeme, count(*) AS df FROM docs GROUP BY lexeme
+  ),
+  weights AS (
+    SELECT docs.doc_id, docs.lexeme, docs.tf * (ln((doc_count.n + 1)::numeric / (doc_freq.df + 1)) + 1) AS w
+    FROM docs
+    JOIN doc_freq ON doc_freq.lexeme = docs.lexeme
+    CROSS JOIN doc_count
+  ),
+  norms AS (
+    SELECT doc_id, sqrt(sum(w * w)) AS norm FROM weights GROUP BY doc_id
+  ),
+  target_weights AS (
+    SELECT lexeme, w FROM weights WHERE doc_id = _complaint_id
+  ),
+  scores AS (
+    SELECT weights.doc_id, sum(weights.w * target_weights.w) AS dot
+    FROM weights
+    JOIN target_weights ON target_weights.lexeme = weights.lexeme
+    WHERE weights.doc_id <> _complaint_id
+    GROUP BY weights.doc_id
+  )
+  SELECT c.id, c.title, c.status, c.category, c.location, c.created_at, c.duplicate_of,
+         (scores.dot / (doc_norm.norm * target_norm.norm))::REAL,
+         'tfidf'::TEXT,
+         EXISTS (
+           SELECT 1 FROM public.complaint_links l
+           WHERE l.complaint_id = least(_complaint_id, c.id) AND l.linked_complaint_id = greatest(_complaint_id, c.id)
+         )
+  FROM scores
+  JOIN norms doc_norm ON doc_norm.doc_id = scores.doc_id
+  JOIN norms target_norm ON target_norm.doc_id = _complaint_id
+  JOIN public.complaints c ON c.id = scores.doc_id
+  WHERE c.submitted_at IS NOT NULL
+    AND scores.dot / (doc_norm.norm * target_norm.norm) >= 0.05
+  ORDER BY 8 DESC
+  LIMIT _limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.related_complaints(UUID, INTEGER) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.link_complaints(_complaint_id UUID, _other_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'government') OR public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only officials can link complaints';
+  END IF;
+
+  IF _complaint_id = _other_id THEN
+    RAISE EXCEPTION 'A complaint cannot be linked to itself';
+  END IF;
+
+  INSERT INTO public.complaint_links (complaint_id, linked_complaint_id, created_by)
+  VALUES (least(_complaint_id, _other_id), greatest(_complaint_id, _other_id), auth.uid())
+  ON CONFLICT DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.append_public_log(_complaint_id, 'complaint_linked', public.change_hash(NULL, to_jsonb(_other_id)), NULL, _other_id::text);
+  PERFORM public.append_public_log(_other_id, 'complaint_linked', public.change_hash(NULL, to_jsonb(_complaint_id)), NULL, _complaint_id::text);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.unlink_complaints(_complaint_id UUID, _other_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'government') OR public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only officials can unlink complaints';
+  END IF;
+
+  DELETE FROM public.complaint_links
+  WHERE complaint_id = least(_complaint_id, _other_id)
+    AND linked_complaint_id = greatest(_complaint_id, _other_id);
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.append_public_log(_complaint_id, 'complaint_unlinked', public.change_hash(to_jsonb(_other_id), NULL), _other_id::text, NULL);
+  PERFORM public.append_public_log(_other_id, 'complaint_unlinked', public.change_hash(to_jsonb(_complaint_id), NULL), _complaint_id::text, NULL);
+END;
+$$;
+
+-- Folds _duplicate_id (and anything already merged into it) into _primary_id.
+-- Repeated reports strengthen the primary: it takes the higher urgency unless
+-- an official overrode it, and stays critical if either report was.
+CREATE OR REPLACE FUNCTION public.merge_duplicate_complaint(_duplicate_id UUID, _primary_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  duplicate public.complaints;
+  primary_complaint public.complaints;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'government') OR public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only officials can merge complaints';
+  END IF;
+
+  SELECT * INTO duplicate FROM public.complaints WHERE id = _duplicate_id FOR UPDATE;
+  SELECT * INTO primary_complaint FROM public.complaints WHERE id = _primary_id FOR UPDATE;
+
+  IF duplicate.id IS NULL OR primary_complaint.id IS NULL THEN
+    RAISE EXCEPTION 'Complaint not found';
+  END IF;
+
+  IF _duplicate_id = _primary_id THEN
+    RAISE EXCEPTION 'A complaint cannot be merged into itself';
+  END IF;
+
+  IF duplicate.duplicate_of IS NOT NULL THEN
+    RAISE EXCEPTION 'This complaint is already merged into another complaint';
+  END IF;
+
+  IF primary_complaint.duplicate_of IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot merge into a complaint that is itself a duplicate';
+  END IF;
+
+  UPDATE public.complaints
+  SET duplicate_of = _primary_id
+  WHERE id = _duplicate_id OR duplicate_of = _duplicate_id;
+
+  UPDATE public.complaints
+  SET urgency_score = CASE
+        WHEN coalesce(ai_metadata, '{}'::jsonb) ? 'urgency_override' THEN urgency_score
+        ELSE greatest(urgency_score, duplicate.urgency_score)
+      END,
+      is_critical = is_critical OR duplicate.is_critical
+  WHERE id = _primary_id;
+
+  INSERT INTO public.complaint_links (complaint_id, linked_complaint_id, created_by)
+  VALUES (least(_duplicate_id, _primary_id), greatest(_duplicate_id, _primary_id), auth.uid())
+  ON CONFLICT DO NOTHING;
+
+  PERFORM public.append_public_log(
+    _duplicate_id, 'duplicate_merged', public.change_hash(NULL, to_jsonb(_primary_id)), _duplicate_id::text, _primary_id::text
+  );
+  PERFORM public.append_public_log(
+    _primary_id, 'duplicate_merged', public.change_hash(NULL, to_jsonb(_duplicate_id)), _duplicate_id::text, _primary_id::text
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.unmerge_duplicate_complaint(_duplicate_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  previous UUID;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'government') OR public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only officials can unmerge complaints';
+  END IF;
+
+  SELECT duplicate_of INTO previous FROM public.complaints WHERE id = _duplicate_id FOR UPDATE;
+
+  IF previous IS NULL THEN
+    RAISE EXCEPTION 'This complaint is not merged into another complaint';
+  END IF;
+
+  UPDATE public.complaints SET duplicate_of = NULL WHERE id = _duplicate_id;
+
+  PERFORM public.append_public_log(
+    _duplicate_id, 'duplicate_unmerged', public.change_hash(to_jsonb(previous), NULL), _duplicate_id::text, previous::text
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.link_complaints(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.unlink_complaints(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.merge_duplicate_complaint(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.unmerge_duplicate_complaint(UUID) TO authenticated;
@@ -0,0 +1,259 @@
+-- Case files. A case groups complaints about one matter (say, ten bribery
+-- reports about the same licensing office) into a single investigation with
+-- its own status lifecycle, lead investigator and notes. Complaints may belong
+-- to more than one case. Cases are internal: only officials can see them, and
+-- complaint ledgers record membership changes without naming the case.
+CREATE TYPE public.case_status AS ENUM (
+  'open',
+  'investigating',
+  'referred',
+  'closed'
+);
+
+CREATE TABLE public.cases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  title TEXT NOT NULL CHECK (btrim(title) <> ''),
+  description TEXT,
+  status case_status NOT NULL DEFAULT 'open',
+  lead_investigator UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  closure_summary TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.case_complaints (
+  case_id UUID NOT NULL REFERENCES public.cases(id) ON DELETE CASCADE,
+  complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+  added_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  added_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (case_id, complaint_id)
+);
+
+CREATE INDEX idx_case_complaints_complaint ON public.case_complaints(complaint_id);
+
+CREATE TABLE public.case_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id UUID NOT NULL REFERENCES public.cases(id) ON DELETE CASCADE,
+  official_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  note TEXT NOT NULL CHECK (btrim(note) <> ''),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_case_notes_case ON public.case_notes(case_id, created_at);
+
+-- Same shape as complaint_status_transitions
+CREATE TABLE public.case_status_transitions (
+  from_status case_status NOT NULL,
+  to_status case_status NOT NULL,
+  required_field TEXT CHECK (required_field IN ('closure_summary')),
+  PRIMARY KEY (from_status, to_status)
+);
+
+INSERT INTO public.case_status_transitions (from_status, to_status, required_field) VALUES
+  ('open', 'investigating', NULL),
+  ('open', 'closed', 'closure_summary'),
+  ('investigating', 'referred', NULL),
+  ('investigating', 'closed', 'closure_summary'),
+  ('referred', 'investigating', NULL),
+  ('referred', 'closed', 'closure_summary'),
+  ('closed', 'investigating', NULL);
+
+ALTER TABLE public.cases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.case_complaints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.case_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.case_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Officials can view cases"
+  ON public.cases FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'government') OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Officials can create cases"
+  ON public.cases FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (public.has_role(auth.uid(), 'government') OR public.has_role(auth.uid(), 'admin')) AND
+    created_by = auth.uid()
+  );
+
+CREATE POLICY "Officials can update cases"
+  ON public.cases FOR UPDATE
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'government') OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Officials can view case complaints"
+  ON public.case_complaints FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'government') OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Officials can add complaints to cases"
+  ON public.case_complaints FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (public.has_role(auth.uid(), 'government') OR public.has_role(auth.uid(), 'admin')) AND
+    added_by = auth.uid()
+  );
+
+CREATE POLICY "Officials can remove complaints from cases"
+  ON public.case_complaints FOR DELETE
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'government') OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Officials can view case notes"
+  ON public.case_notes FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'government') OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Officials can add case notes"
+  ON public.case_notes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (public.has_role(auth.uid(), 'government') OR public.has_role(auth.uid(), 'admin')) AND
+    official_id = auth.uid()
+  );
+
+CREATE POLICY "Anyone can view case status transitions"
+  ON public.case_status_transitions FOR SELECT
+  USING (true);
+
+CREATE TRIGGER update_cases_updated_at
+  BEFORE UPDATE ON public.cases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.enforce_case_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  transition RECORD;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status IS DISTINCT FROM 'open' THEN
+      RAISE EXCEPTION 'New cases must start as open';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO transition
+  FROM public.case_status_transitions
+  WHERE from_status = OLD.status AND to_status = NEW.status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid case status transition from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF transition.required_field = 'closure_summary' AND coalesce(btrim(NEW.closure_summary), '') = '' THEN
+    RAISE EXCEPTION 'A closure summary is required to close a case';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_case_status_transition
+  BEFORE INSERT OR UPDATE OF status ON public.cases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_case_status_transition();
+
+-- Leads must be officials
+CREATE OR REPLACE FUNCTION public.enforce_case_lead()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.lead_investigator IS NOT NULL AND NOT (
+    public.has_role(NEW.lead_investigator, 'government') OR
+    public.has_role(NEW.lead_investigator, 'admin')
+  ) THEN
+    RAISE EXCEPTION 'The lead investigator must be an official';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_case_lead
+  BEFORE INSERT OR UPDATE OF lead_investigator ON public.cases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_case_lead();
+
+-- Complaint ledgers show that a complaint joined or left an investigation;
+-- the case id only goes into the metadata hash
+CREATE OR REPLACE FUNCTION public.log_case_membership()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.append_public_log(
+      NEW.complaint_id, 'added_to_case', public.change_hash(NULL, to_jsonb(NEW.case_id))
+    );
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.append_public_log(
+    OLD.complaint_id, 'removed_from_case', public.change_hash(to_jsonb(OLD.case_id), NULL)
+  );
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER log_case_membership
+  AFTER INSERT OR DELETE ON public.case_complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_case_membership();
+
+-- Officials, for choosing lead investigators and assignees. Profiles are
+-- otherwise private to their owner.
+CREATE OR REPLACE FUNCTION public.list_officials()
+RETURNS TABLE (
+  user_id UUID,
+  name TEXT,
+  email TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'government') OR public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only officials can list officials';
+  END IF;
+
+  RETURN QUERY
+  SELECT DISTINCT r.user_id, p.name, p.email
+  FROM public.user_roles r
+  LEFT JOIN public.profiles p ON p.id = r.user_id
+  WHERE r.role IN ('government', 'admin')
+  ORDER BY p.name NULLS LAST, p.email;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.list_officials() TO authenticated;
@@ -0,0 +1,412 @@
+-- Departments, jurisdictions and complaint ownership. Officials belong to
+-- departments; routing rules send each newly submitted complaint to a
+-- department by category and area, and can assign it to the least busy
+-- member. After submission, assignment only changes through
+-- assign_complaint(), and every change lands in complaint_assignments.
+CREATE TABLE public.departments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE CHECK (btrim(name) <> ''),
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.department_members (
+  department_id UUID NOT NULL REFERENCES public.departments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  is_supervisor BOOLEAN NOT NULL DEFAULT false,
+  added_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (department_id, user_id)
+);
+
+CREATE INDEX idx_department_members_user ON public.department_members(user_id);
+
+-- An area matched either by a bounding box on the complaint's coordinates or
+-- by a case-insensitive substring of its free-text location
+CREATE TABLE public.jurisdictions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE CHECK (btrim(name) <> ''),
+  location_pattern TEXT,
+  min_latitude DECIMAL(10, 8),
+  max_latitude DECIMAL(10, 8),
+  min_longitude DECIMAL(11, 8),
+  max_longitude DECIMAL(11, 8),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (
+    (min_latitude IS NULL AND max_latitude IS NULL AND min_longitude IS NULL AND max_longitude IS NULL) OR
+    (min_latitude <= max_latitude AND min_longitude <= max_longitude)
+  ),
+  CHECK (location_pattern IS NOT NULL OR min_latitude IS NOT NULL)
+);
+
+-- A null category or jurisdiction matches anything. The lowest priority wins;
+-- ties go to the more specific rule.
+CREATE TABLE public.routing_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  department_id UUID NOT NULL REFERENCES public.departments(id) ON DELETE CASCADE,
+  category complaint_category,
+  jurisdiction_id UUID REFERENCES public.jurisdictions(id) ON DELETE CASCADE,
+  priority INTEGER NOT NULL DEFAULT 100,
+  auto_assign BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.complaints
+ADD COLUMN department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_complaints_assigned_to ON public.complaints(assigned_to);
+CREATE INDEX idx_complaints_department ON public.complaints(department_id);
+
+CREATE TABLE public.complaint_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+  from_user UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  to_user UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  from_department UUID REFERENCES public.departments(id) ON DELETE SET NULL,
+  to_department UUID REFERENCES public.departments(id) ON DELETE SET NULL,
+  reason TEXT,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_complaint_assignments_complaint ON public.complaint_assignments(complaint_id, changed_at);
+
+ALTER TABLE public.departments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.department_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.jurisdictions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.routing_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.complaint_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Officials can view departments"
+  ON public.departments FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'government') OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Admins can manage departments"
+  ON public.departments FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Officials can view department members"
+  ON public.department_members FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'government') OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Admins can manage department members"
+  ON public.department_members FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Officials can view jurisdictions"
+  ON public.jurisdictions FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'government') OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Admins can manage jurisdictions"
+  ON public.jurisdictions FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Officials can view routing rules"
+  ON public.routing_rules FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'government') OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Admins can manage routing rules"
+  ON public.routing_rules FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Written only by the log_complaint_assignment trigger
+CREATE POLICY "Officials can view assignment history"
+  ON public.complaint_assignments FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'government') OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+-- Members must be officials
+CREATE OR REPLACE FUNCTION public.enforce_department_member()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (public.has_role(NEW.user_id, 'government') OR public.has_role(NEW.user_id, 'admin')) THEN
+    RAISE EXCEPTION 'Department members must be officials';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_department_member
+  BEFORE INSERT OR UPDATE OF user_id ON public.department_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_department_member();
+
+CREATE OR REPLACE FUNCTION public.in_jurisdiction(
+  _jurisdiction_id UUID,
+  _latitude DECIMAL,
+  _longitude DECIMAL,
+  _location TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(bool_or(
+    (
+      j.min_latitude IS NOT NULL AND
+      _latitude BETWEEN j.min_latitude AND j.max_latitude AND
+      _longitude BETWEEN j.min_longitude AND j.max_longitude
+    ) OR (
+      coalesce(btrim(j.location_pattern), '') <> '' AND
+      strpos(lower(_location), lower(btrim(j.location_pattern))) > 0
+    )
+  ), false)
+  FROM public.jurisdictions j
+  WHERE j.id = _jurisdiction_id;
+$$;
+
+-- Open complaints per member, for picking the least busy one
+CREATE OR REPLACE FUNCTION public.least_loaded_member(_department_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.user_id
+  FROM public.department_members m
+  LEFT JOIN public.complaints c
+    ON c.assigned_to = m.user_id AND c.status IN ('pending', 'in_review', 'verified')
+  WHERE m.department_id = _department_id
+  GROUP BY m.user_id, m.added_at
+  ORDER BY count(c.id), m.added_at
+  LIMIT 1;
+$$;
+
+-- Runs as the complaint is submitted. Leaves complaints that already have a
+-- department alone.
+CREATE OR REPLACE FUNCTION public.route_complaint()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  rule RECORD;
+BEGIN
+  IF OLD.submitted_at IS NOT NULL OR NEW.submitted_at IS NULL OR NEW.department_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT r.* INTO rule
+  FROM public.routing_rules r
+  WHERE (r.category IS NULL OR r.category = NEW.category)
+    AND (
+      r.jurisdiction_id IS NULL OR
+      public.in_jurisdiction(r.jurisdiction_id, NEW.latitude, NEW.longitude, NEW.location)
+    )
+  ORDER BY
+    r.priority,
+    (r.category IS NOT NULL)::int + (r.jurisdiction_id IS NOT NULL)::int DESC,
+    r.created_at
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.department_id := rule.department_id;
+  IF rule.auto_assign AND NEW.assigned_to IS NULL THEN
+    NEW.assigned_to := public.least_loaded_member(rule.department_id);
+  END IF;
+
+  PERFORM set_config('app.assignment_reason', 'Routed automatically', true);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER route_complaint
+  BEFORE UPDATE OF submitted_at ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.route_complaint();
+
+-- Once submitted, assignment changes go through assign_complaint(), which
+-- checks who may hand a complaint to whom. Admins and the service role may
+-- still write the columns directly.
+CREATE OR REPLACE FUNCTION public.guard_complaint_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.assigned_to IS NOT DISTINCT FROM OLD.assigned_to AND
+     NEW.department_id IS NOT DISTINCT FROM OLD.department_id THEN
+    RETURN NEW;
+  END IF;
+
+  -- route_complaint() and assign_complaint() set a reason before writing
+  IF OLD.submitted_at IS NULL OR
+     coalesce(current_setting('app.assignment_reason', true), '') <> '' OR
+     auth.role() = 'service_role' OR
+     public.has_role(auth.uid(), 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Use assign_complaint() to change who handles a complaint';
+END;
+$$;
+
+CREATE TRIGGER guard_complaint_assignment
+  BEFORE UPDATE OF assigned_to, department_id ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_complaint_assignment();
+
+CREATE OR REPLACE FUNCTION public.log_complaint_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.assigned_to IS NOT DISTINCT FROM OLD.assigned_to AND
+     NEW.department_id IS NOT DISTINCT FROM OLD.department_id THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.complaint_assignments (
+    complaint_id, from_user, to_user, from_department, to_department, reason, changed_by
+  )
+  VALUES (
+    NEW.id, OLD.assigned_to, NEW.assigned_to, OLD.department_id, NEW.department_id,
+    nullif(current_setting('app.assignment_reason', true), ''),
+    -- Routing at submission runs as the reporter, who is not recorded
+    CASE WHEN OLD.submitted_at IS NULL THEN NULL ELSE auth.uid() END
+  );
+
+  -- The ledger already records assignee changes (complaint_assigned);
+  -- department moves only go in as a hash
+  IF NEW.department_id IS DISTINCT FROM OLD.department_id THEN
+    PERFORM public.append_public_log(
+      NEW.id,
+      'department_changed',
+      public.change_hash(to_jsonb(OLD.department_id), to_jsonb(NEW.department_id))
+    );
+  END IF;
+
+  PERFORM set_config('app.assignment_reason', '', true);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_complaint_assignment
+  AFTER UPDATE OF assigned_to, department_id, submitted_at ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_complaint_assignment();
+
+CREATE OR REPLACE FUNCTION public.is_department_supervisor(_user_id UUID, _department_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.department_members
+    WHERE user_id = _user_id AND department_id = _department_id AND is_supervisor
+  );
+$$;
+
+-- Who may move a complaint:
+--   admins, anywhere;
+--   any official, to claim an unassigned complaint for themselves;
+--   the current assignee, to hand it on;
+--   a supervisor of its current or target department.
+-- The assignee must be an official and, when a department is set, a member of it.
+CREATE OR REPLACE FUNCTION public.assign_complaint(
+  _complaint_id UUID,
+  _assignee UUID,
+  _department_id UUID,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_assignee UUID;
+  current_department UUID;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'government') OR public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only officials can assign complaints';
+  END IF;
+
+  SELECT assigned_to, department_id INTO current_assignee, current_department
+  FROM public.complaints
+  WHERE id = _complaint_id AND submitted_at IS NOT NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Complaint not found';
+  END IF;
+
+  IF NOT (
+    public.has_role(auth.uid(), 'admin') OR
+    (current_assignee IS NULL AND _assignee = auth.uid()) OR
+    current_assignee = auth.uid() OR
+    (current_department IS NOT NULL AND public.is_department_supervisor(auth.uid(), current_department)) OR
+    (_department_id IS NOT NULL AND public.is_department_supervisor(auth.uid(), _department_id))
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to reassign this complaint';
+  END IF;
+
+  IF _assignee IS NOT NULL THEN
+    IF NOT (public.has_role(_assignee, 'government') OR public.has_role(_assignee, 'admin')) THEN
+      RAISE EXCEPTION 'Complaints can only be assigned to officials';
+    END IF;
+
+    IF _department_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.department_members
+      WHERE department_id = _department_id AND user_id = _assignee
+    ) THEN
+      RAISE EXCEPTION 'The assignee is not a member of that department';
+    END IF;
+  END IF;
+
+  PERFORM set_config(
+    'app.assignment_reason',
+    coalesce(nullif(btrim(_reason), ''), 'Reassigned'),
+    true
+  );
+
+  UPDATE public.complaints
+  SET assigned_to = _assignee, department_id = _department_id
+  WHERE id = _complaint_id;
+
+  PERFORM set_config('app.assignment_reason', '', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.assign_complaint(UUID, UUID, UUID, TEXT) TO authenticated;
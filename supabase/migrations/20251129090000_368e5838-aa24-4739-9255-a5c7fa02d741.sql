@@ -0,0 +1,212 @@
+-- Service level agreements. sla_policies set how long a complaint may stay
+-- open by category and urgency; each submitted complaint gets a due_at from
+-- the strictest matching policy, recomputed when triage changes its urgency.
+-- The escalate-overdue edge function, run by pg_cron, hands complaints past
+-- their due date to a supervisor of their department and logs it.
+CREATE TABLE public.sla_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Null matches every category
+  category complaint_category,
+  -- Applies to complaints with at least this urgency score
+  min_urgency INTEGER NOT NULL DEFAULT 0 CHECK (min_urgency BETWEEN 0 AND 10),
+  resolution_hours INTEGER NOT NULL CHECK (resolution_hours > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (category, min_urgency)
+);
+
+INSERT INTO public.sla_policies (category, min_urgency, resolution_hours) VALUES
+  (NULL, 0, 720),
+  (NULL, 7, 168),
+  (NULL, 9, 48);
+
+ALTER TABLE public.complaints
+ADD COLUMN due_at TIMESTAMPTZ,
+ADD COLUMN closed_at TIMESTAMPTZ,
+ADD COLUMN escalated_at TIMESTAMPTZ;
+
+CREATE INDEX idx_complaints_open_due ON public.complaints(due_at) WHERE closed_at IS NULL;
+
+CREATE TABLE public.complaint_escalations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+  department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL,
+  previous_assignee UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Null when the department has no other supervisor to take it
+  escalated_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  due_at TIMESTAMPTZ NOT NULL,
+  escalated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_complaint_escalations_complaint ON public.complaint_escalations(complaint_id);
+
+ALTER TABLE public.sla_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.complaint_escalations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Officials can view SLA policies"
+  ON public.sla_policies FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'government') OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Admins can manage SLA policies"
+  ON public.sla_policies FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Written only by escalate_overdue_complaints()
+CREATE POLICY "Officials can view escalations"
+  ON public.complaint_escalations FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'government') OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+-- Deadline from the strictest policy matching the category and urgency
+CREATE OR REPLACE FUNCTION public.sla_due_at(
+  _category complaint_category,
+  _urgency INTEGER,
+  _submitted_at TIMESTAMPTZ
+)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT _submitted_at + make_interval(hours => min(p.resolution_hours))
+  FROM public.sla_policies p
+  WHERE (p.category IS NULL OR p.category = _category)
+    AND p.min_urgency <= coalesce(_urgency, 0);
+$$;
+
+-- Keeps due_at and closed_at current. Resolved and rejected are final, so a
+-- closed complaint keeps the deadline it was measured against.
+CREATE OR REPLACE FUNCTION public.track_complaint_sla()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('resolved', 'rejected') THEN
+    IF OLD.status NOT IN ('resolved', 'rejected') THEN
+      NEW.closed_at := now();
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.submitted_at IS NOT NULL AND (
+    OLD.submitted_at IS NULL OR
+    NEW.urgency_score IS DISTINCT FROM OLD.urgency_score
+  ) THEN
+    NEW.due_at := public.sla_due_at(NEW.category, NEW.urgency_score, NEW.submitted_at);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_complaint_sla
+  BEFORE UPDATE OF submitted_at, urgency_score, status ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_complaint_sla();
+
+-- Existing complaints. Closing times before this migration were not
+-- recorded, so the last update stands in for them.
+UPDATE public.complaints
+SET due_at = public.sla_due_at(category, urgency_score, submitted_at),
+    closed_at = CASE WHEN status IN ('resolved', 'rejected') THEN updated_at END
+WHERE submitted_at IS NOT NULL;
+
+-- Hands each overdue complaint, once, to the least busy other supervisor of
+-- its department. Complaints without a department or supervisor are only
+-- flagged, which leaves them to admins.
+CREATE OR REPLACE FUNCTION public.escalate_overdue_complaints(_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  escalated_complaint_id UUID,
+  supervisor_id UUID,
+  overdue_since TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  overdue RECORD;
+  supervisor UUID;
+BEGIN
+  FOR overdue IN
+    SELECT c.id, c.assigned_to, c.department_id, c.due_at
+    FROM public.complaints c
+    WHERE c.submitted_at IS NOT NULL
+      AND c.closed_at IS NULL
+      AND c.escalated_at IS NULL
+      AND c.due_at < now()
+    ORDER BY c.due_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    supervisor := NULL;
+
+    IF overdue.department_id IS NOT NULL THEN
+      SELECT m.user_id INTO supervisor
+      FROM public.department_members m
+      LEFT JOIN public.complaints o
+        ON o.assigned_to = m.user_id AND o.status IN ('pending', 'in_review', 'verified')
+      WHERE m.department_id = overdue.department_id
+        AND m.is_supervisor
+        AND m.user_id IS DISTINCT FROM overdue.assigned_to
+      GROUP BY m.user_id, m.added_at
+      ORDER BY count(o.id), m.added_at
+      LIMIT 1;
+    END IF;
+
+    INSERT INTO public.complaint_escalations (complaint_id, department_id, previous_assignee, escalated_to, due_at)
+    VALUES (overdue.id, overdue.department_id, overdue.assigned_to, supervisor, overdue.due_at);
+
+    IF supervisor IS NOT NULL THEN
+      PERFORM set_config('app.assignment_reason', 'Escalated: past its SLA due date', true);
+    END IF;
+
+    UPDATE public.complaints
+    SET escalated_at = now(),
+        assigned_to = coalesce(supervisor, assigned_to)
+    WHERE id = overdue.id;
+
+    PERFORM set_config('app.assignment_reason', '', true);
+
+    PERFORM public.append_public_log(
+      overdue.id,
+      'sla_escalated',
+      public.change_hash(NULL, jsonb_build_object('due_at', overdue.due_at))
+    );
+
+    escalated_complaint_id := overdue.id;
+    supervisor_id := supervisor;
+    overdue_since := overdue.due_at;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.escalate_overdue_complaints(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Look for overdue complaints every 15 minutes. Uses the same vault secrets
+-- as process-triage-queue.
+SELECT cron.schedule(
+  'escalate-overdue',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/escalate-overdue',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,161 @@
+-- Two-way messages between officials and the reporter of a complaint.
+-- gov_notes stay the officials' notes; complaint_messages is the conversation
+-- the reporter takes part in. Officials can flag a message as a request for
+-- more information, and the reporter can answer, from the dashboard or with
+-- the tracking code, attaching further evidence. Attachments are ordinary
+-- evidence_files rows tied to the message; they are not part of the hash
+-- committed at submission.
+CREATE TABLE public.complaint_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+  sender_role TEXT NOT NULL CHECK (sender_role IN ('official', 'reporter')),
+  -- Null for anonymous reporters replying with their tracking code
+  sender_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  body TEXT NOT NULL CHECK (btrim(body) <> ''),
+  is_info_request BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (sender_role = 'official' OR NOT is_info_request)
+);
+
+CREATE INDEX idx_complaint_messages_complaint ON public.complaint_messages(complaint_id, created_at);
+
+ALTER TABLE public.evidence_files
+ADD COLUMN message_id UUID REFERENCES public.complaint_messages(id) ON DELETE SET NULL;
+
+ALTER TABLE public.complaint_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Officials can view messages"
+  ON public.complaint_messages FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'government') OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Officials can send messages"
+  ON public.complaint_messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (public.has_role(auth.uid(), 'government') OR public.has_role(auth.uid(), 'admin')) AND
+    sender_role = 'official' AND
+    sender_id = auth.uid()
+  );
+
+CREATE POLICY "Users can view messages on own complaints"
+  ON public.complaint_messages FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.complaints
+      WHERE complaints.id = complaint_messages.complaint_id
+      AND complaints.user_id = auth.uid()
+    )
+  );
+
+-- Reporters write through post_reporter_message(), which also records attachments
+
+CREATE OR REPLACE FUNCTION public.log_message_posted()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.append_public_log(
+    NEW.complaint_id,
+    CASE
+      WHEN NEW.is_info_request THEN 'information_requested'
+      WHEN NEW.sender_role = 'reporter' THEN 'reporter_replied'
+      ELSE 'official_messaged'
+    END,
+    public.change_hash(NULL, to_jsonb(NEW.body)),
+    NULL,
+    NEW.id::text
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_message_posted
+  AFTER INSERT ON public.complaint_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_message_posted();
+
+-- A reply from the reporter, with optional evidence already uploaded to
+-- storage. Callable by the signed-in owner of the complaint, or by the
+-- service role on behalf of an anonymous reporter who proved the tracking
+-- code (verify-tracking). _attachments is a JSON array of
+-- { file_hash, file_name, file_type, file_size, original_file_hash }.
+CREATE OR REPLACE FUNCTION public.post_reporter_message(
+  _complaint_id UUID,
+  _body TEXT,
+  _attachments JSONB DEFAULT '[]'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  complaint RECORD;
+  folder TEXT;
+  attachment JSONB;
+  path TEXT;
+  new_message_id UUID;
+BEGIN
+  SELECT * INTO complaint
+  FROM public.complaints
+  WHERE id = _complaint_id AND submitted_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Complaint not found';
+  END IF;
+
+  IF auth.role() = 'service_role' THEN
+    folder := 'anonymous';
+  ELSIF complaint.user_id IS NOT NULL AND complaint.user_id = auth.uid() THEN
+    folder := auth.uid()::text;
+  ELSE
+    RAISE EXCEPTION 'Only the reporter can reply to this complaint';
+  END IF;
+
+  IF jsonb_typeof(_attachments) IS DISTINCT FROM 'array' OR jsonb_array_length(_attachments) > 5 THEN
+    RAISE EXCEPTION 'At most 5 attachments can be sent with a message';
+  END IF;
+
+  INSERT INTO public.complaint_messages (complaint_id, sender_role, sender_id, body)
+  VALUES (_complaint_id, 'reporter', auth.uid(), btrim(_body))
+  RETURNING id INTO new_message_id;
+
+  FOR attachment IN SELECT value FROM jsonb_array_elements(_attachments)
+  LOOP
+    IF coalesce(attachment->>'file_hash', '') !~ '^[0-9a-f]{64}$' THEN
+      RAISE EXCEPTION 'Invalid attachment hash';
+    END IF;
+
+    path := folder || '/' || (attachment->>'file_hash');
+
+    IF NOT EXISTS (SELECT 1 FROM storage.objects WHERE bucket_id = 'evidence' AND name = path) THEN
+      RAISE EXCEPTION 'Attachment % has not finished uploading', attachment->>'file_name';
+    END IF;
+
+    INSERT INTO public.evidence_files (
+      complaint_id, message_id, storage_path, file_name, file_type, file_size, file_hash, original_file_hash
+    )
+    VALUES (
+      _complaint_id,
+      new_message_id,
+      path,
+      coalesce(nullif(btrim(attachment->>'file_name'), ''), 'attachment'),
+      coalesce(attachment->>'file_type', 'application/octet-stream'),
+      (attachment->>'file_size')::integer,
+      attachment->>'file_hash',
+      attachment->>'original_file_hash'
+    );
+  END LOOP;
+
+  RETURN new_message_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.post_reporter_message(UUID, TEXT, JSONB) TO authenticated;
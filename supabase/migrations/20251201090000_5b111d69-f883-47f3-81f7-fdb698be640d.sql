@@ -0,0 +1,21 @@
+-- Notes are either internal to officials or visible to the complainant.
+-- Notes written so far were already shown to complainants and stay visible;
+-- new notes are internal unless the official chooses otherwise.
+ALTER TABLE public.gov_notes
+ADD COLUMN visibility TEXT NOT NULL DEFAULT 'citizen' CHECK (visibility IN ('internal', 'citizen'));
+
+ALTER TABLE public.gov_notes ALTER COLUMN visibility SET DEFAULT 'internal';
+
+DROP POLICY "Users can view notes on own complaints" ON public.gov_notes;
+
+CREATE POLICY "Users can view citizen notes on own complaints"
+  ON public.gov_notes FOR SELECT
+  TO authenticated
+  USING (
+    visibility = 'citizen' AND
+    EXISTS (
+      SELECT 1 FROM public.complaints
+      WHERE complaints.id = gov_notes.complaint_id
+      AND complaints.user_id = auth.uid()
+    )
+  );
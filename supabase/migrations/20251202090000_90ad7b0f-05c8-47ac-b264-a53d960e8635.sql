@@ -0,0 +1,276 @@
+-- Email and SMS notifications for reporters with an account. Status changes,
+-- notes shared with the complainant and information requests queue one
+-- message per enabled channel in notification_outbox; the send-notifications
+-- edge function, run every minute by pg_cron, renders and delivers them and
+-- reports the outcome. Failed deliveries are retried with exponential backoff
+-- until max_attempts, then left as failed. Contact details are taken from
+-- profiles.email and profiles.phone when the message is queued.
+CREATE TABLE public.notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email_enabled BOOLEAN NOT NULL DEFAULT true,
+  sms_enabled BOOLEAN NOT NULL DEFAULT false,
+  status_changes BOOLEAN NOT NULL DEFAULT true,
+  citizen_notes BOOLEAN NOT NULL DEFAULT true,
+  information_requests BOOLEAN NOT NULL DEFAULT true,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notification preferences"
+  ON public.notification_preferences FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own notification preferences"
+  ON public.notification_preferences FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notification preferences"
+  ON public.notification_preferences FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.notification_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms')),
+  recipient TEXT NOT NULL,
+  template TEXT NOT NULL CHECK (template IN ('status_changed', 'note_shared', 'information_requested')),
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notification_outbox_due ON public.notification_outbox(next_attempt_at)
+  WHERE status = 'pending';
+
+ALTER TABLE public.notification_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications"
+  ON public.notification_outbox FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view notifications"
+  ON public.notification_outbox FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_notification_outbox_updated_at
+  BEFORE UPDATE ON public.notification_outbox
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Queue a notification to the reporter of a complaint on each channel they
+-- enabled. Anonymous complaints, and reporters who turned the event off, get
+-- nothing; reporters who never saved preferences get email only.
+CREATE OR REPLACE FUNCTION public.enqueue_notification(
+  _complaint_id UUID,
+  _template TEXT,
+  _payload JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  complaint RECORD;
+  settings RECORD;
+  content JSONB;
+BEGIN
+  SELECT id, user_id, title, tracking_code INTO complaint
+  FROM public.complaints
+  WHERE id = _complaint_id AND submitted_at IS NOT NULL;
+
+  IF NOT FOUND OR complaint.user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT
+    coalesce(np.email_enabled, true) AS email_enabled,
+    coalesce(np.sms_enabled, false) AS sms_enabled,
+    CASE _template
+      WHEN 'status_changed' THEN coalesce(np.status_changes, true)
+      WHEN 'note_shared' THEN coalesce(np.citizen_notes, true)
+      ELSE coalesce(np.information_requests, true)
+    END AS wanted,
+    nullif(btrim(p.email), '') AS email,
+    nullif(btrim(p.phone), '') AS phone
+  INTO settings
+  FROM public.profiles p
+  LEFT JOIN public.notification_preferences np ON np.user_id = p.id
+  WHERE p.id = complaint.user_id;
+
+  IF NOT FOUND OR NOT settings.wanted THEN
+    RETURN;
+  END IF;
+
+  content := _payload || jsonb_build_object(
+    'complaint_id', complaint.id,
+    'complaint_title', complaint.title,
+    'tracking_code', complaint.tracking_code
+  );
+
+  IF settings.email_enabled AND settings.email IS NOT NULL THEN
+    INSERT INTO public.notification_outbox (user_id, complaint_id, channel, recipient, template, payload)
+    VALUES (complaint.user_id, complaint.id, 'email', settings.email, _template, content);
+  END IF;
+
+  IF settings.sms_enabled AND settings.phone IS NOT NULL THEN
+    INSERT INTO public.notification_outbox (user_id, complaint_id, channel, recipient, template, payload)
+    VALUES (complaint.user_id, complaint.id, 'sms', settings.phone, _template, content);
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_notification(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.notify_status_changed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.enqueue_notification(
+    NEW.id,
+    'status_changed',
+    jsonb_build_object(
+      'old_status', OLD.status,
+      'new_status', NEW.status,
+      'rejection_reason', NEW.rejection_reason,
+      'resolution_summary', NEW.resolution_summary
+    )
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_status_changed
+  AFTER UPDATE OF status ON public.complaints
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.notify_status_changed();
+
+-- Internal notes never leave the Gov Portal
+CREATE OR REPLACE FUNCTION public.notify_note_shared()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.enqueue_notification(NEW.complaint_id, 'note_shared', jsonb_build_object('note', NEW.note));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_note_shared
+  AFTER INSERT ON public.gov_notes
+  FOR EACH ROW
+  WHEN (NEW.visibility = 'citizen')
+  EXECUTE FUNCTION public.notify_note_shared();
+
+CREATE OR REPLACE FUNCTION public.notify_information_requested()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.enqueue_notification(NEW.complaint_id, 'information_requested', jsonb_build_object('message', NEW.body));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_information_requested
+  AFTER INSERT ON public.complaint_messages
+  FOR EACH ROW
+  WHEN (NEW.is_info_request)
+  EXECUTE FUNCTION public.notify_information_requested();
+
+-- Claim due notifications for a worker. Notifications left processing by a
+-- worker that died are picked up again after ten minutes.
+CREATE OR REPLACE FUNCTION public.claim_notifications(_limit INTEGER DEFAULT 20)
+RETURNS SETOF public.notification_outbox
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.notification_outbox n
+  SET status = 'processing',
+      attempts = n.attempts + 1,
+      locked_at = now()
+  WHERE n.id IN (
+    SELECT id
+    FROM public.notification_outbox
+    WHERE (status = 'pending' AND next_attempt_at <= now())
+       OR (status = 'processing' AND locked_at < now() - interval '10 minutes')
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING n.*
+$$;
+
+-- Record a delivery's outcome. Failed attempts wait 1, 2, 4 ... minutes (at
+-- most an hour) before the next one.
+CREATE OR REPLACE FUNCTION public.complete_notification(
+  _notification_id UUID,
+  _error TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.notification_outbox
+  SET status = CASE
+        WHEN _error IS NULL THEN 'sent'
+        WHEN attempts >= max_attempts THEN 'failed'
+        ELSE 'pending'
+      END,
+      last_error = _error,
+      locked_at = NULL,
+      sent_at = CASE WHEN _error IS NULL THEN now() ELSE sent_at END,
+      next_attempt_at = now() + least(interval '1 hour', interval '1 minute' * power(2, greatest(attempts - 1, 0)))
+  WHERE id = _notification_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_notifications(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_notification(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Drain the outbox every minute, like the triage queue. Needs the vault
+-- secrets 'project_url' and 'service_role_key'.
+SELECT cron.schedule(
+  'send-notifications',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-notifications',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,137 @@
+-- Notifications for anonymous reporters. Holding a tracking code, a reporter
+-- can register a throwaway email address or a Web Push endpoint. The contact
+-- is encrypted by the tracking-subscriptions edge function with a key the
+-- database never sees, and no policy lets officials read the table, so a
+-- subscription cannot be tied back to a person from the Gov Portal.
+-- Unsubscribing deletes the row, and with it any queued notifications.
+CREATE TABLE public.tracking_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'push')),
+  -- AES-GCM ciphertext of the contact and its unsubscribe token
+  contact_ciphertext TEXT NOT NULL,
+  -- SHA-256 of the unsubscribe token sent with every notification
+  unsubscribe_token_hash TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_tracking_subscriptions_complaint ON public.tracking_subscriptions(complaint_id);
+
+-- Service role only
+ALTER TABLE public.tracking_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- Subscriber notifications carry no recipient; the worker decrypts it from
+-- the subscription when sending
+ALTER TABLE public.notification_outbox
+ADD COLUMN subscription_id UUID REFERENCES public.tracking_subscriptions(id) ON DELETE CASCADE,
+ALTER COLUMN recipient DROP NOT NULL,
+ADD CONSTRAINT notification_outbox_recipient_check CHECK (recipient IS NOT NULL OR subscription_id IS NOT NULL),
+DROP CONSTRAINT notification_outbox_channel_check,
+DROP CONSTRAINT notification_outbox_template_check;
+
+ALTER TABLE public.notification_outbox
+ADD CONSTRAINT notification_outbox_channel_check CHECK (channel IN ('email', 'sms', 'push')),
+ADD CONSTRAINT notification_outbox_template_check
+  CHECK (template IN ('status_changed', 'note_shared', 'information_requested', 'message_received'));
+
+-- Also notify subscribers of the complaint. Their notifications only say
+-- what kind of change happened: complaint details, note and message text stay
+-- behind the tracking code. Account holders now hear about every message
+-- from officials, under their information request preference.
+CREATE OR REPLACE FUNCTION public.enqueue_notification(
+  _complaint_id UUID,
+  _template TEXT,
+  _payload JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  complaint RECORD;
+  settings RECORD;
+  content JSONB;
+BEGIN
+  SELECT id, user_id, title, tracking_code INTO complaint
+  FROM public.complaints
+  WHERE id = _complaint_id AND submitted_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.notification_outbox (complaint_id, subscription_id, channel, template, payload)
+  SELECT complaint.id, s.id, s.channel, _template, jsonb_build_object(
+    'anonymous', true,
+    'old_status', _payload->'old_status',
+    'new_status', _payload->'new_status'
+  )
+  FROM public.tracking_subscriptions s
+  WHERE s.complaint_id = complaint.id;
+
+  IF complaint.user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT
+    coalesce(np.email_enabled, true) AS email_enabled,
+    coalesce(np.sms_enabled, false) AS sms_enabled,
+    CASE _template
+      WHEN 'status_changed' THEN coalesce(np.status_changes, true)
+      WHEN 'note_shared' THEN coalesce(np.citizen_notes, true)
+      ELSE coalesce(np.information_requests, true)
+    END AS wanted,
+    nullif(btrim(p.email), '') AS email,
+    nullif(btrim(p.phone), '') AS phone
+  INTO settings
+  FROM public.profiles p
+  LEFT JOIN public.notification_preferences np ON np.user_id = p.id
+  WHERE p.id = complaint.user_id;
+
+  IF NOT FOUND OR NOT settings.wanted THEN
+    RETURN;
+  END IF;
+
+  content := _payload || jsonb_build_object(
+    'complaint_id', complaint.id,
+    'complaint_title', complaint.title,
+    'tracking_code', complaint.tracking_code
+  );
+
+  IF settings.email_enabled AND settings.email IS NOT NULL THEN
+    INSERT INTO public.notification_outbox (user_id, complaint_id, channel, recipient, template, payload)
+    VALUES (complaint.user_id, complaint.id, 'email', settings.email, _template, content);
+  END IF;
+
+  IF settings.sms_enabled AND settings.phone IS NOT NULL THEN
+    INSERT INTO public.notification_outbox (user_id, complaint_id, channel, recipient, template, payload)
+    VALUES (complaint.user_id, complaint.id, 'sms', settings.phone, _template, content);
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_message_received()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.enqueue_notification(
+    NEW.complaint_id,
+    CASE WHEN NEW.is_info_request THEN 'information_requested' ELSE 'message_received' END,
+    jsonb_build_object('message', NEW.body)
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER notify_information_requested ON public.complaint_messages;
+DROP FUNCTION public.notify_information_requested();
+
+CREATE TRIGGER notify_message_received
+  AFTER INSERT ON public.complaint_messages
+  FOR EACH ROW
+  WHEN (NEW.sender_role = 'official')
+  EXECUTE FUNCTION public.notify_message_received();
@@ -0,0 +1,262 @@
+-- Tracking codes were eight hex characters from md5(random()), and the code
+-- alone unlocked an anonymous complaint's notes, messages and evidence. Codes
+-- now come from a CSPRNG and only identify the complaint; reading it also
+-- takes a secret that is shown once at submission and stored as a SHA-256.
+-- Complaints submitted before this have no secret and can no longer be
+-- opened by tracking code; they stay verifiable by complaint ID.
+ALTER TABLE public.complaints
+ADD COLUMN tracking_secret_hash TEXT;
+
+-- Crockford base32 without I, L, O and U, so codes survive being read aloud.
+-- 256 is a multiple of 32, so every character is uniform.
+CREATE OR REPLACE FUNCTION public.random_base32(_length INTEGER)
+RETURNS TEXT
+LANGUAGE plpgsql
+VOLATILE
+SET search_path = public
+AS $$
+DECLARE
+  alphabet CONSTANT TEXT := '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+  bytes BYTEA := extensions.gen_random_bytes(_length);
+  result TEXT := '';
+BEGIN
+  FOR i IN 0.._length - 1 LOOP
+    result := result || substr(alphabet, get_byte(bytes, i) % 32 + 1, 1);
+  END LOOP;
+  RETURN result;
+END;
+$$;
+
+-- CW-XXXX-XXXX-XXXX, 60 bits. Codes issued before keep working as identifiers.
+CREATE OR REPLACE FUNCTION public.generate_tracking_code()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  raw TEXT;
+  code TEXT;
+BEGIN
+  LOOP
+    raw := public.random_base32(12);
+    code := 'CW-' || substr(raw, 1, 4) || '-' || substr(raw, 5, 4) || '-' || substr(raw, 9, 4);
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.complaints WHERE tracking_code = code);
+  END LOOP;
+
+  RETURN code;
+END;
+$$;
+
+-- XXXXX-XXXXX-XXXXX-XXXXX, 100 bits
+CREATE OR REPLACE FUNCTION public.generate_tracking_secret()
+RETURNS TEXT
+LANGUAGE plpgsql
+VOLATILE
+SET search_path = public
+AS $$
+DECLARE
+  raw TEXT := public.random_base32(20);
+BEGIN
+  RETURN substr(raw, 1, 5) || '-' || substr(raw, 6, 5) || '-' || substr(raw, 11, 5) || '-' || substr(raw, 16, 5);
+END;
+$$;
+
+-- Case, spaces and dashes do not matter when a secret is typed back in
+CREATE OR REPLACE FUNCTION public.hash_tracking_secret(_secret TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT encode(
+    extensions.digest(upper(regexp_replace(coalesce(_secret, ''), '[^A-Za-z0-9]', '', 'g')), 'sha256'),
+    'hex'
+  )
+$$;
+
+-- Failed code/secret checks, kept for a day to rate-limit lookups. Clients
+-- are recorded by a SHA-256 of their IP address. Service role only.
+CREATE TABLE public.tracking_lookup_failures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tracking_code TEXT NOT NULL,
+  client_hash TEXT,
+  failed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_tracking_lookup_failures_code ON public.tracking_lookup_failures(tracking_code, failed_at);
+CREATE INDEX idx_tracking_lookup_failures_client ON public.tracking_lookup_failures(client_hash, failed_at);
+
+ALTER TABLE public.tracking_lookup_failures ENABLE ROW LEVEL SECURITY;
+
+-- Client hash for requests that reach the database through the API directly
+CREATE OR REPLACE FUNCTION public.request_client_hash()
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT encode(extensions.digest(btrim(split_part(forwarded, ',', 1)), 'sha256'), 'hex')
+  FROM (
+    SELECT current_setting('request.headers', true)::json ->> 'x-forwarded-for' AS forwarded
+  ) request
+  WHERE forwarded IS NOT NULL
+$$;
+
+-- Checks a tracking code and secret. Returns the complaint on success, nothing
+-- but retry_after while the code or the client is locked out, and neither on
+-- a mismatch. Failures are recorded rather than raised so they are kept.
+-- Five failures lock the code for fifteen minutes; twenty lock the client.
+CREATE OR REPLACE FUNCTION public.verify_tracking_credentials(
+  _tracking_code TEXT,
+  _tracking_secret TEXT,
+  _client_hash TEXT DEFAULT NULL
+)
+RETURNS TABLE (complaint_id UUID, retry_after TIMESTAMPTZ)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  lockout_window CONSTANT INTERVAL := interval '15 minutes';
+  max_code_failures CONSTANT INTEGER := 5;
+  max_client_failures CONSTANT INTEGER := 20;
+  code TEXT := upper(btrim(coalesce(_tracking_code, '')));
+  code_locked_until TIMESTAMPTZ;
+  client_locked_until TIMESTAMPTZ;
+  matched_id UUID;
+BEGIN
+  -- Locked until the oldest failure that counts towards the limit expires
+  SELECT min(recent.failed_at) + lockout_window INTO code_locked_until
+  FROM (
+    SELECT f.failed_at FROM public.tracking_lookup_failures f
+    WHERE f.tracking_code = code AND f.failed_at > now() - lockout_window
+    ORDER BY f.failed_at DESC
+    LIMIT max_code_failures
+  ) recent
+  HAVING count(*) >= max_code_failures;
+
+  IF _client_hash IS NOT NULL THEN
+    SELECT min(recent.failed_at) + lockout_window INTO client_locked_until
+    FROM (
+      SELECT f.failed_at FROM public.tracking_lookup_failures f
+      WHERE f.client_hash = _client_hash AND f.failed_at > now() - lockout_window
+      ORDER BY f.failed_at DESC
+      LIMIT max_client_failures
+    ) recent
+    HAVING count(*) >= max_client_failures;
+  END IF;
+
+  IF code_locked_until IS NOT NULL OR client_locked_until IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::UUID, greatest(code_locked_until, client_locked_until);
+    RETURN;
+  END IF;
+
+  SELECT c.id INTO matched_id
+  FROM public.complaints c
+  WHERE c.tracking_code = code
+    AND c.tracking_secret_hash IS NOT NULL
+    AND c.tracking_secret_hash = public.hash_tracking_secret(_tracking_secret);
+
+  IF matched_id IS NULL THEN
+    INSERT INTO public.tracking_lookup_failures (tracking_code, client_hash)
+    VALUES (code, _client_hash);
+    RETURN QUERY SELECT NULL::UUID, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  DELETE FROM public.tracking_lookup_failures f WHERE f.tracking_code = code;
+  RETURN QUERY SELECT matched_id, NULL::TIMESTAMPTZ;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_tracking_credentials(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'prune-tracking-lookup-failures',
+  '0 * * * *',
+  $$ DELETE FROM public.tracking_lookup_failures WHERE failed_at < now() - interval '1 day' $$
+);
+
+-- Tracking-code lookups now need the secret and count towards the lockout
+DROP FUNCTION public.verify_complaint(UUID, TEXT);
+
+CREATE FUNCTION public.verify_complaint(
+  _complaint_id UUID DEFAULT NULL,
+  _tracking_code TEXT DEFAULT NULL,
+  _tracking_secret TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  category complaint_category,
+  status complaint_status,
+  created_at TIMESTAMPTZ,
+  location TEXT,
+  latitude DECIMAL,
+  longitude DECIMAL,
+  evidence_hashes TEXT[],
+  complaint_hash TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  found_id UUID := _complaint_id;
+  locked_until TIMESTAMPTZ;
+BEGIN
+  IF _tracking_code IS NOT NULL THEN
+    SELECT v.complaint_id, v.retry_after INTO found_id, locked_until
+    FROM public.verify_tracking_credentials(_tracking_code, _tracking_secret, public.request_client_hash()) v;
+
+    IF locked_until IS NOT NULL THEN
+      RAISE EXCEPTION 'Too many failed attempts. Try again after % UTC',
+        to_char(locked_until AT TIME ZONE 'UTC', 'HH24:MI');
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT c.id, c.title, c.category, c.status, c.created_at, c.location,
+         c.latitude, c.longitude, c.evidence_hashes, c.complaint_hash
+  FROM public.complaints c
+  WHERE c.id = found_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.verify_complaint(UUID, TEXT, TEXT) TO anon, authenticated;
+
+-- The secret is returned once here and never stored in the clear
+DROP FUNCTION public.submit_anonymous_complaint(TEXT, TEXT, complaint_category, TEXT, DECIMAL, DECIMAL, TEXT[]);
+
+CREATE FUNCTION public.submit_anonymous_complaint(
+  _title TEXT,
+  _description TEXT,
+  _category complaint_category,
+  _location TEXT,
+  _latitude DECIMAL,
+  _longitude DECIMAL,
+  _evidence_hashes TEXT[]
+)
+RETURNS TABLE (id UUID, tracking_code TEXT, tracking_secret TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  secret TEXT := public.generate_tracking_secret();
+BEGIN
+  RETURN QUERY
+  INSERT INTO public.complaints (
+    user_id, is_anonymous, title, description, category, location,
+    latitude, longitude, evidence_hashes, urgency_score, tracking_secret_hash
+  )
+  VALUES (
+    NULL, true, _title, _description, _category, _location,
+    _latitude, _longitude, _evidence_hashes, 5, public.hash_tracking_secret(secret)
+  )
+  RETURNING complaints.id, complaints.tracking_code, secret;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_anonymous_complaint(TEXT, TEXT, complaint_category, TEXT, DECIMAL, DECIMAL, TEXT[]) TO anon, authenticated;
@@ -0,0 +1,30 @@
+-- record_evidence_views kept the default PUBLIC execute grant and checked
+-- nothing, so anyone could flood any complaint's ledger with evidence_viewed
+-- entries. Only officials record views now, and the entries name their role
+-- but not who they are: which official read which evidence is not public.
+CREATE OR REPLACE FUNCTION public.record_evidence_views(_evidence_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  evidence RECORD;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'government') OR public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only officials can record evidence views';
+  END IF;
+
+  FOR evidence IN
+    SELECT id, complaint_id, file_hash
+    FROM public.evidence_files
+    WHERE id = ANY(_evidence_ids)
+  LOOP
+    INSERT INTO public.public_logs (complaint_id, action, metadata_hash, actor_role, actor_id, old_value, new_value)
+    VALUES (evidence.complaint_id, 'evidence_viewed', evidence.file_hash, public.current_actor_role(), NULL, NULL, evidence.id::text);
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_evidence_views(UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_evidence_views(UUID[]) TO authenticated;
@@ -0,0 +1,60 @@
+-- verify_complaint is callable by anyone, and looked up by id it returned the
+-- title, the free-text location and exact coordinates of any complaint whose
+-- id was known. By id it now returns only what the public may see: category,
+-- status, date, hashes and coordinates rounded like transparency_complaints.
+-- The full fields still come back to a reporter holding the tracking code
+-- and secret, who needs them to recompute the complaint hash.
+DROP FUNCTION public.verify_complaint(UUID, TEXT, TEXT);
+
+CREATE FUNCTION public.verify_complaint(
+  _complaint_id UUID DEFAULT NULL,
+  _tracking_code TEXT DEFAULT NULL,
+  _tracking_secret TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  category complaint_category,
+  status complaint_status,
+  created_at TIMESTAMPTZ,
+  location TEXT,
+  latitude DECIMAL,
+  longitude DECIMAL,
+  evidence_hashes TEXT[],
+  complaint_hash TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  found_id UUID := _complaint_id;
+  locked_until TIMESTAMPTZ;
+  redacted BOOLEAN := true;
+BEGIN
+  IF _tracking_code IS NOT NULL THEN
+    SELECT v.complaint_id, v.retry_after INTO found_id, locked_until
+    FROM public.verify_tracking_credentials(_tracking_code, _tracking_secret, public.request_client_hash()) v;
+
+    IF locked_until IS NOT NULL THEN
+      RAISE EXCEPTION 'Too many failed attempts. Try again after % UTC',
+        to_char(locked_until AT TIME ZONE 'UTC', 'HH24:MI');
+    END IF;
+
+    redacted := false;
+  END IF;
+
+  RETURN QUERY
+  SELECT c.id,
+         CASE WHEN redacted THEN NULL ELSE c.title END,
+         c.category, c.status, c.created_at,
+         CASE WHEN redacted THEN NULL ELSE c.location END,
+         CASE WHEN redacted THEN round(c.latitude, 1) ELSE c.latitude END,
+         CASE WHEN redacted THEN round(c.longitude, 1) ELSE c.longitude END,
+         c.evidence_hashes, c.complaint_hash
+  FROM public.complaints c
+  WHERE c.id = found_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.verify_complaint(UUID, TEXT, TEXT) TO anon, authenticated;
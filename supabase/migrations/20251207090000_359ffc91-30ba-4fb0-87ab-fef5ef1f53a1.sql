@@ -0,0 +1,24 @@
+-- transparency_complaints published complaint ids, which verify_complaint
+-- and the ledger take as input, so a redacted row could be joined back to
+-- the complaint behind it. Rows are now keyed by a random reference that
+-- nothing else accepts or returns.
+ALTER TABLE public.complaints
+ADD COLUMN public_ref UUID NOT NULL DEFAULT gen_random_uuid();
+
+DROP VIEW public.transparency_complaints;
+
+CREATE VIEW public.transparency_complaints
+WITH (security_barrier = true)
+AS
+SELECT
+  public_ref AS ref,
+  category,
+  status,
+  round(latitude, 1) AS approx_latitude,
+  round(longitude, 1) AS approx_longitude,
+  created_at::date AS reported_on,
+  updated_at::date AS updated_on
+FROM public.complaints
+WHERE submitted_at IS NOT NULL;
+
+GRANT SELECT ON public.transparency_complaints TO anon, authenticated;
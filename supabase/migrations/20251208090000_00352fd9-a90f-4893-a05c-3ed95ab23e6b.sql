@@ -0,0 +1,104 @@
+-- Drafts (submitted_at IS NULL) that were never finalized were kept forever,
+-- though a draft can only be resumed from the page session that created it.
+-- The prune-drafts function now deletes drafts older than a day, with their
+-- stored evidence. Drafts were never part of the public record, so their
+-- ledger entries go with them; every other ledger entry stays append-only.
+CREATE OR REPLACE FUNCTION public.is_abandoned_draft(_complaint_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.complaints
+    WHERE id = _complaint_id
+      AND submitted_at IS NULL
+      AND created_at < now() - interval '1 day'
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.reject_public_log_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND public.is_abandoned_draft(OLD.complaint_id) THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'public_logs is append-only: % is not allowed', TG_OP;
+END;
+$$;
+
+-- Abandoned drafts with the storage objects only they reference. Objects
+-- shared with another complaint (the old shared anonymous/ folder) are kept.
+CREATE OR REPLACE FUNCTION public.abandoned_drafts(_limit INTEGER DEFAULT 50)
+RETURNS TABLE (draft_id UUID, storage_paths TEXT[])
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    coalesce(
+      array_agg(DISTINCT e.storage_path) FILTER (
+        WHERE e.storage_path IS NOT NULL
+          AND NOT EXISTS (
+            SELECT 1 FROM public.evidence_files other
+            WHERE other.storage_path = e.storage_path
+              AND other.complaint_id <> c.id
+          )
+      ),
+      ARRAY[]::TEXT[]
+    )
+  FROM public.complaints c
+  LEFT JOIN public.evidence_files e ON e.complaint_id = c.id
+  WHERE c.submitted_at IS NULL
+    AND c.created_at < now() - interval '1 day'
+  GROUP BY c.id, c.created_at
+  ORDER BY c.created_at
+  LIMIT _limit
+$$;
+
+-- Deletes the draft, its ledger entries and everything cascading from it.
+-- Returns false if it was finalized or is no longer old enough.
+CREATE OR REPLACE FUNCTION public.delete_abandoned_draft(_complaint_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1 FROM public.complaints WHERE id = _complaint_id FOR UPDATE;
+
+  IF NOT public.is_abandoned_draft(_complaint_id) THEN
+    RETURN false;
+  END IF;
+
+  DELETE FROM public.public_logs WHERE complaint_id = _complaint_id;
+  DELETE FROM public.complaints WHERE id = _complaint_id;
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_abandoned_draft(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.abandoned_drafts(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.delete_abandoned_draft(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Prune once an hour. Uses the same vault secrets as process-triage-queue.
+SELECT cron.schedule(
+  'prune-drafts',
+  '0 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/prune-drafts',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
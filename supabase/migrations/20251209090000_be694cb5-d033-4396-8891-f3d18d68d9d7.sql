@@ -0,0 +1,168 @@
+-- Anyone could create anonymous/<sha256> with any bytes, and an existing
+-- object was taken as already holding the committed file, so evidence could
+-- be squatted or poisoned before the reporter uploaded it. An evidence row
+-- could also point at any object, including another complaint's. Each
+-- complaint now gets a private random folder, returned only to whoever
+-- created it; objects in it can only be created while the complaint is a
+-- draft and only for its committed hashes, and its evidence must live there.
+-- Existing evidence keeps its paths; the old folders no longer count towards
+-- finalizing a complaint.
+ALTER TABLE public.complaints
+ADD COLUMN upload_prefix TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(16), 'hex');
+
+-- Storage: <upload_prefix>/<hash>, for a hash the draft committed to
+CREATE OR REPLACE FUNCTION public.accepts_evidence_upload(_name TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.complaints
+    WHERE upload_prefix = split_part(_name, '/', 1)
+      AND submitted_at IS NULL
+      AND split_part(_name, '/', 2) = ANY(evidence_hashes)
+      AND (is_anonymous OR user_id = auth.uid())
+  )
+$$;
+
+CREATE POLICY "Reporters can upload evidence for their drafts"
+  ON storage.objects FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (
+    bucket_id = 'evidence' AND
+    name ~ '^[0-9a-f]{32}/[0-9a-f]{64}$' AND
+    public.accepts_evidence_upload(name)
+  );
+
+-- Reporters read their evidence by what is recorded on their complaints
+CREATE POLICY "Users can view evidence recorded on own complaints"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'evidence' AND
+    EXISTS (
+      SELECT 1
+      FROM public.evidence_files e
+      JOIN public.complaints c ON c.id = e.complaint_id
+      WHERE e.storage_path = storage.objects.name
+        AND c.user_id = auth.uid()
+    )
+  );
+
+-- Evidence rows: a committed hash of a draft, stored in the draft's folder
+CREATE OR REPLACE FUNCTION public.accepts_evidence(_complaint_id UUID, _storage_path TEXT, _file_hash TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.complaints
+    WHERE id = _complaint_id
+      AND submitted_at IS NULL
+      AND _file_hash = ANY(evidence_hashes)
+      AND _storage_path = upload_prefix || '/' || _file_hash
+      AND (is_anonymous OR user_id = auth.uid())
+  )
+$$;
+
+DROP POLICY "Users can insert evidence" ON public.evidence_files;
+DROP POLICY "Anyone can insert evidence for anonymous complaints" ON public.evidence_files;
+DROP FUNCTION public.accepts_anonymous_evidence(UUID, TEXT);
+
+CREATE POLICY "Reporters can record evidence for their drafts"
+  ON public.evidence_files FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (public.accepts_evidence(complaint_id, storage_path, file_hash));
+
+-- Only objects in the complaint's own folder count as stored
+CREATE OR REPLACE FUNCTION public.finalize_complaint(_complaint_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  complaint RECORD;
+  missing INTEGER;
+  finalized_at TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO complaint
+  FROM public.complaints
+  WHERE id = _complaint_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Complaint not found';
+  END IF;
+
+  IF NOT complaint.is_anonymous AND complaint.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the reporter can finalize a complaint';
+  END IF;
+
+  IF complaint.submitted_at IS NOT NULL THEN
+    RETURN complaint.submitted_at;
+  END IF;
+
+  SELECT count(*) INTO missing
+  FROM unnest(complaint.evidence_hashes) AS h(file_hash)
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM public.evidence_files e
+    JOIN storage.objects o ON o.bucket_id = 'evidence' AND o.name = e.storage_path
+    WHERE e.complaint_id = _complaint_id
+      AND e.file_hash = h.file_hash
+      AND e.storage_path = complaint.upload_prefix || '/' || h.file_hash
+  );
+
+  IF missing > 0 THEN
+    RAISE EXCEPTION '% evidence file(s) have not finished uploading', missing;
+  END IF;
+
+  UPDATE public.complaints
+  SET submitted_at = NOW()
+  WHERE id = _complaint_id
+  RETURNING submitted_at INTO finalized_at;
+
+  RETURN finalized_at;
+END;
+$$;
+
+-- Anonymous reporters cannot read the complaint back, so the folder is
+-- returned along with the tracking credentials
+DROP FUNCTION public.submit_anonymous_complaint(TEXT, TEXT, complaint_category, TEXT, DECIMAL, DECIMAL, TEXT[]);
+
+CREATE FUNCTION public.submit_anonymous_complaint(
+  _title TEXT,
+  _description TEXT,
+  _category complaint_category,
+  _location TEXT,
+  _latitude DECIMAL,
+  _longitude DECIMAL,
+  _evidence_hashes TEXT[]
+)
+RETURNS TABLE (id UUID, tracking_code TEXT, tracking_secret TEXT, upload_prefix TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  secret TEXT := public.generate_tracking_secret();
+BEGIN
+  RETURN QUERY
+  INSERT INTO public.complaints (
+    user_id, is_anonymous, title, description, category, location,
+    latitude, longitude, evidence_hashes, urgency_score, tracking_secret_hash
+  )
+  VALUES (
+    NULL, true, _title, _description, _category, _location,
+    _latitude, _longitude, _evidence_hashes, 5, public.hash_tracking_secret(secret)
+  )
+  RETURNING complaints.id, complaints.tracking_code, secret, complaints.upload_prefix;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_anonymous_complaint(TEXT, TEXT, complaint_category, TEXT, DECIMAL, DECIMAL, TEXT[]) TO anon, authenticated;
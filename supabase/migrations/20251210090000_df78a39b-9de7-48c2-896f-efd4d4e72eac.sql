@@ -0,0 +1,34 @@
+-- escalated_at was never cleared, so a complaint escalated once was never
+-- escalated again, even after a new urgency gave it a later deadline. It is
+-- now cleared when the deadline moves later. An earlier deadline keeps the
+-- escalation, since escalating again would take the complaint from the
+-- supervisor who now owns it. Earlier escalations stay in
+-- complaint_escalations.
+CREATE OR REPLACE FUNCTION public.track_complaint_sla()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('resolved', 'rejected') THEN
+    IF OLD.status NOT IN ('resolved', 'rejected') THEN
+      NEW.closed_at := now();
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.submitted_at IS NOT NULL AND (
+    OLD.submitted_at IS NULL OR
+    NEW.urgency_score IS DISTINCT FROM OLD.urgency_score
+  ) THEN
+    NEW.due_at := public.sla_due_at(NEW.category, NEW.urgency_score, NEW.submitted_at);
+  END IF;
+
+  IF NEW.due_at > OLD.due_at THEN
+    NEW.escalated_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
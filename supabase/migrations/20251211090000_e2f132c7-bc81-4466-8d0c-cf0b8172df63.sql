@@ -0,0 +1,200 @@
+-- A reply posted through verify-tracking accepted any existing
+-- anonymous/<hash> object as an attachment, and the hashes of other
+-- complaints' evidence are public, so a tracking-code holder could attach
+-- another reporter's evidence to their own complaint and download it. Reply
+-- attachments are now uploaded into a folder opened for that one reply, in
+-- the same <random>/<hash> shape as draft evidence, and a reply only accepts
+-- objects from its own folder. A file that is already evidence on another
+-- complaint is refused outright. Nothing writes to the old shared folders
+-- any more, so their upload policies go.
+DROP POLICY "Users can upload evidence" ON storage.objects;
+DROP POLICY "Anonymous users can upload evidence" ON storage.objects;
+
+CREATE TABLE public.reply_uploads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+  folder TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(16), 'hex'),
+  file_hashes TEXT[] NOT NULL,
+  -- Set once the reply is posted; a folder carries a single reply
+  message_id UUID REFERENCES public.complaint_messages(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_reply_uploads_complaint ON public.reply_uploads(complaint_id);
+
+-- Written and read only through the functions below
+ALTER TABLE public.reply_uploads ENABLE ROW LEVEL SECURITY;
+
+-- Opens a folder for the attachments of the reporter's next reply. Same
+-- callers as post_reporter_message(); the folder is only returned to them.
+CREATE OR REPLACE FUNCTION public.start_reply_upload(_complaint_id UUID, _file_hashes TEXT[])
+RETURNS TABLE (id UUID, folder TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  complaint RECORD;
+BEGIN
+  SELECT * INTO complaint
+  FROM public.complaints
+  WHERE complaints.id = _complaint_id AND submitted_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Complaint not found';
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' AND
+     (complaint.user_id IS NULL OR complaint.user_id IS DISTINCT FROM auth.uid()) THEN
+    RAISE EXCEPTION 'Only the reporter can reply to this complaint';
+  END IF;
+
+  IF coalesce(cardinality(_file_hashes), 0) NOT BETWEEN 1 AND 5 THEN
+    RAISE EXCEPTION 'At most 5 attachments can be sent with a message';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(_file_hashes) AS h(file_hash) WHERE coalesce(h.file_hash, '') !~ '^[0-9a-f]{64}$') THEN
+    RAISE EXCEPTION 'Invalid attachment hash';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.reply_uploads (complaint_id, file_hashes)
+  VALUES (_complaint_id, _file_hashes)
+  RETURNING reply_uploads.id, reply_uploads.folder;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_reply_upload(UUID, TEXT[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.start_reply_upload(UUID, TEXT[]) TO authenticated;
+
+-- Storage: <folder>/<hash> of an open reply folder, for a hash it was opened for
+CREATE OR REPLACE FUNCTION public.accepts_reply_upload(_name TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.reply_uploads r
+    JOIN public.complaints c ON c.id = r.complaint_id
+    WHERE r.folder = split_part(_name, '/', 1)
+      AND r.message_id IS NULL
+      AND r.created_at > now() - interval '1 day'
+      AND split_part(_name, '/', 2) = ANY(r.file_hashes)
+      AND (c.is_anonymous OR c.user_id = auth.uid())
+  )
+$$;
+
+CREATE POLICY "Reporters can upload reply attachments"
+  ON storage.objects FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (
+    bucket_id = 'evidence' AND
+    name ~ '^[0-9a-f]{32}/[0-9a-f]{64}$' AND
+    public.accepts_reply_upload(name)
+  );
+
+-- Attachments must come from the reply folder named by _upload_id
+DROP FUNCTION public.post_reporter_message(UUID, TEXT, JSONB);
+
+CREATE FUNCTION public.post_reporter_message(
+  _complaint_id UUID,
+  _body TEXT,
+  _attachments JSONB DEFAULT '[]'::jsonb,
+  _upload_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  complaint RECORD;
+  upload public.reply_uploads%ROWTYPE;
+  attachment JSONB;
+  path TEXT;
+  new_message_id UUID;
+BEGIN
+  SELECT * INTO complaint
+  FROM public.complaints
+  WHERE id = _complaint_id AND submitted_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Complaint not found';
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' AND
+     (complaint.user_id IS NULL OR complaint.user_id IS DISTINCT FROM auth.uid()) THEN
+    RAISE EXCEPTION 'Only the reporter can reply to this complaint';
+  END IF;
+
+  IF jsonb_typeof(_attachments) IS DISTINCT FROM 'array' OR jsonb_array_length(_attachments) > 5 THEN
+    RAISE EXCEPTION 'At most 5 attachments can be sent with a message';
+  END IF;
+
+  IF jsonb_array_length(_attachments) > 0 THEN
+    SELECT * INTO upload
+    FROM public.reply_uploads
+    WHERE id = _upload_id
+      AND complaint_id = _complaint_id
+      AND message_id IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Attachments must be uploaded for this reply';
+    END IF;
+  END IF;
+
+  INSERT INTO public.complaint_messages (complaint_id, sender_role, sender_id, body)
+  VALUES (_complaint_id, 'reporter', auth.uid(), btrim(_body))
+  RETURNING id INTO new_message_id;
+
+  FOR attachment IN SELECT value FROM jsonb_array_elements(_attachments)
+  LOOP
+    IF coalesce(attachment->>'file_hash', '') !~ '^[0-9a-f]{64}$' THEN
+      RAISE EXCEPTION 'Invalid attachment hash';
+    END IF;
+
+    IF (attachment->>'file_hash') <> ALL(upload.file_hashes) THEN
+      RAISE EXCEPTION 'Attachment % was not uploaded for this reply', attachment->>'file_name';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.evidence_files
+      WHERE file_hash = attachment->>'file_hash' AND complaint_id <> _complaint_id
+    ) THEN
+      RAISE EXCEPTION 'Attachment % is already evidence on another complaint', attachment->>'file_name';
+    END IF;
+
+    path := upload.folder || '/' || (attachment->>'file_hash');
+
+    IF NOT EXISTS (SELECT 1 FROM storage.objects WHERE bucket_id = 'evidence' AND name = path) THEN
+      RAISE EXCEPTION 'Attachment % has not finished uploading', attachment->>'file_name';
+    END IF;
+
+    INSERT INTO public.evidence_files (
+      complaint_id, message_id, storage_path, file_name, file_type, file_size, file_hash, original_file_hash
+    )
+    VALUES (
+      _complaint_id,
+      new_message_id,
+      path,
+      coalesce(nullif(btrim(attachment->>'file_name'), ''), 'attachment'),
+      coalesce(attachment->>'file_type', 'application/octet-stream'),
+      (attachment->>'file_size')::integer,
+      attachment->>'file_hash',
+      attachment->>'original_file_hash'
+    );
+  END LOOP;
+
+  IF upload.id IS NOT NULL THEN
+    UPDATE public.reply_uploads SET message_id = new_message_id WHERE id = upload.id;
+  END IF;
+
+  RETURN new_message_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.post_reporter_message(UUID, TEXT, JSONB, UUID) TO authenticated;
@@ -0,0 +1,23 @@
+-- public_logs could be read in full by anyone, so it listed the id of every
+-- complaint, which joined a redacted transparency row back to its ledger
+-- entries and was the input verify_complaint and the storage exploits took.
+-- The ledger is now read one complaint at a time through complaint_ledger(),
+-- for an id the caller already holds; entries themselves are unchanged and
+-- still verifiable by anyone given that id.
+DROP POLICY "Anyone can view public logs" ON public.public_logs;
+DROP POLICY "Anonymous users can view public logs" ON public.public_logs;
+
+CREATE OR REPLACE FUNCTION public.complaint_ledger(_complaint_id UUID)
+RETURNS SETOF public.public_logs
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM public.public_logs
+  WHERE complaint_id = _complaint_id
+  ORDER BY seq
+$$;
+
+GRANT EXECUTE ON FUNCTION public.complaint_ledger(UUID) TO anon, authenticated;
@@ -0,0 +1,104 @@
+-- tracking-subscriptions stored and mailed any email address it was given,
+-- so anyone holding a tracking code could sign up someone else's address,
+-- and the same contact could be registered again and again. Email contacts
+-- now start unconfirmed: the only mail they get is a confirmation link, and
+-- notifications go out once it is opened. A push endpoint belongs to the
+-- browser that registered it, so push contacts are confirmed at once.
+-- contact_hash, a keyed hash of the complaint and the contact computed by the
+-- edge function, lets each contact follow a complaint only once without the
+-- database learning the contact. Email contacts registered before this were
+-- never confirmed and get nothing further until registered again.
+ALTER TABLE public.tracking_subscriptions
+ADD COLUMN contact_hash TEXT,
+-- SHA-256 of the token in the confirmation link; cleared once confirmed
+ADD COLUMN confirm_token_hash TEXT UNIQUE,
+ADD COLUMN confirmed_at TIMESTAMPTZ;
+
+UPDATE public.tracking_subscriptions
+SET confirmed_at = created_at
+WHERE channel = 'push';
+
+CREATE UNIQUE INDEX idx_tracking_subscriptions_contact
+  ON public.tracking_subscriptions(complaint_id, contact_hash);
+
+ALTER TABLE public.notification_outbox
+DROP CONSTRAINT notification_outbox_template_check;
+
+ALTER TABLE public.notification_outbox
+ADD CONSTRAINT notification_outbox_template_check
+  CHECK (template IN ('status_changed', 'note_shared', 'information_requested', 'message_received', 'subscription_confirmation'));
+
+-- Only confirmed contacts are notified
+CREATE OR REPLACE FUNCTION public.enqueue_notification(
+  _complaint_id UUID,
+  _template TEXT,
+  _payload JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  complaint RECORD;
+  settings RECORD;
+  content JSONB;
+BEGIN
+  SELECT id, user_id, title, tracking_code INTO complaint
+  FROM public.complaints
+  WHERE id = _complaint_id AND submitted_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.notification_outbox (complaint_id, subscription_id, channel, template, payload)
+  SELECT complaint.id, s.id, s.channel, _template, jsonb_build_object(
+    'anonymous', true,
+    'old_status', _payload->'old_status',
+    'new_status', _payload->'new_status'
+  )
+  FROM public.tracking_subscriptions s
+  WHERE s.complaint_id = complaint.id
+    AND s.confirmed_at IS NOT NULL;
+
+  IF complaint.user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT
+    coalesce(np.email_enabled, true) AS email_enabled,
+    coalesce(np.sms_enabled, false) AS sms_enabled,
+    CASE _template
+      WHEN 'status_changed' THEN coalesce(np.status_changes, true)
+      WHEN 'note_shared' THEN coalesce(np.citizen_notes, true)
+      ELSE coalesce(np.information_requests, true)
+    END AS wanted,
+    nullif(btrim(p.email), '') AS email,
+    nullif(btrim(p.phone), '') AS phone
+  INTO settings
+  FROM public.profiles p
+  LEFT JOIN public.notification_preferences np ON np.user_id = p.id
+  WHERE p.id = complaint.user_id;
+
+  IF NOT FOUND OR NOT settings.wanted THEN
+    RETURN;
+  END IF;
+
+  content := _payload || jsonb_build_object(
+    'complaint_id', complaint.id,
+    'complaint_title', complaint.title,
+    'tracking_code', complaint.tracking_code
+  );
+
+  IF settings.email_enabled AND settings.email IS NOT NULL THEN
+    INSERT INTO public.notification_outbox (user_id, complaint_id, channel, recipient, template, payload)
+    VALUES (complaint.user_id, complaint.id, 'email', settings.email, _template, content);
+  END IF;
+
+  IF settings.sms_enabled AND settings.phone IS NOT NULL THEN
+    INSERT INTO public.notification_outbox (user_id, complaint_id, channel, recipient, template, payload)
+    VALUES (complaint.user_id, complaint.id, 'sms', settings.phone, _template, content);
+  END IF;
+END;
+$$;
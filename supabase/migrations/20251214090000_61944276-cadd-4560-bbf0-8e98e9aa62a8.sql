@@ -0,0 +1,108 @@
+-- Three fixes to tracking-code lookups:
+-- * The client was keyed by the first X-Forwarded-For entry, which the caller
+--   writes. The proxy appends the address it saw last, so that one is used.
+-- * Five failures locked a code for everyone, so anyone knowing a code could
+--   lock its reporter out. Failures on a code now only lock out the client
+--   that made them; the secret is far too long to guess from many clients.
+-- * Complaints filed before tracking secrets lost tracking-code access. Their
+--   old CW-XXXX-XXXX codes open them again without a secret, read-only: the
+--   complaint, notes, messages and evidence, but no replies or new
+--   subscriptions, since the short code is all that protects them.
+CREATE OR REPLACE FUNCTION public.request_client_hash()
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT encode(extensions.digest(btrim(regexp_replace(forwarded, '^.*,', '')), 'sha256'), 'hex')
+  FROM (
+    SELECT current_setting('request.headers', true)::json ->> 'x-forwarded-for' AS forwarded
+  ) request
+  WHERE forwarded IS NOT NULL
+$$;
+
+CREATE INDEX idx_tracking_lookup_failures_code_client
+  ON public.tracking_lookup_failures(tracking_code, client_hash, failed_at);
+
+DROP INDEX public.idx_tracking_lookup_failures_code;
+
+-- Same as before, plus read_only for legacy codes. Five failures on a code
+-- lock that code for the failing client only; twenty lock the client.
+DROP FUNCTION public.verify_tracking_credentials(TEXT, TEXT, TEXT);
+
+CREATE FUNCTION public.verify_tracking_credentials(
+  _tracking_code TEXT,
+  _tracking_secret TEXT,
+  _client_hash TEXT DEFAULT NULL
+)
+RETURNS TABLE (complaint_id UUID, retry_after TIMESTAMPTZ, read_only BOOLEAN)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  lockout_window CONSTANT INTERVAL := interval '15 minutes';
+  max_code_failures CONSTANT INTEGER := 5;
+  max_client_failures CONSTANT INTEGER := 20;
+  code TEXT := upper(btrim(coalesce(_tracking_code, '')));
+  -- An old code given without a secret
+  legacy BOOLEAN := code ~ '^CW-[0-9A-F]{4}-[0-9A-F]{4}$' AND btrim(coalesce(_tracking_secret, '')) = '';
+  code_locked_until TIMESTAMPTZ;
+  client_locked_until TIMESTAMPTZ;
+  matched_id UUID;
+BEGIN
+  -- Locked until the oldest failure that counts towards the limit expires
+  SELECT min(recent.failed_at) + lockout_window INTO code_locked_until
+  FROM (
+    SELECT f.failed_at FROM public.tracking_lookup_failures f
+    WHERE f.tracking_code = code
+      AND f.client_hash IS NOT DISTINCT FROM _client_hash
+      AND f.failed_at > now() - lockout_window
+    ORDER BY f.failed_at DESC
+    LIMIT max_code_failures
+  ) recent
+  HAVING count(*) >= max_code_failures;
+
+  IF _client_hash IS NOT NULL THEN
+    SELECT min(recent.failed_at) + lockout_window INTO client_locked_until
+    FROM (
+      SELECT f.failed_at FROM public.tracking_lookup_failures f
+      WHERE f.client_hash = _client_hash AND f.failed_at > now() - lockout_window
+      ORDER BY f.failed_at DESC
+      LIMIT max_client_failures
+    ) recent
+    HAVING count(*) >= max_client_failures;
+  END IF;
+
+  IF code_locked_until IS NOT NULL OR client_locked_until IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::UUID, greatest(code_locked_until, client_locked_until), NULL::BOOLEAN;
+    RETURN;
+  END IF;
+
+  IF legacy THEN
+    SELECT c.id INTO matched_id
+    FROM public.complaints c
+    WHERE c.tracking_code = code
+      AND c.tracking_secret_hash IS NULL;
+  ELSE
+    SELECT c.id INTO matched_id
+    FROM public.complaints c
+    WHERE c.tracking_code = code
+      AND c.tracking_secret_hash IS NOT NULL
+      AND c.tracking_secret_hash = public.hash_tracking_secret(_tracking_secret);
+  END IF;
+
+  IF matched_id IS NULL THEN
+    INSERT INTO public.tracking_lookup_failures (tracking_code, client_hash)
+    VALUES (code, _client_hash);
+    RETURN QUERY SELECT NULL::UUID, NULL::TIMESTAMPTZ, NULL::BOOLEAN;
+    RETURN;
+  END IF;
+
+  DELETE FROM public.tracking_lookup_failures f
+  WHERE f.tracking_code = code AND f.client_hash IS NOT DISTINCT FROM _client_hash;
+  RETURN QUERY SELECT matched_id, NULL::TIMESTAMPTZ, legacy;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_tracking_credentials(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
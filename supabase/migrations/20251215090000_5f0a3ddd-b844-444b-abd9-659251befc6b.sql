@@ -0,0 +1,152 @@
+-- Follow-up to the tracking-code lookups of 20251214090000:
+-- * Old CW-XXXX-XXXX codes hold 32 bits from md5 and opened the full
+--   complaint. verify_complaint now returns the redacted view for them, as it
+--   does for a lookup by complaint ID; verify-tracking does the same.
+-- * Failures were only limited per code and client, and per client, and a
+--   missing client hash skipped the client limit. Rotating addresses got
+--   around both. Failures on a code now also count across all clients, with
+--   a higher ceiling so one caller cannot lock a reporter out, and requests
+--   without an address share one client bucket.
+-- * generate_tracking_code in 20251204090000 says older codes keep working as
+--   identifiers. They did not until 20251214090000, and since then they show
+--   the status only.
+
+-- Five failures on a code lock it for the failing client, fifty for everyone;
+-- twenty lock the client. Requests without an address count as one client.
+CREATE OR REPLACE FUNCTION public.verify_tracking_credentials(
+  _tracking_code TEXT,
+  _tracking_secret TEXT,
+  _client_hash TEXT DEFAULT NULL
+)
+RETURNS TABLE (complaint_id UUID, retry_after TIMESTAMPTZ, read_only BOOLEAN)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  lockout_window CONSTANT INTERVAL := interval '15 minutes';
+  max_code_client_failures CONSTANT INTEGER := 5;
+  max_code_failures CONSTANT INTEGER := 50;
+  max_client_failures CONSTANT INTEGER := 20;
+  code TEXT := upper(btrim(coalesce(_tracking_code, '')));
+  client TEXT := coalesce(_client_hash, 'unknown');
+  -- An old code given without a secret
+  legacy BOOLEAN := code ~ '^CW-[0-9A-F]{4}-[0-9A-F]{4}$' AND btrim(coalesce(_tracking_secret, '')) = '';
+  code_client_locked_until TIMESTAMPTZ;
+  code_locked_until TIMESTAMPTZ;
+  client_locked_until TIMESTAMPTZ;
+  matched_id UUID;
+BEGIN
+  -- Each lock lasts until the oldest failure that counts towards its limit expires
+  SELECT min(recent.failed_at) + lockout_window INTO code_client_locked_until
+  FROM (
+    SELECT f.failed_at FROM public.tracking_lookup_failures f
+    WHERE f.tracking_code = code AND f.client_hash = client AND f.failed_at > now() - lockout_window
+    ORDER BY f.failed_at DESC
+    LIMIT max_code_client_failures
+  ) recent
+  HAVING count(*) >= max_code_client_failures;
+
+  SELECT min(recent.failed_at) + lockout_window INTO code_locked_until
+  FROM (
+    SELECT f.failed_at FROM public.tracking_lookup_failures f
+    WHERE f.tracking_code = code AND f.failed_at > now() - lockout_window
+    ORDER BY f.failed_at DESC
+    LIMIT max_code_failures
+  ) recent
+  HAVING count(*) >= max_code_failures;
+
+  SELECT min(recent.failed_at) + lockout_window INTO client_locked_until
+  FROM (
+    SELECT f.failed_at FROM public.tracking_lookup_failures f
+    WHERE f.client_hash = client AND f.failed_at > now() - lockout_window
+    ORDER BY f.failed_at DESC
+    LIMIT max_client_failures
+  ) recent
+  HAVING count(*) >= max_client_failures;
+
+  IF code_client_locked_until IS NOT NULL OR code_locked_until IS NOT NULL OR client_locked_until IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::UUID, greatest(code_client_locked_until, code_locked_until, client_locked_until), NULL::BOOLEAN;
+    RETURN;
+  END IF;
+
+  IF legacy THEN
+    SELECT c.id INTO matched_id
+    FROM public.complaints c
+    WHERE c.tracking_code = code
+      AND c.tracking_secret_hash IS NULL;
+  ELSE
+    SELECT c.id INTO matched_id
+    FROM public.complaints c
+    WHERE c.tracking_code = code
+      AND c.tracking_secret_hash IS NOT NULL
+      AND c.tracking_secret_hash = public.hash_tracking_secret(_tracking_secret);
+  END IF;
+
+  IF matched_id IS NULL THEN
+    INSERT INTO public.tracking_lookup_failures (tracking_code, client_hash)
+    VALUES (code, client);
+    RETURN QUERY SELECT NULL::UUID, NULL::TIMESTAMPTZ, NULL::BOOLEAN;
+    RETURN;
+  END IF;
+
+  DELETE FROM public.tracking_lookup_failures f
+  WHERE f.tracking_code = code AND f.client_hash = client;
+  RETURN QUERY SELECT matched_id, NULL::TIMESTAMPTZ, legacy;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_tracking_credentials(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Full fields only for a code and its secret; old codes get the redacted view
+CREATE OR REPLACE FUNCTION public.verify_complaint(
+  _complaint_id UUID DEFAULT NULL,
+  _tracking_code TEXT DEFAULT NULL,
+  _tracking_secret TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  category complaint_category,
+  status complaint_status,
+  created_at TIMESTAMPTZ,
+  location TEXT,
+  latitude DECIMAL,
+  longitude DECIMAL,
+  evidence_hashes TEXT[],
+  complaint_hash TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  found_id UUID := _complaint_id;
+  locked_until TIMESTAMPTZ;
+  legacy BOOLEAN;
+  redacted BOOLEAN := true;
+BEGIN
+  IF _tracking_code IS NOT NULL THEN
+    SELECT v.complaint_id, v.retry_after, v.read_only INTO found_id, locked_until, legacy
+    FROM public.verify_tracking_credentials(_tracking_code, _tracking_secret, public.request_client_hash()) v;
+
+    IF locked_until IS NOT NULL THEN
+      RAISE EXCEPTION 'Too many failed attempts. Try again after % UTC',
+        to_char(locked_until AT TIME ZONE 'UTC', 'HH24:MI');
+    END IF;
+
+    redacted := coalesce(legacy, true);
+  END IF;
+
+  RETURN QUERY
+  SELECT c.id,
+         CASE WHEN redacted THEN NULL ELSE c.title END,
+         c.category, c.status, c.created_at,
+         CASE WHEN redacted THEN NULL ELSE c.location END,
+         CASE WHEN redacted THEN round(c.latitude, 1) ELSE c.latitude END,
+         CASE WHEN redacted THEN round(c.longitude, 1) ELSE c.longitude END,
+         c.evidence_hashes, c.complaint_hash
+  FROM public.complaints c
+  WHERE c.id = found_id;
+END;
+$$;
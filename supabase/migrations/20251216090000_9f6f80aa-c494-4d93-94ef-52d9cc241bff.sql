@@ -0,0 +1,118 @@
+-- The ledger is public through complaint_ledger(), yet every entry by an
+-- official stored their user id in actor_id, and complaint_assigned entries
+-- carried the old and new assignee ids as values. The ledger now records the
+-- actor's role only. Which official acted is kept in ledger_actors, readable
+-- by admins, and assignees are already in complaint_assignments.
+-- Entries written before this keep their ids: they are part of the hashed
+-- content, and removing them would break every chain they are in.
+CREATE TABLE public.ledger_actors (
+  log_id UUID PRIMARY KEY REFERENCES public.public_logs(id) ON DELETE CASCADE,
+  actor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ledger_actors_actor ON public.ledger_actors(actor_id, recorded_at);
+
+ALTER TABLE public.ledger_actors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view ledger actors"
+  ON public.ledger_actors FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+INSERT INTO public.ledger_actors (log_id, actor_id, recorded_at)
+SELECT l.id, l.actor_id, l."timestamp"
+FROM public.public_logs l
+JOIN auth.users u ON u.id = l.actor_id;
+
+CREATE OR REPLACE FUNCTION public.append_public_log(
+  _complaint_id UUID,
+  _action TEXT,
+  _metadata_hash TEXT,
+  _old_value TEXT DEFAULT NULL,
+  _new_value TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor TEXT := public.current_actor_role();
+  log_id UUID;
+BEGIN
+  INSERT INTO public.public_logs (complaint_id, action, metadata_hash, actor_role, actor_id, old_value, new_value)
+  VALUES (_complaint_id, _action, _metadata_hash, actor, NULL, _old_value, _new_value)
+  RETURNING id INTO log_id;
+
+  IF actor IN ('government', 'admin') THEN
+    INSERT INTO public.ledger_actors (log_id, actor_id)
+    VALUES (log_id, auth.uid());
+  END IF;
+END;
+$$;
+
+-- Assignee changes go in as a hash, like department moves
+CREATE OR REPLACE FUNCTION public.log_complaint_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM public.append_public_log(
+      NEW.id,
+      'status_changed',
+      public.change_hash(to_jsonb(OLD.status), to_jsonb(NEW.status)),
+      OLD.status::text,
+      NEW.status::text
+    );
+  END IF;
+
+  IF NEW.urgency_score IS DISTINCT FROM OLD.urgency_score THEN
+    PERFORM public.append_public_log(
+      NEW.id,
+      'urgency_changed',
+      public.change_hash(to_jsonb(OLD.urgency_score), to_jsonb(NEW.urgency_score)),
+      OLD.urgency_score::text,
+      NEW.urgency_score::text
+    );
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    PERFORM public.append_public_log(
+      NEW.id,
+      'complaint_assigned',
+      public.change_hash(to_jsonb(OLD.assigned_to), to_jsonb(NEW.assigned_to))
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Evidence views go through append_public_log again, now that it keeps
+-- identities out of the ledger
+CREATE OR REPLACE FUNCTION public.record_evidence_views(_evidence_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  evidence RECORD;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'government') OR public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only officials can record evidence views';
+  END IF;
+
+  FOR evidence IN
+    SELECT id, complaint_id, file_hash
+    FROM public.evidence_files
+    WHERE id = ANY(_evidence_ids)
+  LOOP
+    PERFORM public.append_public_log(evidence.complaint_id, 'evidence_viewed', evidence.file_hash, NULL, evidence.id::text);
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,73 @@
+-- Merging a duplicate also moves the complaints already merged into it, but
+-- only the duplicate and the primary got a duplicate_merged entry, so the
+-- public history of the moved complaints stopped matching their state. Each
+-- of them now gets an entry for the move too.
+CREATE OR REPLACE FUNCTION public.merge_duplicate_complaint(_duplicate_id UUID, _primary_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  duplicate public.complaints;
+  primary_complaint public.complaints;
+  moved UUID;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'government') OR public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only officials can merge complaints';
+  END IF;
+
+  SELECT * INTO duplicate FROM public.complaints WHERE id = _duplicate_id FOR UPDATE;
+  SELECT * INTO primary_complaint FROM public.complaints WHERE id = _primary_id FOR UPDATE;
+
+  IF duplicate.id IS NULL OR primary_complaint.id IS NULL THEN
+    RAISE EXCEPTION 'Complaint not found';
+  END IF;
+
+  IF _duplicate_id = _primary_id THEN
+    RAISE EXCEPTION 'A complaint cannot be merged into itself';
+  END IF;
+
+  IF duplicate.duplicate_of IS NOT NULL THEN
+    RAISE EXCEPTION 'This complaint is already merged into another complaint';
+  END IF;
+
+  IF primary_complaint.duplicate_of IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot merge into a complaint that is itself a duplicate';
+  END IF;
+
+  UPDATE public.complaints
+  SET duplicate_of = _primary_id
+  WHERE id = _duplicate_id;
+
+  FOR moved IN
+    UPDATE public.complaints
+    SET duplicate_of = _primary_id
+    WHERE duplicate_of = _duplicate_id
+    RETURNING id
+  LOOP
+    PERFORM public.append_public_log(
+      moved, 'duplicate_merged', public.change_hash(to_jsonb(_duplicate_id), to_jsonb(_primary_id)), moved::text, _primary_id::text
+    );
+  END LOOP;
+
+  UPDATE public.complaints
+  SET urgency_score = CASE
+        WHEN coalesce(ai_metadata, '{}'::jsonb) ? 'urgency_override' THEN urgency_score
+        ELSE greatest(urgency_score, duplicate.urgency_score)
+      END,
+      is_critical = is_critical OR duplicate.is_critical
+  WHERE id = _primary_id;
+
+  INSERT INTO public.complaint_links (complaint_id, linked_complaint_id, created_by)
+  VALUES (least(_duplicate_id, _primary_id), greatest(_duplicate_id, _primary_id), auth.uid())
+  ON CONFLICT DO NOTHING;
+
+  PERFORM public.append_public_log(
+    _duplicate_id, 'duplicate_merged', public.change_hash(NULL, to_jsonb(_primary_id)), _duplicate_id::text, _primary_id::text
+  );
+  PERFORM public.append_public_log(
+    _primary_id, 'duplicate_merged', public.change_hash(NULL, to_jsonb(_duplicate_id)), _duplicate_id::text, _primary_id::text
+  );
+END;
+$$;
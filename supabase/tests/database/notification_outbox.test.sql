@@ -0,0 +1,73 @@
+-- Outbox delivery outcomes: failures are retried with backoff until
+-- max_attempts, then given up. Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(8);
+
+INSERT INTO public.complaints (id, is_anonymous, title, description, category)
+VALUES ('00000000-0000-4000-8000-000000000011', true, 'Outbox', 'Notified complaint', 'bribery');
+
+INSERT INTO public.notification_outbox (id, complaint_id, channel, recipient, template, max_attempts)
+VALUES
+  ('00000000-0000-4000-8000-000000000021', '00000000-0000-4000-8000-000000000011', 'email', 'a@example.org', 'note_shared', 3),
+  ('00000000-0000-4000-8000-000000000022', '00000000-0000-4000-8000-000000000011', 'email', 'b@example.org', 'note_shared', 3);
+
+SELECT is(
+  (SELECT count(*) FROM public.claim_notifications(20)),
+  2::bigint,
+  'due notifications are claimed'
+);
+
+SELECT is(
+  (SELECT count(*) FROM public.claim_notifications(20)),
+  0::bigint,
+  'claimed notifications are not handed out twice'
+);
+
+SELECT public.complete_notification('00000000-0000-4000-8000-000000000021');
+
+SELECT results_eq(
+  $$SELECT status, sent_at IS NOT NULL FROM public.notification_outbox WHERE id = '00000000-0000-4000-8000-000000000021'$$,
+  $$VALUES ('sent', true)$$,
+  'a delivered notification is sent'
+);
+
+SELECT public.complete_notification('00000000-0000-4000-8000-000000000022', 'connection refused');
+
+SELECT results_eq(
+  $$SELECT status, last_error, next_attempt_at - now() FROM public.notification_outbox WHERE id = '00000000-0000-4000-8000-000000000022'$$,
+  $$VALUES ('pending', 'connection refused', interval '1 minute')$$,
+  'the first failure is retried a minute later'
+);
+
+-- Second attempt
+UPDATE public.notification_outbox SET next_attempt_at = now() WHERE id = '00000000-0000-4000-8000-000000000022';
+SELECT is((SELECT count(*) FROM public.claim_notifications(20)), 1::bigint, 'a retry is claimed once due');
+SELECT public.complete_notification('00000000-0000-4000-8000-000000000022', 'connection refused');
+
+SELECT is(
+  (SELECT next_attempt_at - now() FROM public.notification_outbox WHERE id = '00000000-0000-4000-8000-000000000022'),
+  interval '2 minutes',
+  'the wait doubles with each failure'
+);
+
+-- Third and last attempt
+UPDATE public.notification_outbox SET next_attempt_at = now() WHERE id = '00000000-0000-4000-8000-000000000022';
+SELECT public.claim_notifications(20);
+SELECT public.complete_notification('00000000-0000-4000-8000-000000000022', 'connection refused');
+
+SELECT is(
+  (SELECT status FROM public.notification_outbox WHERE id = '00000000-0000-4000-8000-000000000022'),
+  'failed',
+  'a notification out of attempts fails'
+);
+
+SELECT is(
+  (SELECT count(*) FROM public.claim_notifications(20)),
+  0::bigint,
+  'failed notifications are not claimed again'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,108 @@
+-- Reply attachments must have been uploaded for that reply: a tracking-code
+-- holder must not be able to attach, and so download, another complaint's
+-- evidence by its public hash. Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(7);
+
+-- Two submitted anonymous complaints; the victim's evidence is on file
+INSERT INTO public.complaints (id, is_anonymous, title, description, category, evidence_hashes)
+VALUES
+  ('00000000-0000-4000-8000-000000000001', true, 'Victim', 'Evidence of a bribe', 'bribery', ARRAY[repeat('a', 64)]),
+  ('00000000-0000-4000-8000-000000000002', true, 'Attacker', 'Wants that evidence', 'bribery', '{}');
+
+UPDATE public.complaints SET submitted_at = now()
+WHERE id IN ('00000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000002');
+
+INSERT INTO storage.objects (bucket_id, name)
+SELECT 'evidence', upload_prefix || '/' || repeat('a', 64)
+FROM public.complaints WHERE id = '00000000-0000-4000-8000-000000000001';
+
+INSERT INTO public.evidence_files (complaint_id, storage_path, file_name, file_type, file_hash)
+SELECT id, upload_prefix || '/' || repeat('a', 64), 'bribe.jpg', 'image/jpeg', repeat('a', 64)
+FROM public.complaints WHERE id = '00000000-0000-4000-8000-000000000001';
+
+-- verify-tracking posts replies for anonymous reporters as the service role
+SELECT set_config('request.jwt.claims', '{"role": "service_role"}', true);
+
+SELECT throws_ok(
+  $$SELECT public.post_reporter_message(
+    '00000000-0000-4000-8000-000000000002', 'see attached',
+    jsonb_build_array(jsonb_build_object('file_hash', repeat('a', 64), 'file_name', 'leak.jpg'))
+  )$$,
+  'P0001',
+  'Attachments must be uploaded for this reply',
+  'an attachment needs a reply upload'
+);
+
+CREATE TEMP TABLE stolen_upload AS
+SELECT * FROM public.start_reply_upload('00000000-0000-4000-8000-000000000002', ARRAY[repeat('a', 64)]);
+
+SELECT throws_ok(
+  $$SELECT public.post_reporter_message(
+    '00000000-0000-4000-8000-000000000002', 'see attached',
+    jsonb_build_array(jsonb_build_object('file_hash', repeat('a', 64), 'file_name', 'leak.jpg')),
+    (SELECT id FROM stolen_upload)
+  )$$,
+  'P0001',
+  'Attachment leak.jpg is already evidence on another complaint',
+  'another complaint''s evidence cannot be attached'
+);
+
+CREATE TEMP TABLE reply_upload AS
+SELECT * FROM public.start_reply_upload('00000000-0000-4000-8000-000000000002', ARRAY[repeat('b', 64), repeat('c', 64)]);
+
+SELECT throws_ok(
+  $$SELECT public.post_reporter_message(
+    '00000000-0000-4000-8000-000000000002', 'see attached',
+    jsonb_build_array(jsonb_build_object('file_hash', repeat('c', 64), 'file_name', 'missing.jpg')),
+    (SELECT id FROM reply_upload)
+  )$$,
+  'P0001',
+  'Attachment missing.jpg has not finished uploading',
+  'the object must be in the reply''s own folder'
+);
+
+INSERT INTO storage.objects (bucket_id, name)
+SELECT 'evidence', folder || '/' || repeat('b', 64) FROM reply_upload;
+
+SELECT lives_ok(
+  $$SELECT public.post_reporter_message(
+    '00000000-0000-4000-8000-000000000002', 'see attached',
+    jsonb_build_array(jsonb_build_object('file_hash', repeat('b', 64), 'file_name', 'own.jpg')),
+    (SELECT id FROM reply_upload)
+  )$$,
+  'a file uploaded for the reply is attached'
+);
+
+SELECT is(
+  (SELECT storage_path FROM public.evidence_files WHERE file_name = 'own.jpg'),
+  (SELECT folder || '/' || repeat('b', 64) FROM reply_upload),
+  'the attachment points at the reply''s folder'
+);
+
+SELECT throws_ok(
+  $$SELECT public.post_reporter_message(
+    '00000000-0000-4000-8000-000000000002', 'again',
+    jsonb_build_array(jsonb_build_object('file_hash', repeat('b', 64), 'file_name', 'own.jpg')),
+    (SELECT id FROM reply_upload)
+  )$$,
+  'P0001',
+  'Attachments must be uploaded for this reply',
+  'a reply upload carries a single reply'
+);
+
+-- Nobody can write to the old shared folder any more
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT throws_ok(
+  $$INSERT INTO storage.objects (bucket_id, name) VALUES ('evidence', 'anonymous/' || repeat('d', 64))$$,
+  '42501',
+  NULL,
+  'anonymous/<hash> is not writable'
+);
+
+SELECT * FROM finish();
+ROLLBACK;